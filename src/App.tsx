@@ -3,9 +3,17 @@ import { useState, useEffect } from 'react';
 import Dashboard from './pages/Dashboard';
 import ItemList from './pages/ItemList';
 import AddItem from './pages/AddItem';
+import ImportItems from './pages/ImportItems';
 import EditItem from './pages/EditItem';
 import MaterialHistory from './pages/MaterialHistory';
+import HistoryLog from './pages/HistoryLog';
+import MaterialCatalog from './pages/MaterialCatalog';
+import Warehouses from './pages/Warehouses';
 import UserManagement from './pages/UserManagement';
+import MyRequests from './pages/MyRequests';
+import ScanItem from './pages/ScanItem';
+import Stock from './pages/Stock';
+import Valuation from './pages/Valuation';
 import Navigation from './components/Navigation';
 import Footer from './components/Footer';
 import Login from './pages/Login';
@@ -26,14 +34,14 @@ function App() {
     setUserRole(null);
   };
 
-  const handleExtendSession = () => {
-    // Reset the login time to extend the session
-    const currentUser = {
-      id: localStorage.getItem('userId') || '',
-      username: localStorage.getItem('username') || '',
-      role: (localStorage.getItem('userRole') as 'admin' | 'manager' | 'employee') || 'employee'
-    };
-    authService.saveAuthData(currentUser);
+  const handleExtendSession = async () => {
+    // Extend the server-side session, which also resets the login time
+    try {
+      await authService.extendSession();
+    } catch (error) {
+      console.error('Failed to extend session:', error);
+      handleLogout();
+    }
   };
 
   // Set up auto-logout functionality - changed to 10 minutes
@@ -120,21 +128,35 @@ function App() {
             {userRole === 'admin' && (
               <>
                 <Route path="/items/add" element={<AddItem />} />
+                <Route path="/items/import" element={<ImportItems />} />
                 <Route path="/items/edit/:id" element={<EditItem />} />
-                <Route path="/items/history/:id" element={<MaterialHistory />} />
+                <Route path="/items/history/:id" element={<MaterialHistory userRole={userRole} />} />
+                <Route path="/history" element={<HistoryLog />} />
+                <Route path="/valuation" element={<Valuation />} />
+                <Route path="/materials" element={<MaterialCatalog />} />
+                <Route path="/warehouses" element={<Warehouses />} />
               </>
             )}
 
             {/* Manager-only routes */}
             {userRole === 'manager' && (
               <>
-                <Route path="/items/history/:id" element={<MaterialHistory />} />
+                <Route path="/items/history/:id" element={<MaterialHistory userRole={userRole} />} />
+                <Route path="/history" element={<HistoryLog />} />
+                <Route path="/valuation" element={<Valuation />} />
                 <Route path="/user-management" element={<UserManagement />} />
               </>
             )}
 
+            {/* Employee-only routes */}
+            {userRole === 'employee' && (
+              <Route path="/my-requests" element={<MyRequests />} />
+            )}
+
             {/* Routes for all users */}
             <Route path="/items" element={<ItemList userRole={userRole} />} />
+            <Route path="/scan" element={<ScanItem userRole={userRole} />} />
+            <Route path="/stock" element={<Stock userRole={userRole} />} />
 
             {/* Catch-all fallback route */}
             <Route
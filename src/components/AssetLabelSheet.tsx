@@ -0,0 +1,99 @@
+import { Document, Page, View, Text, Image, StyleSheet } from '@react-pdf/renderer';
+import { mmToPt } from '../lib/labels';
+import type { AssetLabel, LabelLayout } from '../lib/labels';
+
+interface AssetLabelSheetProps {
+  labels: AssetLabel[];
+  layout: LabelLayout;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignContent: 'flex-start',
+  },
+  label: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  details: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  material: {
+    fontFamily: 'Helvetica-Bold',
+    maxLines: 2,
+    textOverflow: 'ellipsis',
+  },
+  serialNumber: {
+    fontFamily: 'Courier',
+  },
+  warehouse: {
+    color: '#555555',
+  },
+});
+
+// PDF sheet of asset labels, each with a QR code linking back to the item
+export function AssetLabelSheet({ labels, layout }: AssetLabelSheetProps) {
+  const labelsPerPage = layout.columns * layout.rows;
+  const pages: AssetLabel[][] = [];
+  for (let i = 0; i < labels.length; i += labelsPerPage) {
+    pages.push(labels.slice(i, i + labelsPerPage));
+  }
+
+  // Scale the content to the label height so small thermal labels stay legible
+  const padding = mmToPt(Math.min(3, layout.labelHeight * 0.08));
+  const qrSize = mmToPt(layout.labelHeight) - padding * 2;
+  const fontSize = Math.max(5, Math.min(9, layout.labelHeight / 4.2));
+
+  return (
+    <Document title="Asset Labels">
+      {pages.map((pageLabels, pageIndex) => (
+        <Page
+          key={pageIndex}
+          size={[mmToPt(layout.pageWidth), mmToPt(layout.pageHeight)]}
+          style={[
+            styles.page,
+            { paddingTop: mmToPt(layout.marginTop), paddingLeft: mmToPt(layout.marginLeft) },
+          ]}
+        >
+          {pageLabels.map((label, index) => {
+            const column = index % layout.columns;
+            const row = Math.floor(index / layout.columns);
+
+            return (
+              <View
+                key={label.itemId}
+                style={[
+                  styles.label,
+                  {
+                    width: mmToPt(layout.labelWidth),
+                    height: mmToPt(layout.labelHeight),
+                    padding,
+                    marginRight: column < layout.columns - 1 ? mmToPt(layout.gapX) : 0,
+                    marginBottom: row < layout.rows - 1 ? mmToPt(layout.gapY) : 0,
+                  },
+                ]}
+              >
+                <Image src={label.qrCode} style={{ width: qrSize, height: qrSize }} />
+                <View style={[styles.details, { marginLeft: padding }]}>
+                  <Text style={[styles.material, { fontSize }]}>
+                    {label.material}
+                  </Text>
+                  <Text style={[styles.serialNumber, { fontSize: fontSize * 0.9, marginTop: 2 }]}>
+                    {label.serialNumber}
+                  </Text>
+                  <Text style={[styles.warehouse, { fontSize: fontSize * 0.8, marginTop: 2 }]}>
+                    {label.warehouseName}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </Page>
+      ))}
+    </Document>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { DocumentTextIcon, PaperClipIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { attachmentService } from '../services/attachmentService';
+import { ATTACHMENT_ACCEPT, formatFileSize, getAttachmentError } from '../lib/attachments';
+import type { AttachmentWithUrls } from '../services/attachmentService';
+
+interface AttachmentGalleryProps {
+  itemId: string;
+  canManage: boolean; // Upload and delete
+}
+
+export function AttachmentGallery({ itemId, canManage }: AttachmentGalleryProps) {
+  const [attachments, setAttachments] = useState<AttachmentWithUrls[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await attachmentService.getAttachments(itemId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Picking the same file again should trigger another upload
+
+    const userId = localStorage.getItem('userId');
+    if (files.length === 0 || !userId) return;
+
+    const problem = files.map(getAttachmentError).find(Boolean);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files) {
+        await attachmentService.uploadAttachment({ item_id: itemId, file, uploaded_by: userId });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment');
+    } finally {
+      setUploading(false);
+      await loadAttachments();
+    }
+  };
+
+  const handleDelete = async (attachment: AttachmentWithUrls) => {
+    if (deletingId || !window.confirm(`Delete ${attachment.file_name}?`)) return;
+
+    setDeletingId(attachment.id);
+    setError(null);
+
+    try {
+      await attachmentService.deleteAttachment(attachment);
+      setAttachments(prev => prev.filter(entry => entry.id !== attachment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-500 dark:text-slate-400">
+          Attachments
+        </label>
+        {canManage && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="inline-flex items-center space-x-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {uploading ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              ) : (
+                <PaperClipIcon className="h-4 w-4" />
+              )}
+              <span>{uploading ? 'Uploading...' : 'Attach'}</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              onChange={handleFilesSelected}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">No photos or documents</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="relative group">
+              <a
+                href={attachment.url || undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={`${attachment.file_name} (${formatFileSize(attachment.size_bytes)})${attachment.uploaded_by_user ? ` by ${attachment.uploaded_by_user.username}` : ''}`}
+                className="block aspect-square rounded-md overflow-hidden border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700"
+              >
+                {attachment.thumbnail_url ? (
+                  <img
+                    src={attachment.thumbnail_url}
+                    alt={attachment.file_name}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <div className="h-full w-full flex flex-col items-center justify-center p-1 text-gray-500 dark:text-slate-400">
+                    <DocumentTextIcon className="h-8 w-8" />
+                    <span className="text-xs truncate max-w-full">{attachment.file_name}</span>
+                  </div>
+                )}
+              </a>
+              {attachment.context === 'return_report' && (
+                <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/60 dark:text-amber-200">
+                  Return
+                </span>
+              )}
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  disabled={deletingId === attachment.id}
+                  className="absolute top-1 right-1 p-1 rounded-full bg-white/90 dark:bg-slate-800/90 text-red-600 dark:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100 disabled:opacity-50 transition-opacity"
+                  aria-label={`Delete ${attachment.file_name}`}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import type { Item } from '../lib/supabase';
+import { toLocalDateString } from '../lib/dates';
+
+interface BorrowCartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: Item[];
+  onRemoveItem: (itemId: string) => void;
+  onConfirm: (purpose: string, expectedReturnDate: string) => void;
+  isLoading?: boolean;
+}
+
+export function BorrowCartModal({ isOpen, onClose, items, onRemoveItem, onConfirm, isLoading = false }: BorrowCartModalProps) {
+  const [purpose, setPurpose] = useState('');
+  const [expectedReturnDate, setExpectedReturnDate] = useState('');
+  const today = toLocalDateString(new Date());
+
+  const canSubmit = items.length > 0 && purpose.trim() !== '' && expectedReturnDate !== '' && expectedReturnDate >= today;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isLoading && canSubmit) {
+      onConfirm(purpose.trim(), expectedReturnDate);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-lg relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">
+                Borrow {items.length} Item{items.length === 1 ? '' : 's'}
+              </h3>
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4 max-h-60 overflow-y-auto divide-y divide-gray-100 dark:divide-slate-700 border border-gray-200 dark:border-slate-600 rounded-md">
+                  {items.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400 p-3 text-center">Your cart is empty.</p>
+                  ) : (
+                    items.map((item) => (
+                      <div key={item.id} className="flex items-center justify-between px-3 py-2">
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium text-gray-900 dark:text-slate-100 truncate">{item.material}</p>
+                          <p className="text-xs font-mono text-gray-500 dark:text-slate-400 truncate">{item.serial_number}</p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => onRemoveItem(item.id)}
+                          disabled={isLoading}
+                          className="ml-2 p-1 text-gray-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400 rounded transition-colors disabled:opacity-50"
+                          title="Remove from cart"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Purpose
+                  </label>
+                  <textarea
+                    value={purpose}
+                    onChange={(e) => setPurpose(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400"
+                    rows={2}
+                    required
+                    disabled={isLoading}
+                    placeholder="e.g. Meter replacement job at substation..."
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Expected return date
+                  </label>
+                  <input
+                    type="date"
+                    value={expectedReturnDate}
+                    min={today}
+                    onChange={(e) => setExpectedReturnDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isLoading}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={isLoading || !canSubmit}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {isLoading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Submitting...</span>
+                      </>
+                    ) : (
+                      <span>Submit Requests</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toLocalDateString } from '../lib/dates';
+
+interface BorrowRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (expectedReturnDate: string) => void;
+  isLoading?: boolean;
+  itemName?: string;
+}
+
+export function BorrowRequestModal({ isOpen, onClose, onConfirm, isLoading = false, itemName }: BorrowRequestModalProps) {
+  const [expectedReturnDate, setExpectedReturnDate] = useState('');
+  const today = toLocalDateString(new Date());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isLoading && expectedReturnDate && expectedReturnDate >= today) {
+      onConfirm(expectedReturnDate);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+      setExpectedReturnDate('');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Request to Borrow</h3>
+              {itemName && (
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">{itemName}</p>
+              )}
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Expected return date
+                  </label>
+                  <input
+                    type="date"
+                    value={expectedReturnDate}
+                    min={today}
+                    onChange={(e) => setExpectedReturnDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                    required
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                    The item will be marked overdue if it is not returned by this date.
+                  </p>
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isLoading}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={isLoading || !expectedReturnDate || expectedReturnDate < today}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {isLoading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Submitting...</span>
+                      </>
+                    ) : (
+                      <span>Submit Request</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
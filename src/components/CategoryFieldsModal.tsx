@@ -0,0 +1,292 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { customFieldService } from '../services/customFieldService';
+import { CUSTOM_FIELD_TYPE_OPTIONS, formatCustomFieldType } from '../lib/customFields';
+import type { CategoryFieldFormData } from '../services/customFieldService';
+import type { CategoryField, CustomFieldType, MaterialCategory } from '../lib/supabase';
+
+interface CategoryFieldsModalProps {
+  isOpen: boolean;
+  categories: MaterialCategory[];
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+export function CategoryFieldsModal({ isOpen, categories, onClose }: CategoryFieldsModalProps) {
+  const [categoryId, setCategoryId] = useState('');
+  const [fields, setFields] = useState<CategoryField[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [label, setLabel] = useState('');
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+  const [required, setRequired] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setLabel('');
+    setFieldType('text');
+    setOptions('');
+    setRequired(false);
+  };
+
+  // Start from the first category every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCategoryId(categories[0]?.id ?? '');
+    resetForm();
+    setError(null);
+  }, [isOpen, categories]);
+
+  useEffect(() => {
+    if (!isOpen || !categoryId) {
+      setFields([]);
+      return;
+    }
+
+    setLoading(true);
+    customFieldService.getFields(categoryId)
+      .then(setFields)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load custom fields'))
+      .finally(() => setLoading(false));
+  }, [isOpen, categoryId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !categoryId || !label.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const data: CategoryFieldFormData = {
+        category_id: categoryId,
+        label,
+        field_type: fieldType,
+        options: options.split(','),
+        required,
+      };
+      // New fields go last, after any gaps left by deleted ones
+      const position = fields.reduce((next, field) => Math.max(next, field.position + 1), 0);
+      const created = await customFieldService.createField(data, position);
+      setFields(prev => [...prev, created]);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add custom field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CategoryField) => {
+    if (deletingId || !window.confirm(`Delete the "${field.label}" field? Items lose its value the next time they are saved.`)) return;
+
+    setDeletingId(field.id);
+    setError(null);
+
+    try {
+      await customFieldService.deleteField(field.id);
+      setFields(prev => prev.filter(entry => entry.id !== field.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete custom field');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-lg relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">
+                Custom Fields
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+                Items of every material in the category show these fields when they are added or edited.
+              </p>
+
+              {error && (
+                <div className="my-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {categories.length === 0 ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-500 dark:text-slate-400">
+                    Create a category from a material first.
+                  </p>
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Category</label>
+                    <select
+                      value={categoryId}
+                      onChange={(e) => setCategoryId(e.target.value)}
+                      className={inputClassName}
+                      disabled={saving}
+                    >
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {loading ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+                  ) : fields.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400">No custom fields in this category</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-md">
+                      {fields.map(field => (
+                        <li key={field.id} className="flex items-center justify-between px-3 py-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 dark:text-slate-100">
+                              {field.label} {field.required && <span className="text-red-500">*</span>}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                              {formatCustomFieldType(field.field_type)}
+                              {field.options && field.options.length > 0 && `: ${field.options.join(', ')}`}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(field)}
+                            disabled={deletingId === field.id}
+                            className="p-1 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50"
+                            aria-label={`Delete ${field.label}`}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-200 dark:border-slate-700 pt-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                          Name <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={label}
+                          onChange={(e) => setLabel(e.target.value)}
+                          className={inputClassName}
+                          placeholder="e.g. Accuracy class"
+                          disabled={saving}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Type</label>
+                        <select
+                          value={fieldType}
+                          onChange={(e) => setFieldType(e.target.value as CustomFieldType)}
+                          className={inputClassName}
+                          disabled={saving}
+                        >
+                          {CUSTOM_FIELD_TYPE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {fieldType === 'enum' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                          Options <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={options}
+                          onChange={(e) => setOptions(e.target.value)}
+                          className={inputClassName}
+                          placeholder="Comma separated, e.g. 0.5, 1, 2"
+                          disabled={saving}
+                        />
+                      </div>
+                    )}
+
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={required}
+                        onChange={(e) => setRequired(e.target.checked)}
+                        className="rounded border-gray-300 dark:border-slate-600 text-blue-600 focus:ring-blue-500"
+                        disabled={saving}
+                      />
+                      <span>Required when adding or editing an item</span>
+                    </label>
+
+                    <div className="flex justify-end space-x-3 pt-2">
+                      <button
+                        type="button"
+                        onClick={handleClose}
+                        disabled={saving}
+                        className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Close
+                      </button>
+                      <motion.button
+                        type="submit"
+                        disabled={saving || !label.trim()}
+                        whileTap={{ scale: 0.98 }}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                      >
+                        {saving ? (
+                          <>
+                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                            <span>Adding...</span>
+                          </>
+                        ) : (
+                          <span>Add Field</span>
+                        )}
+                      </motion.button>
+                    </div>
+                  </form>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
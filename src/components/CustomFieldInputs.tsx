@@ -0,0 +1,76 @@
+import type { FieldErrors, UseFormRegister } from 'react-hook-form';
+import { toOptionalNumber, toOptionalText } from '../lib/forms';
+import type { ItemFormData } from '../services/itemService';
+import type { CategoryField } from '../lib/supabase';
+
+interface CustomFieldInputsProps {
+  fields: CategoryField[];
+  register: UseFormRegister<ItemFormData>;
+  errors: FieldErrors<ItemFormData>;
+  disabled: boolean;
+  inputClassName: string;
+}
+
+/**
+ * Inputs for the custom fields of the selected material's category
+ */
+export function CustomFieldInputs({ fields, register, errors, disabled, inputClassName }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map(field => {
+        // Unregistered when another material hides the field, so its value is dropped
+        const name = `custom_fields.${field.id}` as const;
+        // Checked after trimming, so blank text does not count as filled in
+        const validateRequired = (value: unknown) =>
+          !field.required || (value !== null && value !== undefined && value !== '') || `${field.label} is required`;
+        const message = errors.custom_fields?.[field.id]?.message;
+
+        return (
+          <div key={field.id}>
+            <label className="block text-sm font-medium text-gray-700">
+              {field.label} {field.required && <span className="text-red-500">*</span>}
+            </label>
+            {field.field_type === 'enum' ? (
+              <select
+                {...register(name, { shouldUnregister: true, setValueAs: toOptionalText, validate: validateRequired })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                <option value="">Not set</option>
+                {(field.options || []).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : field.field_type === 'number' ? (
+              <input
+                type="number"
+                step="any"
+                {...register(name, {
+                  shouldUnregister: true,
+                  setValueAs: toOptionalNumber,
+                  validate: value => value === null || value === undefined
+                    ? validateRequired(value)
+                    : Number.isFinite(value) || `${field.label} must be a number`,
+                })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            ) : (
+              <input
+                type={field.field_type === 'date' ? 'date' : 'text'}
+                {...register(name, { shouldUnregister: true, setValueAs: toOptionalText, validate: validateRequired })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            )}
+            {message && (
+              <p className="text-sm text-red-600 mt-1">{message}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
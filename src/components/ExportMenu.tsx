@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowDownTrayIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { downloadBlob, toCsvBlob, toXlsxBlob } from '../lib/exports';
+import { toLocalDateString } from '../lib/dates';
+import type { ExportFormat, ExportTable } from '../lib/exports';
+
+interface ExportMenuProps {
+  // Called on click so the export reflects what is on screen at that moment
+  getTable: () => ExportTable | Promise<ExportTable>;
+  fileName: string;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV (.csv)' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'pdf', label: 'PDF report (.pdf)' },
+];
+
+export function ExportMenu({ getTable, fileName, disabled = false }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(format);
+    setError(null);
+
+    try {
+      const table = await getTable();
+      let blob: Blob;
+
+      if (format === 'csv') {
+        blob = toCsvBlob(table);
+      } else if (format === 'xlsx') {
+        blob = await toXlsxBlob(table);
+      } else {
+        // The PDF renderer is large, so it is only loaded when a report is exported
+        const [{ pdf }, { ExportReport }] = await Promise.all([
+          import('@react-pdf/renderer'),
+          import('./ExportReport')
+        ]);
+        blob = await pdf(<ExportReport table={table} generatedAt={new Date()} />).toBlob();
+      }
+
+      downloadBlob(blob, `${fileName}-${toLocalDateString(new Date())}.${format}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <motion.button
+        type="button"
+        whileTap={{ scale: 0.98 }}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || exporting !== null}
+        className="w-full lg:w-auto border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 shadow-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm sm:text-base flex items-center justify-center space-x-2"
+      >
+        {exporting ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        ) : (
+          <ArrowDownTrayIcon className="h-4 w-4" />
+        )}
+        <span>{exporting ? 'Exporting...' : 'Export'}</span>
+        <ChevronDownIcon className={`h-4 w-4 text-gray-400 dark:text-slate-500 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.2 }}
+            className="absolute right-0 mt-2 w-full lg:w-48 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-slate-600 py-1 z-50"
+          >
+            {FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.format}
+                type="button"
+                onClick={() => handleExport(option.format)}
+                className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+              >
+                {option.label}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && (
+        <p className="absolute right-0 mt-1 text-xs text-red-600 dark:text-red-400 whitespace-nowrap">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { Document, Page, View, Text, StyleSheet } from '@react-pdf/renderer';
+import { REPORT_COMPANY_NAME, REPORT_SYSTEM_NAME } from '../lib/exports';
+import type { ExportTable } from '../lib/exports';
+
+interface ExportReportProps {
+  table: ExportTable;
+  generatedAt: Date;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 32,
+    paddingBottom: 40,
+    paddingHorizontal: 32,
+    fontSize: 8,
+    fontFamily: 'Helvetica',
+    color: '#111827',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    borderBottomWidth: 2,
+    borderBottomColor: '#0e7490',
+    paddingBottom: 8,
+    marginBottom: 12,
+  },
+  company: {
+    fontSize: 16,
+    fontFamily: 'Helvetica-Bold',
+    color: '#0e7490',
+  },
+  system: {
+    fontSize: 9,
+    color: '#4b5563',
+  },
+  generated: {
+    fontSize: 8,
+    color: '#4b5563',
+    textAlign: 'right',
+  },
+  title: {
+    fontSize: 13,
+    fontFamily: 'Helvetica-Bold',
+    marginBottom: 2,
+  },
+  subtitle: {
+    fontSize: 9,
+    color: '#4b5563',
+    marginBottom: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    backgroundColor: '#0e7490',
+    color: '#ffffff',
+    fontFamily: 'Helvetica-Bold',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#d1d5db',
+  },
+  stripedRow: {
+    backgroundColor: '#f3f4f6',
+  },
+  cell: {
+    flex: 1,
+    paddingVertical: 4,
+    paddingHorizontal: 3,
+  },
+  empty: {
+    marginTop: 12,
+    color: '#6b7280',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 20,
+    left: 32,
+    right: 32,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    fontSize: 7,
+    color: '#6b7280',
+  },
+});
+
+// Formatted PDF version of an exported table with the company header on every page
+export function ExportReport({ table, generatedAt }: ExportReportProps) {
+  return (
+    <Document title={table.title} author={REPORT_COMPANY_NAME}>
+      <Page size="A4" orientation="landscape" style={styles.page}>
+        <View style={styles.header} fixed>
+          <View>
+            <Text style={styles.company}>{REPORT_COMPANY_NAME}</Text>
+            <Text style={styles.system}>{REPORT_SYSTEM_NAME}</Text>
+          </View>
+          <Text style={styles.generated}>
+            Generated {generatedAt.toLocaleString('en-US', {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit'
+            })}
+          </Text>
+        </View>
+
+        <Text style={styles.title}>{table.title}</Text>
+        <Text style={styles.subtitle}>
+          {table.subtitle ? `${table.subtitle} · ` : ''}{table.rows.length} record{table.rows.length === 1 ? '' : 's'}
+        </Text>
+
+        <View style={styles.headerRow}>
+          {table.columns.map(column => (
+            <Text key={column} style={styles.cell}>{column}</Text>
+          ))}
+        </View>
+
+        {table.rows.map((row, rowIndex) => (
+          <View key={rowIndex} style={rowIndex % 2 === 1 ? [styles.row, styles.stripedRow] : styles.row} wrap={false}>
+            {row.map((value, columnIndex) => (
+              <Text key={columnIndex} style={styles.cell}>{value}</Text>
+            ))}
+          </View>
+        ))}
+
+        {table.rows.length === 0 && (
+          <Text style={styles.empty}>No records match the current filter.</Text>
+        )}
+
+        <View style={styles.footer} fixed>
+          <Text>{REPORT_COMPANY_NAME} · {table.title}</Text>
+          <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+        </View>
+      </Page>
+    </Document>
+  );
+}
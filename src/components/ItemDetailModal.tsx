@@ -1,8 +1,16 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, UserIcon, CalendarIcon } from '@heroicons/react/24/outline';
-import type { Item, PendingRequest } from '../lib/supabase';
+import { XMarkIcon, UserIcon, CalendarIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import type { CategoryField, Item, ItemCondition, PendingRequest } from '../lib/supabase';
 import type { UserRole } from '../App';
 import { useState, useEffect, useCallback } from 'react';
+import { BorrowRequestModal } from './BorrowRequestModal';
+import { ReturnRequestModal } from './ReturnRequestModal';
+import { AttachmentGallery } from './AttachmentGallery';
+import { getDaysOverdue, formatDueDate } from '../lib/dates';
+import { formatItemPlace } from '../lib/locations';
+import { formatCondition } from '../lib/conditions';
+import { formatCustomFieldValue } from '../lib/customFields';
+import { customFieldService } from '../services/customFieldService';
 
 interface ItemDetailModalProps {
   item: Item | null;
@@ -12,7 +20,10 @@ interface ItemDetailModalProps {
   onEdit?: (itemId: string) => void;
   onArchive?: (item: Item) => void;
   onUnarchive?: (item: Item) => void;
+  onTransfer?: (item: Item) => void;
   pendingRequests?: PendingRequest[];
+  isInCart?: boolean;
+  onToggleCart?: (item: Item) => void;
 }
 
 export function ItemDetailModal({ 
@@ -23,10 +34,16 @@ export function ItemDetailModal({
   onEdit, 
   onArchive,
   onUnarchive,
-  pendingRequests
+  onTransfer,
+  pendingRequests,
+  isInCart = false,
+  onToggleCart
 }: ItemDetailModalProps) {
   const [requesting, setRequesting] = useState(false);
+  const [showBorrowModal, setShowBorrowModal] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
   const [userPendingRequests, setUserPendingRequests] = useState<PendingRequest[]>([]);
+  const [customFields, setCustomFields] = useState<CategoryField[]>([]);
 
   // Load user's pending requests when modal opens
   const loadUserPendingRequests = useCallback(() => {
@@ -67,12 +84,33 @@ export function ItemDetailModal({
     }
   }, [isOpen, item, userRole, loadUserPendingRequests]);
 
+  // Only items with custom values need the field definitions
+  useEffect(() => {
+    if (!isOpen || !item || Object.keys(item.custom_fields || {}).length === 0) {
+      setCustomFields([]);
+      return;
+    }
+
+    customFieldService.getFields()
+      .then(setCustomFields)
+      .catch(error => {
+        console.error('Error loading custom fields:', error);
+        setCustomFields([]);
+      });
+  }, [isOpen, item]);
+
   if (!item) return null;
 
+  const customValues = customFields.flatMap(field => {
+    const value = item.custom_fields?.[field.id];
+    return value === undefined ? [] : [{ field, value }];
+  });
+
   const getStatusDisplay = (status: string) => {
     const statusMap: Record<string, { label: string; color: string }> = {
       available: { label: 'Available', color: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
       used: { label: 'Used', color: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+      maintenance: { label: 'Maintenance', color: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
       archived: { label: 'Archived', color: 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300' }
     };
 
@@ -80,6 +118,7 @@ export function ItemDetailModal({
   };
 
   const statusInfo = getStatusDisplay(item.status);
+  const daysOverdue = getDaysOverdue(item);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -116,40 +155,79 @@ export function ItemDetailModal({
       return; // User already has a pending request
     }
 
+    if (item.status !== 'available' && item.status !== 'used') {
+      return; // Invalid status
+    }
+
+    // Borrowing needs an expected return date first
+    if (actionType === 'use') {
+      setShowBorrowModal(true);
+      return;
+    }
+
+    // Returning needs a condition report first
+    setShowReturnModal(true);
+  };
+
+  const submitRequest = async (
+    actionType: 'use' | 'return',
+    expectedReturnDate?: string,
+    returnCondition?: ItemCondition,
+    returnNotes?: string,
+    returnPhotos: File[] = []
+  ) => {
+    const currentUserId = localStorage.getItem('userId');
+    if (!currentUserId) {
+      return;
+    }
+
     setRequesting(true);
 
     try {
       // Import services dynamically to avoid circular dependencies
       const { pendingRequestService } = await import('../services/pendingRequestService');
       const { historyService } = await import('../services/historyService');
+      const { attachmentService } = await import('../services/attachmentService');
 
-      let historyAction: string;
-      
-      if (item.status === 'available') {
-        historyAction = 'requested_borrow';
-      } else if (item.status === 'used') {
-        historyAction = 'requested_return';
-      } else {
-        return; // Invalid status
-      }
+      const historyAction = actionType === 'use' ? 'requested_borrow' : 'requested_return';
 
       // Create pending request
-      await pendingRequestService.createRequest({
+      const request = await pendingRequestService.createRequest({
         item_id: item.id,
         requested_by: currentUserId,
-        action_type: actionType
+        action_type: actionType,
+        expected_return_date: expectedReturnDate,
+        return_condition: returnCondition,
+        return_notes: returnNotes
       });
 
       // Add history entry
       await historyService.createEntry({
         item_id: item.id,
-        action: historyAction as any,
+        action: historyAction,
         performed_by: currentUserId,
-        details: `${historyAction === 'requested_borrow' ? 'Requested to borrow' : 'Requested to return'} item`,
+        details: historyAction === 'requested_borrow'
+          ? `Requested to borrow item (expected return: ${expectedReturnDate})`
+          : `Requested to return item (condition: ${formatCondition(returnCondition ?? 'good').toLowerCase()})`,
         previous_status: item.status,
-        new_status: item.status // Status doesn't change until approved
+        new_status: item.status, // Status doesn't change until approved
+        condition: returnCondition,
+        condition_notes: returnNotes
       });
 
+      // Condition report photos go with the request they document
+      for (const file of returnPhotos) {
+        await attachmentService.uploadAttachment({
+          item_id: item.id,
+          file,
+          uploaded_by: currentUserId,
+          pending_request_id: request.id
+        });
+      }
+
+      setShowBorrowModal(false);
+      setShowReturnModal(false);
+
       // Close modal and refresh parent
       onClose();
       window.location.reload(); // Simple refresh to update the list
@@ -160,6 +238,28 @@ export function ItemDetailModal({
     }
   };
 
+  const cancelRequest = async (request: PendingRequest) => {
+    const currentUserId = localStorage.getItem('userId');
+    if (!currentUserId) {
+      return;
+    }
+
+    setRequesting(true);
+
+    try {
+      const { pendingRequestService } = await import('../services/pendingRequestService');
+      await pendingRequestService.cancelRequest(request.id, currentUserId);
+
+      // Close modal and refresh parent
+      onClose();
+      window.location.reload();
+    } catch (err) {
+      console.error('Failed to cancel request:', err);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
   const canUserActOnItem = (item: Item) => {
     const currentUserId = localStorage.getItem('userId');
     
@@ -171,7 +271,7 @@ export function ItemDetailModal({
       // Only borrower can return and only if they don't have a pending return request
       return item.last_used_by === currentUserId && !hasUserPendingRequest('return');
     }
-    return false; // Cannot act on archived items
+    return false; // Cannot act on archived items or items out for service
   };
 
   const getBorrowReturnButtonText = (item: Item) => {
@@ -187,6 +287,9 @@ export function ItemDetailModal({
       }
       return 'Return';
     }
+    if (item.status === 'maintenance') {
+      return 'In Maintenance';
+    }
     return '';
   };
 
@@ -275,6 +378,22 @@ export function ItemDetailModal({
                     </p>
                   </div>
 
+                  {/* Custom Fields */}
+                  {customValues.length > 0 && (
+                    <div className="grid grid-cols-2 gap-3">
+                      {customValues.map(({ field, value }) => (
+                        <div key={field.id}>
+                          <label className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">
+                            {field.label}
+                          </label>
+                          <p className="text-sm text-gray-900 dark:text-slate-100 break-words">
+                            {formatCustomFieldValue(field, value)}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Status */}
                   <div>
                     <label className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">
@@ -286,6 +405,19 @@ export function ItemDetailModal({
                     </span>
                   </div>
 
+                  {/* Location */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">
+                      Location
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <MapPinIcon className="h-4 w-4 text-gray-400" />
+                      <p className="text-sm text-gray-700 dark:text-slate-300 break-words">
+                        {formatItemPlace(item) || 'Not assigned'}
+                      </p>
+                    </div>
+                  </div>
+
                   {/* Last Used By */}
                   {item.last_used_by_user && (
                     <div>
@@ -301,6 +433,29 @@ export function ItemDetailModal({
                     </div>
                   )}
 
+                  {/* Due Date - Show while borrowed */}
+                  {item.status === 'used' && item.due_date && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">
+                        Due Date
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <CalendarIcon className="h-4 w-4 text-gray-400" />
+                        <p className="text-sm text-gray-700 dark:text-slate-300">
+                          {formatDueDate(item.due_date)}
+                        </p>
+                        {daysOverdue > 0 && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300">
+                            Overdue {daysOverdue} day{daysOverdue > 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Photos and documents */}
+                  <AttachmentGallery itemId={item.id} canManage={userRole === 'admin'} />
+
                   {/* Pending Request Status - Show for employees */}
                   {userRole === 'employee' && userPendingRequests.length > 0 && (
                     <div>
@@ -309,10 +464,19 @@ export function ItemDetailModal({
                       </label>
                       <div className="space-y-1">
                         {userPendingRequests.map((request) => (
-                          <span key={request.id} className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
-                            <span className="w-2 h-2 rounded-full bg-current mr-2"></span>
-                            {request.type === 'use' ? 'Borrow Request Pending' : 'Return Request Pending'}
-                          </span>
+                          <div key={request.id} className="flex items-center justify-between gap-2">
+                            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                              <span className="w-2 h-2 rounded-full bg-current mr-2"></span>
+                              {request.type === 'use' ? 'Borrow Request Pending' : 'Return Request Pending'}
+                            </span>
+                            <button
+                              onClick={() => cancelRequest(request)}
+                              disabled={requesting}
+                              className="text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Cancel
+                            </button>
+                          </div>
                         ))}
                       </div>
                     </div>
@@ -389,6 +553,18 @@ export function ItemDetailModal({
                           Edit Item
                         </button>
                       )}
+
+                      {item.status !== 'archived' && onTransfer && (
+                        <button
+                          onClick={() => {
+                            onTransfer(item);
+                            onClose();
+                          }}
+                          className="flex-1 bg-cyan-600 text-white px-4 py-2.5 rounded-lg hover:bg-cyan-700 transition-colors text-sm font-medium"
+                        >
+                          Transfer
+                        </button>
+                      )}
                       
                       {item.status === 'archived' ? (
                         <button
@@ -424,28 +600,60 @@ export function ItemDetailModal({
                   ) : (
                     // employee actions
                     item.status !== 'archived' && (
-                      <button
-                        onClick={handleBorrowReturn}
-                        disabled={!canUserActOnItem(item) || requesting}
-                        className={`w-full px-4 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center justify-center ${getBorrowReturnButtonColor(item)} ${
-                          !canUserActOnItem(item) || requesting ? 'opacity-50 cursor-not-allowed' : ''
-                        }`}
-                      >
-                        {requesting ? (
-                          <>
-                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
-                            Processing...
-                          </>
-                        ) : (
-                          getBorrowReturnButtonText(item)
+                      <div className="flex flex-col sm:flex-row gap-3">
+                        {item.status === 'available' && onToggleCart && canUserActOnItem(item) && (
+                          <button
+                            onClick={() => onToggleCart(item)}
+                            className={`flex-1 px-4 py-2.5 rounded-lg text-sm font-medium transition-colors ${
+                              isInCart
+                                ? 'bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300'
+                                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100 dark:bg-slate-600 dark:text-slate-200 dark:border-slate-500'
+                            }`}
+                          >
+                            {isInCart ? 'Remove from Cart' : 'Add to Cart'}
+                          </button>
                         )}
-                      </button>
+                        <button
+                          onClick={handleBorrowReturn}
+                          disabled={!canUserActOnItem(item) || requesting}
+                          className={`flex-1 w-full px-4 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center justify-center ${getBorrowReturnButtonColor(item)} ${
+                            !canUserActOnItem(item) || requesting ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
+                        >
+                          {requesting ? (
+                            <>
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
+                              Processing...
+                            </>
+                          ) : (
+                            getBorrowReturnButtonText(item)
+                          )}
+                        </button>
+                      </div>
                     )
                   )}
                 </div>
               </div>
             </motion.div>
           </div>
+
+          {/* Borrow Request Modal - asks for the expected return date */}
+          <BorrowRequestModal
+            isOpen={showBorrowModal}
+            onClose={() => setShowBorrowModal(false)}
+            onConfirm={(expectedReturnDate) => submitRequest('use', expectedReturnDate)}
+            isLoading={requesting}
+            itemName={`${item.material} (${item.serial_number})`}
+          />
+
+          {/* Return Request Modal - asks for the condition of the item */}
+          <ReturnRequestModal
+            isOpen={showReturnModal}
+            onClose={() => setShowReturnModal(false)}
+            onConfirm={(condition, notes, photos) => submitRequest('return', undefined, condition, notes, photos)}
+            isLoading={requesting}
+            itemName={`${item.material} (${item.serial_number})`}
+          />
         </div>
       )}
     </AnimatePresence>
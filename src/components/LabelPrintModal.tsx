@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LABEL_LAYOUTS, DEFAULT_WAREHOUSE_NAME, buildAssetLabels } from '../lib/labels';
+import type { LabelLayoutId } from '../lib/labels';
+import { downloadBlob } from '../lib/exports';
+import type { Item } from '../lib/supabase';
+
+interface LabelPrintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: Item[];
+}
+
+export function LabelPrintModal({ isOpen, onClose, items }: LabelPrintModalProps) {
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('a4_3x8');
+  const [fallbackWarehouseName, setFallbackWarehouseName] = useState(DEFAULT_WAREHOUSE_NAME);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const layout = LABEL_LAYOUTS.find(option => option.id === layoutId) || LABEL_LAYOUTS[0];
+  const labelsPerPage = layout.columns * layout.rows;
+  const pageCount = Math.ceil(items.length / labelsPerPage);
+  const itemsWithoutWarehouse = items.filter(item => !item.warehouse).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (generating || items.length === 0) return;
+
+    setGenerating(true);
+    setError(null);
+
+    try {
+      // The PDF renderer is large, so it is only loaded when labels are printed
+      const [{ pdf }, { AssetLabelSheet }] = await Promise.all([
+        import('@react-pdf/renderer'),
+        import('./AssetLabelSheet')
+      ]);
+
+      const labels = await buildAssetLabels(items, fallbackWarehouseName.trim());
+      const blob = await pdf(<AssetLabelSheet labels={labels} layout={layout} />).toBlob();
+
+      downloadBlob(blob, `asset-labels-${layout.id}.pdf`);
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate labels');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!generating) {
+      setError(null);
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Print Asset Labels</h3>
+              <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+                {items.length} label{items.length === 1 ? '' : 's'} on {pageCount} page{pageCount === 1 ? '' : 's'}
+              </p>
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Label size
+                  </label>
+                  <select
+                    value={layoutId}
+                    onChange={(e) => setLayoutId(e.target.value as LabelLayoutId)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                    disabled={generating}
+                  >
+                    {LABEL_LAYOUTS.map(option => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {itemsWithoutWarehouse > 0 && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                      Warehouse name for {itemsWithoutWarehouse} item{itemsWithoutWarehouse === 1 ? '' : 's'} without a warehouse
+                    </label>
+                    <input
+                      type="text"
+                      value={fallbackWarehouseName}
+                      onChange={(e) => setFallbackWarehouseName(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                      disabled={generating}
+                    />
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">
+                  Each label names its item's warehouse and carries a QR code that opens the item in this app.
+                </p>
+
+                {error && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+                )}
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={generating}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={generating || items.length === 0}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {generating ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Generating...</span>
+                      </>
+                    ) : (
+                      <span>Download PDF</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { maintenanceService } from '../services/maintenanceService';
+import { toLocalDateString } from '../lib/dates';
+import type { Item } from '../lib/supabase';
+
+interface MaintenancePlanModalProps {
+  isOpen: boolean;
+  item: Item | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+export function MaintenancePlanModal({ isOpen, item, onClose, onSaved }: MaintenancePlanModalProps) {
+  const [name, setName] = useState('');
+  const [intervalDays, setIntervalDays] = useState('');
+  const [lastServiceDate, setLastServiceDate] = useState('');
+  const [forMaterial, setForMaterial] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName('Calibration');
+    setIntervalDays('365');
+    setLastServiceDate('');
+    setForMaterial(false);
+    setError(null);
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !item) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await maintenanceService.createPlan({
+        name,
+        interval_days: Number(intervalDays),
+        last_service_date: lastServiceDate || null,
+        material_id: forMaterial ? item.material_id : null,
+        item_id: item.id,
+      }, userId);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && item && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Add Maintenance Plan</h3>
+              <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">
+                {item.material} ({item.serial_number})
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    placeholder="e.g. Calibration"
+                    required
+                    disabled={saving}
+                    autoFocus
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                      Every (days) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={intervalDays}
+                      onChange={(e) => setIntervalDays(e.target.value)}
+                      className={inputClassName}
+                      required
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Last service</label>
+                    <input
+                      type="date"
+                      value={lastServiceDate}
+                      max={toLocalDateString(new Date())}
+                      onChange={(e) => setLastServiceDate(e.target.value)}
+                      className={inputClassName}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-slate-400 -mt-2">
+                  Without a last service date the first service is due counting from when the item was added.
+                </p>
+
+                {item.material_id && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={forMaterial}
+                      onChange={(e) => setForMaterial(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-slate-600"
+                      disabled={saving}
+                    />
+                    <span>Apply to every {item.material} item</span>
+                  </label>
+                )}
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={saving}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={saving || !name.trim() || !intervalDays}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Saving...</span>
+                      </>
+                    ) : (
+                      <span>Add Plan</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
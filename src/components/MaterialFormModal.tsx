@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { materialService } from '../services/materialService';
+import type { MaterialFormData } from '../services/materialService';
+import type { Material, MaterialCategory } from '../lib/supabase';
+
+interface MaterialFormModalProps {
+  isOpen: boolean;
+  material: Material | null; // null creates a new catalog entry
+  categories: MaterialCategory[];
+  initialName?: string;
+  onClose: () => void;
+  onSaved: (material: Material) => void;
+}
+
+// Select value that switches the category field to a text input
+const NEW_CATEGORY = '__new__';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+export function MaterialFormModal({ isOpen, material, categories, initialName = '', onClose, onSaved }: MaterialFormModalProps) {
+  const [formData, setFormData] = useState<MaterialFormData>({ name: '', category_id: null, unit: 'pcs', stock_type: 'serialized', min_available: null });
+  const [categoryChoice, setCategoryChoice] = useState('');
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the entry being edited every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setFormData({
+      name: material?.name ?? initialName,
+      category_id: material?.category_id ?? null,
+      unit: material?.unit ?? 'pcs',
+      manufacturer: material?.manufacturer ?? '',
+      model: material?.model ?? '',
+      stock_type: material?.stock_type ?? 'serialized',
+      min_available: material?.min_available ?? null,
+    });
+    setCategoryChoice(material?.category_id ?? '');
+    setNewCategoryName('');
+    setError(null);
+  }, [isOpen, material, initialName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !formData.name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      let categoryId = categoryChoice || null;
+      if (categoryChoice === NEW_CATEGORY) {
+        categoryId = newCategoryName.trim()
+          ? (await materialService.createCategory(newCategoryName)).id
+          : null;
+      }
+
+      const data = { ...formData, category_id: categoryId };
+      const saved = material
+        ? await materialService.updateMaterial(material.id, data)
+        : await materialService.createMaterial(data);
+
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save material');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">
+                {material ? 'Edit Material' : 'New Material'}
+              </h3>
+              {material && (
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+                  Renaming a material also renames every item linked to it.
+                </p>
+              )}
+
+              {error && (
+                <div className="my-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className={inputClassName}
+                    placeholder="e.g. KWH Meter 1 Phase"
+                    required
+                    disabled={saving}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Category</label>
+                  <select
+                    value={categoryChoice}
+                    onChange={(e) => setCategoryChoice(e.target.value)}
+                    className={inputClassName}
+                    disabled={saving}
+                  >
+                    <option value="">No category</option>
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                    <option value={NEW_CATEGORY}>+ New category...</option>
+                  </select>
+                  {categoryChoice === NEW_CATEGORY && (
+                    <input
+                      type="text"
+                      value={newCategoryName}
+                      onChange={(e) => setNewCategoryName(e.target.value)}
+                      className={`${inputClassName} mt-2`}
+                      placeholder="New category name"
+                      disabled={saving}
+                      autoFocus
+                    />
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Unit</label>
+                    <input
+                      type="text"
+                      value={formData.unit}
+                      onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                      className={inputClassName}
+                      placeholder="pcs"
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Manufacturer</label>
+                    <input
+                      type="text"
+                      value={formData.manufacturer ?? ''}
+                      onChange={(e) => setFormData({ ...formData, manufacturer: e.target.value })}
+                      className={inputClassName}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Minimum Available</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={formData.min_available ?? ''}
+                    onChange={(e) => setFormData({ ...formData, min_available: e.target.value ? Number(e.target.value) : null })}
+                    className={inputClassName}
+                    placeholder="No alert"
+                    disabled={saving}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">Managers are notified when fewer are available</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Stock Type</label>
+                  <select
+                    value={formData.stock_type}
+                    onChange={(e) => setFormData({ ...formData, stock_type: e.target.value as MaterialFormData['stock_type'] })}
+                    className={inputClassName}
+                    disabled={saving}
+                  >
+                    <option value="serialized">Serialized (one item per serial number)</option>
+                    <option value="consumable">Consumable (stocked by quantity)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Model</label>
+                  <input
+                    type="text"
+                    value={formData.model ?? ''}
+                    onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                    className={inputClassName}
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={saving}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={saving || !formData.name.trim()}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Saving...</span>
+                      </>
+                    ) : (
+                      <span>{material ? 'Save Changes' : 'Add Material'}</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
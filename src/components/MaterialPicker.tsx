@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChevronDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Material } from '../lib/supabase';
+
+interface MaterialPickerProps {
+  materials: Material[];
+  value: string | null; // selected material id
+  onChange: (material: Material | null) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+// Longer catalogs are narrowed down by typing
+const MAX_OPTIONS = 50;
+
+function getSearchText(material: Material): string {
+  return [material.name, material.category?.name, material.manufacturer, material.model]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+function describeMaterial(material: Material): string {
+  return [material.category?.name, material.manufacturer, material.model, material.unit]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Searchable dropdown of catalog materials. Every typed word must appear in
+ * the name, category, manufacturer or model.
+ */
+export function MaterialPicker({ materials, value, onChange, disabled = false, placeholder = 'Search the material catalog...' }: MaterialPickerProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const selected = materials.find(material => material.id === value) || null;
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = materials
+    .filter(material => {
+      const text = getSearchText(material);
+      return words.every(word => text.includes(word));
+    })
+    .slice(0, MAX_OPTIONS);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setQuery('');
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const select = (material: Material) => {
+    onChange(material);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted(prev => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      // Keep Enter from submitting the surrounding form while choosing
+      if (isOpen && matches[highlighted]) {
+        e.preventDefault();
+        select(matches[highlighted]);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <div className="relative">
+        <input
+          type="text"
+          value={isOpen ? query : selected?.name || ''}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={selected && isOpen ? selected.name : placeholder}
+          className="mt-1 w-full px-3 py-2 pr-16 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={disabled}
+          role="combobox"
+          aria-expanded={isOpen}
+          autoComplete="off"
+        />
+        <div className="absolute inset-y-0 right-0 mt-1 flex items-center pr-2 space-x-1">
+          {selected && !disabled && (
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="p-0.5 text-gray-400 hover:text-gray-600"
+              title="Clear"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          )}
+          <ChevronDownIcon className="h-4 w-4 text-gray-400 pointer-events-none" />
+        </div>
+      </div>
+
+      {selected && !isOpen && describeMaterial(selected) && (
+        <p className="text-xs text-gray-500 mt-1">{describeMaterial(selected)}</p>
+      )}
+
+      {isOpen && !disabled && (
+        <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg py-1" role="listbox">
+          {matches.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">No catalog material matches "{query}"</li>
+          ) : (
+            matches.map((material, index) => (
+              <li
+                key={material.id}
+                role="option"
+                aria-selected={material.id === value}
+                onMouseDown={(e) => {
+                  // Select before the input loses focus
+                  e.preventDefault();
+                  select(material);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`px-3 py-2 cursor-pointer ${index === highlighted ? 'bg-blue-50' : ''} ${material.id === value ? 'font-medium' : ''}`}
+              >
+                <div className="text-sm text-gray-900">{material.name}</div>
+                {describeMaterial(material) && (
+                  <div className="text-xs text-gray-500">{describeMaterial(material)}</div>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
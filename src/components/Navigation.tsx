@@ -10,8 +10,16 @@ import {
   UserCircleIcon,
   ChevronDownIcon,
   UsersIcon,
+  InboxStackIcon,
+  QrCodeIcon,
+  ClockIcon,
+  CubeIcon,
+  BuildingOfficeIcon,
+  ArchiveBoxIcon,
+  BanknotesIcon,
 } from '@heroicons/react/24/outline';
 import type { UserRole } from '../App';
+import { NotificationBell } from './NotificationBell';
 
 interface NavigationProps {
   userRole: UserRole;
@@ -70,25 +78,10 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
             />
           </div>
 
-          {/* Mobile menu button and profile for admin and manager */}
-          {(userRole === 'admin' || userRole === 'manager') && (
-            <div className="flex items-center md:hidden">
-              <button
-                onClick={() => setIsOpen(!isOpen)}
-                className="text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 z-50 relative p-2"
-              >
-                {isOpen ? (
-                  <XMarkIcon className="h-5 w-5 sm:h-6 sm:w-6" />
-                ) : (
-                  <Bars3Icon className="h-5 w-5 sm:h-6 sm:w-6" />
-                )}
-              </button>
-            </div>
-          )}
-
           {/* employee Profile - Mobile & Desktop */}
           {userRole === 'employee' && (
-            <div className="flex items-center">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <NotificationBell />
               <div className="relative" ref={dropdownRef}>
                 <button
                   onClick={handleProfileClick}
@@ -114,6 +107,38 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
                         </div>
                       </div>
                     </div>
+                    <Link
+                      to="/items"
+                      onClick={() => setShowProfileDropdown(false)}
+                      className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center space-x-2"
+                    >
+                      <ClipboardDocumentListIcon className="h-4 w-4" />
+                      <span>Item List</span>
+                    </Link>
+                    <Link
+                      to="/scan"
+                      onClick={() => setShowProfileDropdown(false)}
+                      className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center space-x-2"
+                    >
+                      <QrCodeIcon className="h-4 w-4" />
+                      <span>Scan Item</span>
+                    </Link>
+                    <Link
+                      to="/stock"
+                      onClick={() => setShowProfileDropdown(false)}
+                      className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center space-x-2"
+                    >
+                      <ArchiveBoxIcon className="h-4 w-4" />
+                      <span>Stock</span>
+                    </Link>
+                    <Link
+                      to="/my-requests"
+                      onClick={() => setShowProfileDropdown(false)}
+                      className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center space-x-2"
+                    >
+                      <InboxStackIcon className="h-4 w-4" />
+                      <span>My Requests</span>
+                    </Link>
                     <button
                       onClick={handleLogout}
                       className="w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center space-x-2"
@@ -140,13 +165,29 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
               
               {/* Admin-only navigation items */}
               {userRole === 'admin' && (
-                <Link
-                  to="/items/add"
-                  className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
-                >
-                  <PlusIcon className="h-5 w-5 lg:h-6 lg:w-6" />
-                  <span className="font-medium text-sm lg:text-base">Add Item</span>
-                </Link>
+                <>
+                  <Link
+                    to="/items/add"
+                    className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+                  >
+                    <PlusIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                    <span className="font-medium text-sm lg:text-base">Add Item</span>
+                  </Link>
+                  <Link
+                    to="/materials"
+                    className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+                  >
+                    <CubeIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                    <span className="font-medium text-sm lg:text-base">Materials</span>
+                  </Link>
+                  <Link
+                    to="/warehouses"
+                    className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+                  >
+                    <BuildingOfficeIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                    <span className="font-medium text-sm lg:text-base">Warehouses</span>
+                  </Link>
+                </>
               )}
 
               {/* Manager-only navigation items */}
@@ -167,13 +208,46 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
                 <ClipboardDocumentListIcon className="h-5 w-5 lg:h-6 lg:w-6" />
                 <span className="font-medium text-sm lg:text-base">Item List</span>
               </Link>
+
+              <Link
+                to="/scan"
+                className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+              >
+                <QrCodeIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                <span className="font-medium text-sm lg:text-base">Scan</span>
+              </Link>
+
+              <Link
+                to="/stock"
+                className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+              >
+                <ArchiveBoxIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                <span className="font-medium text-sm lg:text-base">Stock</span>
+              </Link>
+
+              <Link
+                to="/history"
+                className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+              >
+                <ClockIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                <span className="font-medium text-sm lg:text-base">Audit Log</span>
+              </Link>
+
+              <Link
+                to="/valuation"
+                className="flex items-center space-x-1 lg:space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 px-2 py-1 rounded-md"
+              >
+                <BanknotesIcon className="h-5 w-5 lg:h-6 lg:w-6" />
+                <span className="font-medium text-sm lg:text-base">Valuation</span>
+              </Link>
             </div>
           )}
 
-          {/* Desktop profile dropdown - Show for admin and manager */}
+          {/* Notifications, desktop profile dropdown and mobile menu button - Show for admin and manager */}
           {(userRole === 'admin' || userRole === 'manager') && (
-            <div className="hidden md:flex items-center">
-              <div className="relative" ref={dropdownRef}>
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <NotificationBell />
+              <div className="relative hidden md:block" ref={dropdownRef}>
                 <button
                   onClick={handleProfileClick}
                   className="flex items-center space-x-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 bg-white dark:bg-slate-800 rounded-lg px-3 py-2 border border-gray-200 dark:border-slate-600 shadow-sm hover:shadow-md"
@@ -208,6 +282,18 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
                   </div>
                 )}
               </div>
+
+              {/* Mobile menu button */}
+              <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="md:hidden text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 z-50 relative p-2"
+              >
+                {isOpen ? (
+                  <XMarkIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                ) : (
+                  <Bars3Icon className="h-5 w-5 sm:h-6 sm:w-6" />
+                )}
+              </button>
             </div>
           )}
         </div>
@@ -247,14 +333,32 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
               
               {/* Admin-only mobile navigation items */}
               {userRole === 'admin' && (
-                <Link
-                  to="/items/add"
-                  className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
-                  onClick={() => setIsOpen(false)}
-                >
-                  <PlusIcon className="h-5 w-5 sm:h-6 sm:w-6" />
-                  <span className="text-sm sm:text-base">Add Item</span>
-                </Link>
+                <>
+                  <Link
+                    to="/items/add"
+                    className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <PlusIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                    <span className="text-sm sm:text-base">Add Item</span>
+                  </Link>
+                  <Link
+                    to="/materials"
+                    className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <CubeIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                    <span className="text-sm sm:text-base">Materials</span>
+                  </Link>
+                  <Link
+                    to="/warehouses"
+                    className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <BuildingOfficeIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                    <span className="text-sm sm:text-base">Warehouses</span>
+                  </Link>
+                </>
               )}
 
               {/* Manager-only mobile navigation items */}
@@ -277,6 +381,42 @@ export default function Navigation({ userRole, onLogout }: NavigationProps) {
                 <ClipboardDocumentListIcon className="h-5 w-5 sm:h-6 sm:w-6" />
                 <span className="text-sm sm:text-base">Item List</span>
               </Link>
+
+              <Link
+                to="/scan"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                onClick={() => setIsOpen(false)}
+              >
+                <QrCodeIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-sm sm:text-base">Scan Item</span>
+              </Link>
+
+              <Link
+                to="/stock"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                onClick={() => setIsOpen(false)}
+              >
+                <ArchiveBoxIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-sm sm:text-base">Stock</span>
+              </Link>
+
+              <Link
+                to="/history"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                onClick={() => setIsOpen(false)}
+              >
+                <ClockIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-sm sm:text-base">Audit Log</span>
+              </Link>
+
+              <Link
+                to="/valuation"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors duration-300"
+                onClick={() => setIsOpen(false)}
+              >
+                <BanknotesIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-sm sm:text-base">Valuation</span>
+              </Link>
               
               {/* Mobile Logout Button */}
               <div className="border-t border-gray-200 dark:border-slate-700 pt-2 mt-2">
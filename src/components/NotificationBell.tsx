@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { notificationService } from '../services/notificationService';
+import type { Notification } from '../lib/supabase';
+
+// How often the unread badge is refreshed while the dropdown is closed
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  const loadUnreadCount = useCallback(async () => {
+    const userId = localStorage.getItem('userId');
+    if (!userId) return;
+
+    try {
+      setUnreadCount(await notificationService.getUnreadCount(userId));
+    } catch (error) {
+      console.error('Failed to load unread notifications:', error);
+    }
+  }, []);
+
+  const loadNotifications = async () => {
+    const userId = localStorage.getItem('userId');
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      setNotifications(await notificationService.getNotifications(userId));
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUnreadCount();
+    const interval = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadUnreadCount]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      loadNotifications();
+      loadUnreadCount();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleNotificationClick = async (notification: Notification) => {
+    setIsOpen(false);
+
+    if (!notification.read_at) {
+      try {
+        await notificationService.markAsRead(notification.id);
+        setUnreadCount(prev => Math.max(0, prev - 1));
+      } catch (error) {
+        console.error('Failed to mark notification as read:', error);
+      }
+    }
+
+    if (notification.item_id) {
+      navigate(`/items?item=${notification.item_id}`);
+    } else if (notification.type === 'low_stock') {
+      navigate('/');
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    const userId = localStorage.getItem('userId');
+    if (!userId) return;
+
+    try {
+      await notificationService.markAllAsRead(userId);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  const getTypeIcon = (type: Notification['type']) => {
+    switch (type) {
+      case 'request_submitted':
+        return '📋';
+      case 'request_approved':
+        return '✅';
+      case 'request_rejected':
+        return '❌';
+      case 'item_overdue':
+        return '⏰';
+      case 'low_stock':
+        return '📉';
+      default:
+        return '🔔';
+    }
+  };
+
+  const formatTimeAgo = (timestamp: string) => {
+    const now = new Date();
+    const time = new Date(timestamp);
+    const diffInMinutes = Math.floor((now.getTime() - time.getTime()) / (1000 * 60));
+
+    if (diffInMinutes < 1) return 'Just now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+    return `${Math.floor(diffInMinutes / 1440)}d ago`;
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={handleToggle}
+        className="relative p-1.5 sm:p-2 text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-200 transition-colors duration-300 bg-white dark:bg-slate-800 rounded-lg border border-gray-200 dark:border-slate-600 shadow-sm hover:shadow-md"
+        title="Notifications"
+      >
+        <BellIcon className="h-4 w-4 sm:h-5 sm:w-5 md:h-6 md:w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 sm:w-80 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-slate-600 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-slate-600">
+            <span className="text-sm font-semibold text-gray-900 dark:text-slate-100">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllAsRead}
+                className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">No notifications yet.</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`w-full text-left px-4 py-3 flex items-start space-x-3 border-b border-gray-100 dark:border-slate-700 last:border-b-0 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors ${
+                    notification.read_at ? '' : 'bg-blue-50/60 dark:bg-blue-900/10'
+                  }`}
+                >
+                  <span className="text-base flex-shrink-0">{getTypeIcon(notification.type)}</span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm truncate ${notification.read_at ? 'text-gray-700 dark:text-slate-300' : 'font-semibold text-gray-900 dark:text-slate-100'}`}>
+                        {notification.title}
+                      </span>
+                      <span className="text-xs text-gray-400 dark:text-slate-500 flex-shrink-0">
+                        {formatTimeAgo(notification.created_at)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-slate-400 mt-0.5 break-words">{notification.message}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+interface QrScannerProps {
+  active: boolean;
+  onScan: (code: string) => void;
+}
+
+// BarcodeDetector is not in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+async function createNativeDetector(): Promise<BarcodeDetectorInstance | null> {
+  const BarcodeDetector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!BarcodeDetector) return null;
+
+  try {
+    const formats = await BarcodeDetector.getSupportedFormats();
+    return formats.includes('qr_code') ? new BarcodeDetector({ formats: ['qr_code'] }) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Camera preview that reports QR codes it sees. Uses the browser's
+ * BarcodeDetector where available and falls back to decoding frames with jsQR.
+ */
+export function QrScanner({ active, onScan }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const decodeWithJsQr = (video: HTMLVideoElement): string | null => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!canvas || !context || video.videoWidth === 0) return null;
+
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      return jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })?.data || null;
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera access is not supported by this browser. Enter the code manually instead.');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
+        });
+      } catch {
+        setError('Could not access the camera. Check the browser permission or enter the code manually.');
+        return;
+      }
+
+      const video = videoRef.current;
+      if (stopped || !video) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      setError(null);
+      video.srcObject = stream;
+      await video.play().catch(() => undefined);
+
+      const detector = await createNativeDetector();
+
+      const scan = async () => {
+        if (stopped) return;
+
+        let code: string | null = null;
+        try {
+          if (detector) {
+            const barcodes = await detector.detect(video);
+            code = barcodes[0]?.rawValue || null;
+          } else {
+            code = decodeWithJsQr(video);
+          }
+        } catch (err) {
+          console.error('QR decoding failed:', err);
+        }
+
+        if (stopped) return;
+        if (code) {
+          onScanRef.current(code);
+        }
+        timer = setTimeout(scan, SCAN_INTERVAL_MS);
+      };
+
+      scan();
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [active]);
+
+  return (
+    <div className="relative w-full aspect-square sm:aspect-video bg-black rounded-lg overflow-hidden">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+
+      {/* Aiming frame */}
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="w-1/2 aspect-square border-4 border-white/80 rounded-xl shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"></div>
+      </div>
+
+      {!active && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+          <p className="text-white text-sm">Camera paused</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 p-4">
+          <p className="text-white text-sm text-center">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
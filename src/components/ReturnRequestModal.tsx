@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CameraIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CONDITION_OPTIONS } from '../lib/conditions';
+import { ATTACHMENT_ACCEPT, formatFileSize, getAttachmentError } from '../lib/attachments';
+import type { ItemCondition } from '../lib/supabase';
+
+interface ReturnRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (condition: ItemCondition, notes: string, photos: File[]) => void;
+  isLoading?: boolean;
+  itemName?: string;
+}
+
+export function ReturnRequestModal({ isOpen, onClose, onConfirm, isLoading = false, itemName }: ReturnRequestModalProps) {
+  const [condition, setCondition] = useState<ItemCondition>('good');
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
+  // Start every report from scratch
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCondition('good');
+    setNotes('');
+    setPhotos([]);
+    setPhotoError(null);
+  }, [isOpen]);
+
+  // Anything short of good needs a word on what is wrong
+  const notesRequired = condition !== 'good';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isLoading && (!notesRequired || notes.trim())) {
+      onConfirm(condition, notes.trim(), photos);
+    }
+  };
+
+  const handlePhotosSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const problem = files.map(getAttachmentError).find(Boolean);
+    setPhotoError(problem || null);
+    if (!problem) {
+      setPhotos(prev => [...prev, ...files]);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Request to Return</h3>
+              {itemName && (
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">{itemName}</p>
+              )}
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Condition
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {CONDITION_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setCondition(option.value)}
+                        disabled={isLoading}
+                        className={`px-3 py-2 rounded-md border text-sm transition-colors ${
+                          condition === option.value
+                            ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                            : 'border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Notes {notesRequired && <span className="text-red-500">*</span>}
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400"
+                    placeholder={notesRequired ? 'What is wrong with the item?' : 'Optional'}
+                    required={notesRequired}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="mb-4">
+                  <label className="inline-flex items-center space-x-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 cursor-pointer">
+                    <CameraIcon className="h-5 w-5" />
+                    <span>Add photos or documents</span>
+                    <input
+                      type="file"
+                      accept={ATTACHMENT_ACCEPT}
+                      multiple
+                      onChange={handlePhotosSelected}
+                      className="hidden"
+                      disabled={isLoading}
+                    />
+                  </label>
+                  {photoError && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-1">{photoError}</p>
+                  )}
+                  {photos.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {photos.map((photo, index) => (
+                        <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-sm text-gray-700 dark:text-slate-300">
+                          <span className="truncate">{photo.name} <span className="text-gray-400 dark:text-slate-500">({formatFileSize(photo.size)})</span></span>
+                          <button
+                            type="button"
+                            onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                            disabled={isLoading}
+                            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            aria-label={`Remove ${photo.name}`}
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isLoading}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={isLoading || (notesRequired && !notes.trim())}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {isLoading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Submitting...</span>
+                      </>
+                    ) : (
+                      <span>Submit Request</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { maintenanceService } from '../services/maintenanceService';
+import { toLocalDateString } from '../lib/dates';
+import type { Item, MaintenancePlan } from '../lib/supabase';
+
+interface ServiceRecordModalProps {
+  isOpen: boolean;
+  item: Item | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+export function ServiceRecordModal({ isOpen, item, onClose, onSaved }: ServiceRecordModalProps) {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [planId, setPlanId] = useState('');
+  const [serviceDate, setServiceDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = toLocalDateString(new Date());
+
+  useEffect(() => {
+    if (!isOpen || !item) return;
+
+    setPlanId('');
+    setServiceDate(today);
+    setNotes('');
+    setError(null);
+
+    maintenanceService.getPlansForItem(item)
+      .then(setPlans)
+      .catch(() => setPlans([])); // The service can still be recorded without a plan
+  }, [isOpen, item, today]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !item) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await maintenanceService.recordService({
+        item_id: item.id,
+        plan_id: planId || null,
+        service_date: serviceDate,
+        performed_by: userId,
+        notes,
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record service');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && item && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Record Service</h3>
+              <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">
+                {item.material} ({item.serial_number})
+                {item.status === 'maintenance' && ' - the item becomes available again'}
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Plan</label>
+                  <select
+                    value={planId}
+                    onChange={(e) => setPlanId(e.target.value)}
+                    className={inputClassName}
+                    disabled={saving}
+                  >
+                    <option value="">Repair / unplanned service</option>
+                    {plans.map(plan => (
+                      <option key={plan.id} value={plan.id}>
+                        {plan.name} (every {plan.interval_days} days)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Service date <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={serviceDate}
+                    max={today}
+                    onChange={(e) => setServiceDate(e.target.value)}
+                    className={inputClassName}
+                    required
+                    disabled={saving}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    className={inputClassName}
+                    placeholder="e.g. Certificate no., parts replaced"
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={saving}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={saving || !serviceDate || serviceDate > today}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Saving...</span>
+                      </>
+                    ) : (
+                      <span>Record Service</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
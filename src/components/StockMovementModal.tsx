@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { stockService } from '../services/stockService';
+import { formatItemPlace } from '../lib/locations';
+import type { StockLevel, StockRequest } from '../lib/supabase';
+
+// Employees request an issue or a receipt, admins adjust balances directly
+export type StockMovementMode = StockRequest['type'] | 'adjust';
+
+interface StockMovementModalProps {
+  isOpen: boolean;
+  mode: StockMovementMode;
+  stockLevel: StockLevel | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+const TITLES: Record<StockMovementMode, string> = {
+  issue: 'Request Stock Issue',
+  receive: 'Request Stock Receipt',
+  adjust: 'Adjust Stock',
+};
+
+export function StockMovementModal({ isOpen, mode, stockLevel, onClose, onSaved }: StockMovementModalProps) {
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuantity('');
+    setNote('');
+    setError(null);
+  }, [isOpen]);
+
+  const unit = stockLevel?.material?.unit || 'pcs';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !stockLevel) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const amount = Number(quantity);
+      if (mode === 'adjust') {
+        const movement = await stockService.adjustStock(stockLevel.id, amount, userId, note);
+        onSaved(`Stock adjusted, ${movement.balance_after} ${unit} on hand`);
+      } else {
+        await stockService.createRequest({
+          stock_level_id: stockLevel.id,
+          requested_by: userId,
+          type: mode,
+          quantity: amount,
+        });
+        onSaved(`${mode === 'issue' ? 'Issue' : 'Receipt'} of ${amount} ${unit} requested, waiting for approval`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && stockLevel && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">{TITLES[mode]}</h3>
+              <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">
+                {stockLevel.material?.name} at {formatItemPlace(stockLevel)}: {stockLevel.quantity} {unit} on hand
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    {mode === 'adjust' ? `Change (${unit}, negative to remove)` : `Quantity (${unit})`} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    step={1}
+                    min={mode === 'adjust' ? undefined : 1}
+                    max={mode === 'issue' ? stockLevel.quantity : undefined}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className={inputClassName}
+                    required
+                    disabled={saving}
+                    autoFocus
+                  />
+                </div>
+
+                {mode === 'adjust' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                      Note <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      className={inputClassName}
+                      placeholder="e.g. Stock count 2026-10"
+                      required
+                      disabled={saving}
+                    />
+                  </div>
+                )}
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={saving}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={saving || !quantity}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Saving...</span>
+                      </>
+                    ) : (
+                      <span>{mode === 'adjust' ? 'Adjust' : 'Submit Request'}</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { warehouseService } from '../services/warehouseService';
+import { formatItemPlace, formatLocation } from '../lib/locations';
+import type { Item, Location, Warehouse } from '../lib/supabase';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  items: Item[];
+  onClose: () => void;
+  onTransferred: (transferredCount: number) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400';
+
+export function TransferModal({ isOpen, items, onClose, onTransferred }: TransferModalProps) {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [transferring, setTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the places every time the modal opens, they change rarely but may have been edited meanwhile
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setWarehouseId('');
+    setLocationId('');
+    setNote('');
+    setError(null);
+    setLoading(true);
+
+    Promise.all([warehouseService.getWarehouses(), warehouseService.getLocations()])
+      .then(([warehouseList, locationList]) => {
+        setWarehouses(warehouseList);
+        setLocations(locationList);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load warehouses'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  const warehouseLocations = locations.filter(location => location.warehouse_id === warehouseId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (transferring || !warehouseId) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setTransferring(true);
+    setError(null);
+
+    try {
+      const transferredCount = await warehouseService.transferItems(
+        items.map(item => item.id),
+        warehouseId,
+        locationId || null,
+        userId,
+        note.trim()
+      );
+      onTransferred(transferredCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer items');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!transferring) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md relative"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">
+                Transfer {items.length === 1 ? 'Item' : `${items.length} Items`}
+              </h3>
+              {items.length === 1 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-4 break-words">
+                  {items[0].material} ({items[0].serial_number}) is currently at {formatItemPlace(items[0]) || 'no warehouse'}.
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+                  Items already at the destination are left as they are.
+                </p>
+              )}
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    Warehouse <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={warehouseId}
+                    onChange={(e) => {
+                      setWarehouseId(e.target.value);
+                      setLocationId('');
+                    }}
+                    className={inputClassName}
+                    required
+                    disabled={loading || transferring}
+                  >
+                    <option value="">{loading ? 'Loading...' : 'Select a warehouse'}</option>
+                    {warehouses.map(warehouse => (
+                      <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Location</label>
+                  <select
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    className={inputClassName}
+                    disabled={!warehouseId || transferring}
+                  >
+                    <option value="">No specific location</option>
+                    {warehouseLocations.map(location => (
+                      <option key={location.id} value={location.id}>{formatLocation(location)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Note</label>
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Optional, e.g. rebalancing stock"
+                    disabled={transferring}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={transferring}
+                    className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={transferring || !warehouseId}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    {transferring ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Transferring...</span>
+                      </>
+                    ) : (
+                      <span>Transfer</span>
+                    )}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
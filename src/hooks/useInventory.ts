@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { inventoryStore } from '../services/inventoryStore';
+
+/**
+ * Live items and pending requests, kept in sync with the database while the
+ * calling component is mounted. Pass withItems: false when only pending
+ * requests (and the revision counter) are needed.
+ */
+export function useInventory({ withItems = true }: { withItems?: boolean } = {}) {
+  const snapshot = useSyncExternalStore(inventoryStore.subscribe, inventoryStore.getSnapshot);
+
+  useEffect(() => inventoryStore.retain({ withItems }), [withItems]);
+
+  return {
+    ...snapshot,
+    refresh: () => inventoryStore.refresh(),
+  };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { itemService } from '../services/itemService';
+import type { ItemPage, ItemQuery } from '../services/itemService';
+
+/**
+ * One page of items fetched from the database. Refetches when the query or
+ * page changes, and whenever `revision` changes (pass the inventory store's
+ * revision to follow realtime updates).
+ */
+export function useItemPage(query: ItemQuery, pageIndex: number, pageSize: number, revision: number) {
+  const [page, setPage] = useState<ItemPage>({ items: [], total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFetching(true);
+
+    itemService.getItemPage(query, pageIndex, pageSize)
+      .then(result => {
+        if (cancelled) return;
+        setPage(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load items');
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLoading(false);
+        setFetching(false);
+      });
+
+    // A newer query has started meanwhile, its result wins
+    return () => {
+      cancelled = true;
+    };
+  }, [query, pageIndex, pageSize, revision]);
+
+  return { ...page, loading, fetching, error };
+}
@@ -0,0 +1,98 @@
+// File types the item-attachments bucket accepts
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Longest side in pixels of stored photos and of their thumbnails
+const IMAGE_MAX_DIMENSION = 1600;
+const THUMBNAIL_MAX_DIMENSION = 320;
+
+export interface PreparedAttachment {
+  fileName: string;
+  contentType: string;
+  file: Blob;
+  thumbnail: Blob | null; // Images only
+}
+
+export function isImageType(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Why a file cannot be attached, or null when it can. Images are checked
+ * before downscaling, since downscaling brings most photos under the limit.
+ */
+export function getAttachmentError(file: File): string | null {
+  if (!ATTACHMENT_ACCEPT.split(',').includes(file.type)) {
+    return `${file.name}: only JPEG, PNG, WebP and PDF files can be attached`;
+  }
+  if (!isImageType(file.type) && file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: documents cannot be larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
+
+/**
+ * Redraw an image so its longest side is at most maxDimension, as JPEG.
+ * Transparent areas become white.
+ */
+async function downscaleImage(image: ImageBitmap, maxDimension: number): Promise<Blob> {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Images cannot be processed in this browser');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to process image'))),
+      'image/jpeg',
+      0.85
+    );
+  });
+}
+
+/**
+ * Downscale photos and make their thumbnails; documents pass through as they are
+ */
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  const problem = getAttachmentError(file);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  if (!isImageType(file.type)) {
+    return { fileName: file.name, contentType: file.type, file, thumbnail: null };
+  }
+
+  const image = await createImageBitmap(file);
+  try {
+    const [resized, thumbnail] = await Promise.all([
+      downscaleImage(image, IMAGE_MAX_DIMENSION),
+      downscaleImage(image, THUMBNAIL_MAX_DIMENSION)
+    ]);
+
+    if (resized.size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`${file.name}: the photo is still larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)} after downscaling`);
+    }
+
+    // Stored as JPEG, so the name says so
+    const fileName = file.name.replace(/\.[^.]*$/, '') + '.jpg';
+    return { fileName, contentType: 'image/jpeg', file: resized, thumbnail };
+  } finally {
+    image.close();
+  }
+}
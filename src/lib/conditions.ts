@@ -0,0 +1,28 @@
+import type { ItemCondition } from './supabase';
+
+export const CONDITION_OPTIONS: { value: ItemCondition; label: string }[] = [
+  { value: 'good', label: 'Good' },
+  { value: 'worn', label: 'Worn' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'missing_parts', label: 'Missing parts' },
+];
+
+export function formatCondition(condition: ItemCondition): string {
+  return CONDITION_OPTIONS.find(option => option.value === condition)?.label ?? condition;
+}
+
+// Conditions an approver should think about sending to maintenance
+export function needsService(condition: ItemCondition | null): boolean {
+  return condition === 'damaged' || condition === 'missing_parts';
+}
+
+export function getConditionColor(condition: ItemCondition): string {
+  switch (condition) {
+    case 'good':
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+    case 'worn':
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+    default:
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+  }
+}
@@ -0,0 +1,54 @@
+import { formatDueDate } from './dates';
+import type { CategoryField, CustomFieldType, CustomFieldValues, Material } from './supabase';
+
+export const CUSTOM_FIELD_TYPE_OPTIONS: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'Choice' },
+];
+
+// Values as the item forms hold them; cleared inputs are null
+export type CustomFieldFormValues = Record<string, string | number | null>;
+
+export function formatCustomFieldType(type: CustomFieldType): string {
+  return CUSTOM_FIELD_TYPE_OPTIONS.find(option => option.value === type)?.label ?? type;
+}
+
+/**
+ * The fields items of this catalog material carry
+ */
+export function getFieldsForMaterial(fields: CategoryField[], material: Material | null | undefined): CategoryField[] {
+  const categoryId = material?.category_id;
+  return categoryId ? fields.filter(field => field.category_id === categoryId) : [];
+}
+
+export function formatCustomFieldValue(field: CategoryField, value: string | number): string {
+  return field.field_type === 'date' && typeof value === 'string' ? formatDueDate(value) : String(value);
+}
+
+/**
+ * Only the filled-in values of the given fields, as they are stored
+ */
+export function cleanCustomFieldValues(fields: CategoryField[], values: CustomFieldFormValues | undefined): CustomFieldValues {
+  const clean: CustomFieldValues = {};
+  fields.forEach(field => {
+    const value = values?.[field.id];
+    if (value !== null && value !== undefined && value !== '') {
+      clean[field.id] = value;
+    }
+  });
+  return clean;
+}
+
+/**
+ * "Phase: 3; Accuracy class: 0.5" for the fields an item has values for
+ */
+export function formatCustomFields(fields: CategoryField[], values: CustomFieldValues | undefined): string {
+  return fields
+    .flatMap(field => {
+      const value = values?.[field.id];
+      return value === undefined ? [] : [`${field.label}: ${formatCustomFieldValue(field, value)}`];
+    })
+    .join('; ');
+}
@@ -0,0 +1,47 @@
+import type { Item } from './supabase';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Format a date as YYYY-MM-DD in the user's timezone (the format of <input type="date">)
+export function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Number of whole days a borrowed item is past its due date, or 0 when it is
+ * not borrowed, has no due date or is not yet due
+ */
+export function getDaysOverdue(item: Pick<Item, 'status' | 'due_date'>, asOf: Date = new Date()): number {
+  if (item.status !== 'used' || !item.due_date) return 0;
+
+  const due = new Date(`${item.due_date}T00:00:00`);
+  const today = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+
+  // Round to absorb daylight saving shifts
+  return Math.max(0, Math.round((today.getTime() - due.getTime()) / DAY_IN_MS));
+}
+
+export function formatDueDate(dueDate: string): string {
+  return new Date(`${dueDate}T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+}
+
+// Whole days from today until a YYYY-MM-DD date, negative once it has passed
+export function getDaysUntil(date: string, asOf: Date = new Date()): number {
+  const target = new Date(`${date}T00:00:00`);
+  const today = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+
+  return Math.round((target.getTime() - today.getTime()) / DAY_IN_MS);
+}
+
+// "Overdue 3d", "Due today" or "Due in 12d" for a getDaysUntil result
+export function formatDaysUntil(days: number): string {
+  if (days < 0) return `Overdue ${-days}d`;
+  if (days === 0) return 'Due today';
+  return `Due in ${days}d`;
+}
@@ -0,0 +1,148 @@
+import Papa from 'papaparse';
+import { getDaysOverdue, formatDueDate } from './dates';
+import { formatItemPlace } from './locations';
+import { formatCondition } from './conditions';
+import { formatDepreciationMethod, formatMoney } from './valuation';
+import { formatCustomFields } from './customFields';
+import type { CategoryField, Item, History } from './supabase';
+import type { ItemValuation } from '../services/itemService';
+
+export const REPORT_COMPANY_NAME = 'PLN Icon Plus';
+export const REPORT_SYSTEM_NAME = 'Warehouse Management System';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface ExportTable {
+  title: string;
+  subtitle?: string; // e.g. the filter the rows were exported with
+  columns: string[];
+  rows: string[][];
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+export function buildItemsExport(items: Item[], subtitle?: string, fields: CategoryField[] = []): ExportTable {
+  return {
+    title: 'Inventory Report',
+    subtitle,
+    columns: [
+      'Material', 'Description', 'Serial Number', 'Status', 'Location', 'Borrowed By', 'Due Date', 'Days Overdue', 'Last Updated',
+      ...(fields.length > 0 ? ['Custom Fields'] : [])
+    ],
+    rows: items.map(item => {
+      const daysOverdue = getDaysOverdue(item);
+      return [
+        item.material,
+        item.description || '',
+        item.serial_number,
+        formatStatus(item.status),
+        formatItemPlace(item) || '',
+        item.status === 'used' ? item.last_used_by_user?.username || '' : '',
+        item.status === 'used' && item.due_date ? formatDueDate(item.due_date) : '',
+        daysOverdue > 0 ? String(daysOverdue) : '',
+        formatTimestamp(item.updated_at),
+        ...(fields.length > 0 ? [formatCustomFields(fields, item.custom_fields)] : [])
+      ];
+    })
+  };
+}
+
+/**
+ * History rows for one item (title names the item) or for all items, in
+ * which case every row carries its item's material and serial number
+ */
+export function buildHistoryExport(entries: History[], title: string, subtitle?: string, includeItem: boolean = false): ExportTable {
+  return {
+    title,
+    subtitle,
+    columns: [
+      'Date',
+      ...(includeItem ? ['Material', 'Serial Number'] : []),
+      'Action',
+      'Status Change',
+      'Performed By',
+      'Details',
+      'Reason',
+      'Condition'
+    ],
+    rows: entries.map(entry => [
+      formatTimestamp(entry.timestamp),
+      ...(includeItem ? [entry.item?.material || entry.stock_level?.material?.name || '', entry.item?.serial_number || ''] : []),
+      formatStatus(entry.action),
+      entry.previous_status && entry.new_status ? `${entry.previous_status} → ${entry.new_status}` : '',
+      entry.performed_by_user?.username || '',
+      entry.details || '',
+      entry.reason || '',
+      entry.condition ? [formatCondition(entry.condition), entry.condition_notes].filter(Boolean).join(': ') : ''
+    ])
+  };
+}
+
+export function buildValuationExport(rows: ItemValuation[], asOf: string): ExportTable {
+  return {
+    title: 'Asset Valuation Report',
+    subtitle: `Book value as of ${formatDueDate(asOf)}`,
+    columns: ['Category', 'Material', 'Serial Number', 'Supplier', 'Purchase Date', 'Warranty Expiry', 'Depreciation', 'Purchase Cost', 'Book Value'],
+    rows: rows.map(row => [
+      row.category || 'Uncategorized',
+      row.material,
+      row.serial_number,
+      row.supplier || '',
+      row.purchase_date ? formatDueDate(row.purchase_date) : '',
+      row.warranty_expiry ? formatDueDate(row.warranty_expiry) : '',
+      formatDepreciationMethod(row.depreciation_method),
+      formatMoney(row.purchase_cost),
+      formatMoney(row.book_value)
+    ])
+  };
+}
+
+export async function toXlsxBlob(table: ExportTable): Promise<Blob> {
+  // exceljs is large, so it is only loaded when a spreadsheet is exported
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  workbook.creator = REPORT_COMPANY_NAME;
+
+  const worksheet = workbook.addWorksheet(table.title.slice(0, 31)); // Excel's sheet name limit
+  worksheet.addRow(table.columns).font = { bold: true };
+  worksheet.addRows(table.rows);
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  worksheet.columns.forEach((column, index) => {
+    const longest = Math.max(
+      table.columns[index].length,
+      ...table.rows.map(row => (row[index] || '').length)
+    );
+    column.width = Math.min(50, longest + 2);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+export function toCsvBlob(table: ExportTable): Blob {
+  // Leading BOM so Excel opens the file as UTF-8. Typed-in text such as
+  // details and notes must not turn into live formulas when it is opened.
+  const csv = '\uFEFF' + Papa.unparse({ fields: table.columns, data: table.rows }, { escapeFormulae: true });
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+}
@@ -0,0 +1,10 @@
+// react-hook-form setValueAs helpers: cleared inputs are stored as NULL
+// rather than '' or 0
+
+export function toOptionalText(value: string | null): string | null {
+  return value?.trim() || null;
+}
+
+export function toOptionalNumber(value: string | number | null): number | null {
+  return value === '' || value === null ? null : Number(value);
+}
@@ -0,0 +1,155 @@
+import Papa from 'papaparse';
+import type { ItemFormData } from '../services/itemService';
+import type { Material } from './supabase';
+
+// Imported materials are matched to the catalog by name in the database
+export type ImportField = Extract<keyof ItemFormData, 'material' | 'serial_number' | 'description'>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'material', label: 'Material', required: true },
+  { field: 'serial_number', label: 'Serial Number', required: true },
+  { field: 'description', label: 'Description', required: false },
+];
+
+// Column index per field, or null when the field is not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  rowNumber: number; // as shown in the spreadsheet, header is row 1
+  data: ItemFormData;
+  issues: string[]; // The row is skipped
+  warnings: string[]; // The row is imported anyway
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  material: ['material', 'material name', 'item', 'item name', 'name'],
+  serial_number: ['serial number', 'serial_number', 'serial', 'serial no', 'sn', 's/n'],
+  description: ['description', 'desc', 'notes', 'remarks'],
+};
+
+async function readCsv(file: File): Promise<string[][]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => resolve(results.data),
+      error: (error) => reject(new Error(`Failed to read CSV: ${error.message}`)),
+    });
+  });
+}
+
+async function readXlsx(file: File): Promise<string[][]> {
+  // exceljs is large, so it is only loaded when a spreadsheet is imported
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cell.text;
+    });
+    rows.push(Array.from(values, value => value ?? ''));
+  });
+  return rows;
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file. The first row is the header.
+ */
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const name = file.name.toLowerCase();
+  let rows: string[][];
+
+  if (name.endsWith('.csv')) {
+    rows = await readCsv(file);
+  } else if (name.endsWith('.xlsx')) {
+    rows = await readXlsx(file);
+  } else {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file.');
+  }
+
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const [headers, ...body] = rows;
+  return {
+    headers: headers.map(header => header.trim()),
+    rows: body.filter(row => row.some(value => value.trim() !== '')),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const findColumn = (field: ImportField) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    material: findColumn('material'),
+    serial_number: findColumn('serial_number'),
+    description: findColumn('description'),
+  };
+}
+
+/**
+ * Lower-cased catalog names, matched the way the database links imported items
+ */
+export function toCatalogNames(materials: Material[]): Set<string> {
+  return new Set(materials.map(material => material.name.trim().toLowerCase()));
+}
+
+/**
+ * Turn sheet rows into items and flag the rows that cannot be imported, and
+ * those whose material is not in the catalog and will be imported unlinked
+ */
+export function buildImportRows(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existingSerialNumbers: Set<string>,
+  catalogNames: Set<string> | null // null skips the catalog check
+): ImportRow[] {
+  const valueAt = (row: string[], column: number | null) =>
+    column === null ? '' : (row[column] ?? '').trim();
+
+  const serialCounts = new Map<string, number>();
+  sheet.rows.forEach(row => {
+    const serial = valueAt(row, mapping.serial_number);
+    if (serial) serialCounts.set(serial, (serialCounts.get(serial) || 0) + 1);
+  });
+
+  return sheet.rows.map((row, index) => {
+    const data: ItemFormData = {
+      material: valueAt(row, mapping.material),
+      serial_number: valueAt(row, mapping.serial_number),
+      description: valueAt(row, mapping.description) || undefined,
+    };
+
+    const issues: string[] = [];
+    const warnings: string[] = [];
+    if (!data.material) {
+      issues.push('Missing material');
+    } else if (catalogNames && !catalogNames.has(data.material.toLowerCase())) {
+      warnings.push('Material not in catalog');
+    }
+    if (!data.serial_number) {
+      issues.push('Missing serial number');
+    } else if (existingSerialNumbers.has(data.serial_number)) {
+      issues.push('Serial number already exists');
+    } else if ((serialCounts.get(data.serial_number) || 0) > 1) {
+      issues.push('Serial number repeated in file');
+    }
+
+    return { rowNumber: index + 2, data, issues, warnings };
+  });
+}
@@ -0,0 +1,29 @@
+// Link encoded in asset labels; opening it shows the item's details
+export function getItemLink(itemId: string): string {
+  return `${window.location.origin}/items?item=${itemId}`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read a scanned or typed code: an item link from a label, a bare item id,
+ * or otherwise a serial number
+ */
+export function parseItemCode(code: string): { itemId: string } | { serialNumber: string } {
+  const value = code.trim();
+
+  try {
+    const itemId = new URL(value).searchParams.get('item');
+    if (itemId && UUID_PATTERN.test(itemId)) {
+      return { itemId };
+    }
+  } catch {
+    // Not a URL
+  }
+
+  if (UUID_PATTERN.test(value)) {
+    return { itemId: value };
+  }
+
+  return { serialNumber: value };
+}
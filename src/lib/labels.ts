@@ -0,0 +1,115 @@
+import QRCode from 'qrcode';
+import { getItemLink } from './itemLinks';
+import type { Item } from './supabase';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+export function mmToPt(mm: number): number {
+  return mm * POINTS_PER_MM;
+}
+
+export type LabelLayoutId = 'a4_3x8' | 'a4_2x7' | 'thermal_50x25' | 'thermal_60x40';
+
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  // Page size in mm; thermal rolls print one label per page
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'a4_3x8',
+    name: 'A4 sheet, 3 × 8 labels (70 × 37 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+    marginTop: 0.5,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: 'a4_2x7',
+    name: 'A4 sheet, 2 × 7 labels (99.1 × 38.1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'thermal_50x25',
+    name: 'Thermal roll, 50 × 25 mm',
+    pageWidth: 50,
+    pageHeight: 25,
+    columns: 1,
+    rows: 1,
+    labelWidth: 50,
+    labelHeight: 25,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: 'thermal_60x40',
+    name: 'Thermal roll, 60 × 40 mm',
+    pageWidth: 60,
+    pageHeight: 40,
+    columns: 1,
+    rows: 1,
+    labelWidth: 60,
+    labelHeight: 40,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+];
+
+// Printed on labels of items that are not in a warehouse
+export const DEFAULT_WAREHOUSE_NAME = 'PLN Icon Plus Warehouse';
+
+export interface AssetLabel {
+  itemId: string;
+  material: string;
+  serialNumber: string;
+  warehouseName: string;
+  qrCode: string; // PNG data URL
+}
+
+/**
+ * One label per item, naming the item's own warehouse or, for items without
+ * one, the fallback name
+ */
+export async function buildAssetLabels(items: Item[], fallbackWarehouseName: string): Promise<AssetLabel[]> {
+  return Promise.all(items.map(async (item) => ({
+    itemId: item.id,
+    material: item.material,
+    serialNumber: item.serial_number,
+    warehouseName: item.warehouse?.name ?? fallbackWarehouseName,
+    qrCode: await QRCode.toDataURL(getItemLink(item.id), {
+      errorCorrectionLevel: 'M',
+      margin: 0,
+      width: 256,
+    }),
+  })));
+}
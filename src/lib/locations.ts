@@ -0,0 +1,15 @@
+import type { Item, Location } from './supabase';
+
+// Zone, rack and bin joined the way they are painted on the shelves, e.g. "A-3-12"
+export function formatLocation(location: Pick<Location, 'zone' | 'rack' | 'bin'>): string {
+  return [location.zone, location.rack, location.bin].filter(Boolean).join('-');
+}
+
+/**
+ * Where an item or a stock level is stored, e.g. "Main Warehouse / A-3-12", or
+ * null when it has no warehouse. Needs the warehouse and location joins.
+ */
+export function formatItemPlace(item: Pick<Item, 'warehouse' | 'location'>): string | null {
+  if (!item.warehouse) return null;
+  return item.location ? `${item.warehouse.name} / ${formatLocation(item.location)}` : item.warehouse.name;
+}
@@ -0,0 +1,78 @@
+import type { Material } from './supabase';
+import type { UnlinkedMaterial } from '../services/materialService';
+
+// Share of words two names must have in common to be treated as the same material
+const SIMILARITY_THRESHOLD = 0.6;
+
+export interface MaterialCluster {
+  variants: UnlinkedMaterial[]; // most items first
+  itemCount: number;
+  suggestedName: string;
+  matchedMaterial: Material | null; // catalog entry that looks like the same material
+}
+
+/**
+ * Words of a material name, ignoring case, punctuation and word order, so
+ * "KWH Meter", "kwh-meter" and "Meter KWH" all give { kwh, meter }
+ */
+export function getMaterialTokens(name: string): Set<string> {
+  return new Set(
+    name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  );
+}
+
+// Jaccard similarity: shared words divided by all distinct words
+function getSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group free-text material names that probably mean the same thing, e.g.
+ * "KWH Meter", "kwh meter 1ph" and "Meter KWH". Each group is compared with
+ * the catalog to suggest an existing entry.
+ */
+export function clusterMaterials(unlinked: UnlinkedMaterial[], catalog: Material[]): MaterialCluster[] {
+  const clusters: { tokens: Set<string>; variants: UnlinkedMaterial[] }[] = [];
+
+  // The most used spelling of a material seeds its cluster
+  [...unlinked]
+    .sort((a, b) => b.item_count - a.item_count)
+    .forEach(entry => {
+      const tokens = getMaterialTokens(entry.material);
+      const cluster = clusters.find(candidate => getSimilarity(candidate.tokens, tokens) >= SIMILARITY_THRESHOLD);
+      if (cluster) {
+        cluster.variants.push(entry);
+      } else {
+        clusters.push({ tokens, variants: [entry] });
+      }
+    });
+
+  const catalogTokens = catalog.map(material => ({ material, tokens: getMaterialTokens(material.name) }));
+
+  return clusters
+    .map(cluster => {
+      let matchedMaterial: Material | null = null;
+      let bestSimilarity = SIMILARITY_THRESHOLD;
+      for (const { material, tokens } of catalogTokens) {
+        const similarity = getSimilarity(cluster.tokens, tokens);
+        if (similarity >= bestSimilarity) {
+          matchedMaterial = material;
+          bestSimilarity = similarity;
+        }
+      }
+
+      return {
+        variants: cluster.variants,
+        itemCount: cluster.variants.reduce((sum, variant) => sum + variant.item_count, 0),
+        suggestedName: cluster.variants[0].material.trim(),
+        matchedMaterial,
+      };
+    })
+    .sort((a, b) => b.itemCount - a.itemCount);
+}
@@ -7,13 +7,29 @@ if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+export const SESSION_TOKEN_KEY = 'sessionToken';
+
+// Every request carries the session token issued at login; the database
+// resolves the caller from it (see current_app_user_id) instead of trusting
+// ids sent by the client.
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  global: {
+    fetch: (input, init) => {
+      const headers = new Headers(init?.headers);
+      const token = localStorage.getItem(SESSION_TOKEN_KEY);
+      if (token) {
+        headers.set('x-session-token', token);
+      }
+      return fetch(input, { ...init, headers });
+    },
+  },
+});
 
 // Database types
 export interface User {
   id: string;
   username: string;
-  password: string;
+  password: string; // bcrypt hash, never selected by the client
   role: 'admin' | 'manager' | 'employee';
   status: 'active' | 'deactive';
 }
@@ -24,14 +40,24 @@ export interface UserPublicData {
   username: string;
   role: 'admin' | 'manager' | 'employee';
   status: 'active' | 'deactive';
+  warehouse_id?: string | null; // Managers with a warehouse only see its items
 }
 
+// Condition a borrower reports when returning an item
+export type ItemCondition = 'good' | 'worn' | 'damaged' | 'missing_parts';
+
+// How an item's purchase cost is written down over its useful life
+export type DepreciationMethod = 'none' | 'straight_line' | 'declining_balance';
+
+// Values of the custom fields of an item's category, keyed by field id
+export type CustomFieldValues = Record<string, string | number>;
+
 export interface Item {
   id: string;
   material: string;
   description: string | null;
   serial_number: string;
-  status: 'available' | 'used' | 'pending_borrow' | 'pending_return' | 'archived';
+  status: 'available' | 'used' | 'pending_borrow' | 'pending_return' | 'archived' | 'maintenance';
   last_used_by: string | null;
   changed_by: string | null;
   archived_reason: string | null;
@@ -39,10 +65,110 @@ export interface Item {
   created_at: string;
   updated_at: string;
   pending_request_id: string | null;
+  due_date: string | null; // YYYY-MM-DD, set while the item is borrowed
+  material_id: string | null; // Catalog entry; material mirrors its name
+  warehouse_id: string | null;
+  location_id: string | null; // Set by a location, the warehouse follows it
+  purchase_date: string | null; // YYYY-MM-DD
+  supplier: string | null;
+  purchase_cost: number | null;
+  warranty_expiry: string | null; // YYYY-MM-DD
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number | null; // Required unless depreciation_method is 'none'
+  salvage_value: number;
+  custom_fields: CustomFieldValues;
   // Joined data
   last_used_by_user?: UserPublicData;
   changed_by_user?: UserPublicData;
   pending_request?: PendingRequest;
+  catalog_material?: Material | null;
+  warehouse?: Warehouse | null;
+  location?: Location | null;
+}
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  address: string | null;
+  created_at: string;
+}
+
+// A place inside a warehouse; rack and bin are optional refinements of the zone
+export interface Location {
+  id: string;
+  warehouse_id: string;
+  zone: string;
+  rack: string | null;
+  bin: string | null;
+  created_at: string;
+}
+
+export interface MaterialCategory {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum';
+
+// Attribute an admin defined for every item of a category, e.g. accuracy class
+export interface CategoryField {
+  id: string;
+  category_id: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[] | null; // Enum choices
+  required: boolean;
+  position: number;
+  created_at: string;
+}
+
+// Catalog entry describing a kind of item, e.g. a specific meter model
+export interface Material {
+  id: string;
+  name: string;
+  category_id: string | null;
+  unit: string;
+  manufacturer: string | null;
+  model: string | null;
+  stock_type: 'serialized' | 'consumable'; // Consumables are stocked by quantity, not as items
+  min_available: number | null; // Managers are alerted when availability drops below this
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  category?: MaterialCategory | null;
+}
+
+// On-hand quantity of a consumable at one place
+export interface StockLevel {
+  id: string;
+  material_id: string;
+  warehouse_id: string;
+  location_id: string | null;
+  quantity: number;
+  updated_at: string;
+  // Joined data
+  material?: Material;
+  warehouse?: Warehouse;
+  location?: Location | null;
+}
+
+// Ledger entry; the database applies quantity_change to the stock level
+export interface StockMovement {
+  id: string;
+  stock_level_id: string;
+  type: 'receive' | 'issue' | 'adjust';
+  quantity_change: number;
+  balance_after: number;
+  request_id: string | null;
+  requested_by: string | null;
+  performed_by: string;
+  note: string | null;
+  created_at: string;
+  // Joined data
+  performed_by_user?: UserPublicData;
+  requested_by_user?: UserPublicData | null;
+  stock_level?: StockLevel;
 }
 
 export interface PendingRequest {
@@ -51,18 +177,102 @@ export interface PendingRequest {
   type: 'use' | 'return';
   requested_by: string;
   requested_at: string;
+  expected_return_date: string | null; // YYYY-MM-DD, required for 'use' requests
+  batch_id: string | null;
+  return_condition: ItemCondition | null; // Reported with 'return' requests
+  return_notes: string | null;
   requested_by_user?: UserPublicData;
   item?: Item; // Add item property for joined data
+  batch?: RequestBatch | null;
 }
 
-export interface History {
+// Issue or receive request; stored in pending_requests next to item requests
+export interface StockRequest {
+  id: string;
+  stock_level_id: string;
+  type: 'issue' | 'receive';
+  quantity: number;
+  requested_by: string;
+  requested_at: string;
+  requested_by_user?: UserPublicData;
+  stock_level?: StockLevel;
+}
+
+// Recurring service such as a calibration, for one item or every item of a material
+export interface MaintenancePlan {
+  id: string;
+  name: string;
+  material_id: string | null;
+  item_id: string | null;
+  interval_days: number;
+  last_service_date: string | null; // YYYY-MM-DD, where due dates start before the first record
+  created_by: string;
+  created_at: string;
+}
+
+// A completed service, optionally under a plan
+export interface ServiceRecord {
   id: string;
   item_id: string;
-  action: 'created' | 'edited' | 'borrowed' | 'returned' | 'archived' | 'rejected' | 'requested_borrow' | 'requested_return';
+  plan_id: string | null;
+  service_date: string; // YYYY-MM-DD
+  performed_by: string;
+  notes: string | null;
+  created_at: string;
+}
+
+// Several borrow requests submitted together with a shared purpose
+export interface RequestBatch {
+  id: string;
+  requested_by: string;
+  purpose: string;
+  expected_return_date: string;
+  requested_at: string;
+}
+
+export interface History {
+  id: string;
+  item_id: string | null; // null for entries about a stock level
+  stock_level_id: string | null;
+  action: 'created' | 'edited' | 'borrowed' | 'returned' | 'archived' | 'rejected' | 'requested_borrow' | 'requested_return' | 'cancelled' | 'transferred' | 'issued' | 'received' | 'serviced' | 'sent_to_maintenance' | 'attachment_added' | 'attachment_removed';
   performed_by: string;
   timestamp: string;
   details: string | null;
   previous_status: string | null;
   new_status: string | null;
+  requested_by: string | null; // Requester a decision concerns
+  reason: string | null; // Why a request was rejected
+  condition: ItemCondition | null; // Reported on return requests and approved returns
+  condition_notes: string | null;
   performed_by_user?: UserPublicData;
-}
\ No newline at end of file
+  item?: Item;
+  stock_level?: StockLevel | null;
+}
+
+// Photo or document kept with an item; the file itself is in storage
+export interface ItemAttachment {
+  id: string;
+  item_id: string;
+  context: 'item' | 'return_report';
+  pending_request_id: string | null; // Set while the return request is pending
+  storage_path: string;
+  thumbnail_path: string | null; // Images only
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string;
+  created_at: string;
+  // Joined data
+  uploaded_by_user?: UserPublicData;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: 'request_submitted' | 'request_approved' | 'request_rejected' | 'item_overdue' | 'low_stock';
+  title: string;
+  message: string;
+  item_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,41 @@
+import type { DepreciationMethod } from './supabase';
+import type { ItemValuation } from '../services/itemService';
+
+export const DEPRECIATION_METHOD_OPTIONS: { value: DepreciationMethod; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'straight_line', label: 'Straight-line' },
+  { value: 'declining_balance', label: 'Declining balance' },
+];
+
+export function formatDepreciationMethod(method: DepreciationMethod): string {
+  return DEPRECIATION_METHOD_OPTIONS.find(option => option.value === method)?.label ?? method;
+}
+
+export function formatMoney(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export interface CategoryValuation {
+  category: string;
+  itemCount: number;
+  purchaseCost: number;
+  bookValue: number;
+}
+
+/**
+ * Totals per material category, highest book value first
+ */
+export function summarizeByCategory(rows: ItemValuation[]): CategoryValuation[] {
+  const totals = new Map<string, CategoryValuation>();
+
+  rows.forEach(row => {
+    const category = row.category || 'Uncategorized';
+    const total = totals.get(category) ?? { category, itemCount: 0, purchaseCost: 0, bookValue: 0 };
+    total.itemCount += 1;
+    total.purchaseCost += row.purchase_cost;
+    total.bookValue += row.book_value;
+    totals.set(category, total);
+  });
+
+  return [...totals.values()].sort((a, b) => b.bookValue - a.bookValue);
+}
@@ -1,17 +1,51 @@
-import { useForm } from 'react-hook-form';
-import { useNavigate } from 'react-router-dom';
-import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { useNavigate, Link } from 'react-router-dom';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { itemService } from '../services/itemService';
 import { historyService } from '../services/historyService';
+import { materialService } from '../services/materialService';
+import { warehouseService } from '../services/warehouseService';
+import { customFieldService } from '../services/customFieldService';
+import { MaterialPicker } from '../components/MaterialPicker';
+import { CustomFieldInputs } from '../components/CustomFieldInputs';
 import type { ItemFormData } from '../services/itemService';
+import { formatLocation } from '../lib/locations';
+import { cleanCustomFieldValues, getFieldsForMaterial } from '../lib/customFields';
+import type { CategoryField, Location, Material, Warehouse } from '../lib/supabase';
 
 export default function AddItem() {
-  const { register, handleSubmit, formState: { errors } } = useForm<ItemFormData>();
+  const { register, handleSubmit, control, watch, setValue, formState: { errors } } = useForm<ItemFormData>();
   const navigate = useNavigate();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [materialsLoading, setMaterialsLoading] = useState(true);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [customFields, setCustomFields] = useState<CategoryField[]>([]);
+  const selectedWarehouseId = watch('warehouse_id');
+  const selectedMaterialId = watch('material_id');
+  const materialFields = getFieldsForMaterial(customFields, materials.find(entry => entry.id === selectedMaterialId));
+
+  useEffect(() => {
+    materialService.getMaterials('serialized')
+      .then(setMaterials)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load materials'))
+      .finally(() => setMaterialsLoading(false));
+
+    Promise.all([warehouseService.getWarehouses(), warehouseService.getLocations()])
+      .then(([warehouseList, locationList]) => {
+        setWarehouses(warehouseList);
+        setLocations(locationList);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load warehouses'));
+
+    customFieldService.getFields()
+      .then(setCustomFields)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load custom fields'));
+  }, []);
 
   const onSubmit = async (data: ItemFormData) => {
     setError(null);
@@ -23,7 +57,16 @@ export default function AddItem() {
         throw new Error('User not authenticated');
       }
 
-      const newItem = await itemService.createItem(data, userId);
+      const material = materials.find(entry => entry.id === data.material_id);
+      if (!material) {
+        throw new Error('Choose a material from the catalog');
+      }
+
+      const newItem = await itemService.createItem({
+        ...data,
+        material: material.name,
+        custom_fields: cleanCustomFieldValues(getFieldsForMaterial(customFields, material), data.custom_fields),
+      }, userId);
 
       // Add history entry for item creation
       await historyService.createEntry({
@@ -49,7 +92,12 @@ export default function AddItem() {
       animate={{ opacity: 1, y: 0 }}
       className="max-w-2xl mx-auto mt-10 bg-white rounded-xl shadow-lg p-8"
     >
-      <h2 className="text-3xl font-semibold text-gray-800 mb-6">Add New Item</h2>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-semibold text-gray-800">Add New Item</h2>
+        <Link to="/items/import" className="text-sm text-blue-600 hover:text-blue-800 hover:underline">
+          Import from CSV/XLSX
+        </Link>
+      </div>
 
       {error && (
         <motion.div
@@ -76,15 +124,31 @@ export default function AddItem() {
           <label className="block text-sm font-medium text-gray-700">
             Material <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
-            placeholder="Enter material name"
-            {...register('material', { required: 'Material is required' })}
-            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            disabled={loading}
+          <Controller
+            name="material_id"
+            control={control}
+            rules={{ required: 'Material is required' }}
+            render={({ field }) => (
+              <MaterialPicker
+                materials={materials}
+                value={field.value ?? null}
+                onChange={(material) => field.onChange(material?.id ?? null)}
+                disabled={loading || materialsLoading}
+                placeholder={materialsLoading ? 'Loading catalog...' : 'Search the material catalog...'}
+              />
+            )}
           />
-          {errors.material && (
-            <p className="text-sm text-red-500 mt-1">{errors.material.message}</p>
+          {errors.material_id && (
+            <p className="text-sm text-red-500 mt-1">{errors.material_id.message}</p>
+          )}
+          {!materialsLoading && materials.length === 0 ? (
+            <p className="text-xs text-gray-500 mt-1">
+              The catalog is empty. <Link to="/materials" className="text-blue-600 hover:underline">Add materials</Link> before creating items.
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500 mt-1">
+              Missing a material? <Link to="/materials" className="text-blue-600 hover:underline">Manage the catalog</Link>
+            </p>
           )}
         </div>
 
@@ -115,6 +179,51 @@ export default function AddItem() {
           )}
         </div>
 
+        <CustomFieldInputs
+          fields={materialFields}
+          register={register}
+          errors={errors}
+          disabled={loading}
+          inputClassName="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+
+        {warehouses.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Warehouse</label>
+              <select
+                {...register('warehouse_id', {
+                  // A location from the previous warehouse no longer applies
+                  onChange: () => setValue('location_id', '')
+                })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading}
+              >
+                <option value="">Not assigned</option>
+                {warehouses.map(warehouse => (
+                  <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Location</label>
+              <select
+                {...register('location_id')}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading || !selectedWarehouseId}
+              >
+                <option value="">No specific location</option>
+                {locations
+                  .filter(location => location.warehouse_id === selectedWarehouseId)
+                  .map(location => (
+                    <option key={location.id} value={location.id}>{formatLocation(location)}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+        )}
+
         <div className="flex justify-end space-x-3 pt-4">
           <button
             type="button"
@@ -1,8 +1,20 @@
 import { useState, useEffect } from 'react';
-import { itemService } from '../services/itemService';
+import { Link } from 'react-router-dom';
 import { pendingRequestService } from '../services/pendingRequestService';
-import type { Item, PendingRequest } from '../lib/supabase';
+import { stockService } from '../services/stockService';
+import { materialService } from '../services/materialService';
+import { maintenanceService } from '../services/maintenanceService';
+import { attachmentService } from '../services/attachmentService';
+import type { ScheduledService } from '../services/maintenanceService';
+import type { AttachmentWithUrls } from '../services/attachmentService';
+import type { LowStockMaterial } from '../services/materialService';
+import type { PendingRequest, RequestBatch, StockRequest, UserPublicData, Warehouse } from '../lib/supabase';
 import type { UserRole } from '../App';
+import { getDaysOverdue, formatDueDate, getDaysUntil, formatDaysUntil } from '../lib/dates';
+import { formatCondition, getConditionColor, needsService } from '../lib/conditions';
+import { RejectRequestModal } from '../components/RejectRequestModal';
+import { useInventory } from '../hooks/useInventory';
+import { warehouseService } from '../services/warehouseService';
 import {
   PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
@@ -12,19 +24,32 @@ import {
   TruckIcon,
   CheckCircleIcon,
   ClockIcon,
-  UserIcon
+  UserIcon,
+  ExclamationTriangleIcon,
+  ShoppingCartIcon,
+  CubeIcon,
+  ArchiveBoxIcon,
+  WrenchScrewdriverIcon,
+  DocumentTextIcon
 } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
 
+const MAINTENANCE_LOOKAHEAD_DAYS = 30;
+
 interface DashboardProps {
   userRole?: UserRole;
 }
 
 export default function Dashboard({ userRole }: DashboardProps) {
-  const [items, setItems] = useState<Item[]>([]);
-  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
+  const { items: allItems, pendingRequests: allPendingRequests, conflictingItemIds, revision, loading, refresh } = useInventory();
+  const [allStockRequests, setAllStockRequests] = useState<StockRequest[]>([]);
+  const [lowStockMaterials, setLowStockMaterials] = useState<LowStockMaterial[]>([]);
+  const [allDueServices, setAllDueServices] = useState<ScheduledService[]>([]);
+  const [reportAttachments, setReportAttachments] = useState<AttachmentWithUrls[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseFilter, setWarehouseFilter] = useState('');
   const [processingRequests, setProcessingRequests] = useState<Set<string>>(new Set());
-  const [loading, setLoading] = useState(true);
+  const [rejectTarget, setRejectTarget] = useState<{ id: string; isBatch: boolean; description: string } | null>(null);
   const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1024);
 
   // Track window width for responsive chart
@@ -34,35 +59,71 @@ export default function Dashboard({ userRole }: DashboardProps) {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const loadItems = async () => {
-    try {
-      const itemsData = await itemService.getItems();
-      setItems(itemsData);
-    } catch (error) {
-      console.error('Failed to load items:', error);
-    }
-  };
+  useEffect(() => {
+    warehouseService.getWarehouses()
+      .then(setWarehouses)
+      .catch(() => setWarehouses([])); // Without warehouses the filter is simply hidden
+  }, []);
 
-  const loadPendingRequests = async () => {
-    try {
-      const requests = await pendingRequestService.getAllPendingRequests();
-      setPendingRequests(requests);
-    } catch (error) {
-      console.error('Failed to load pending requests:', error);
-    }
-  };
+  // Stock requests are decided on the stock page, the dashboard only points there
+  useEffect(() => {
+    stockService.getPendingRequests()
+      .then(setAllStockRequests)
+      .catch(() => setAllStockRequests([]));
+  }, [revision]);
 
+  // Availability counts every warehouse the user can see, not just the filtered one
   useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      await Promise.all([loadItems(), loadPendingRequests()]);
-      setLoading(false);
-    };
-    loadData();
-  }, []);
+    materialService.getLowStockMaterials()
+      .then(setLowStockMaterials)
+      .catch(() => setLowStockMaterials([]));
+  }, [revision]);
+
+  // Calibrations and other services overdue or due within the next 30 days
+  useEffect(() => {
+    maintenanceService.getSchedule({ withinDays: MAINTENANCE_LOOKAHEAD_DAYS })
+      .then(setAllDueServices)
+      .catch(() => setAllDueServices([]));
+  }, [revision]);
+
+  // Photos and documents filed with pending return requests
+  const returnRequestIds = allPendingRequests
+    .filter(request => request.type === 'return')
+    .map(request => request.id)
+    .join(',');
+  useEffect(() => {
+    attachmentService.getRequestAttachments(returnRequestIds ? returnRequestIds.split(',') : [])
+      .then(setReportAttachments)
+      .catch(() => setReportAttachments([]));
+  }, [returnRequestIds, revision]);
+
+  // Everything below reflects the selected warehouse only
+  const items = warehouseFilter
+    ? allItems.filter(item => item.warehouse_id === warehouseFilter)
+    : allItems;
+  const pendingRequests = warehouseFilter
+    ? allPendingRequests.filter(request => request.item?.warehouse_id === warehouseFilter)
+    : allPendingRequests;
+  const stockRequests = warehouseFilter
+    ? allStockRequests.filter(request => request.stock_level?.warehouse_id === warehouseFilter)
+    : allStockRequests;
+
+  // Batched borrow requests are decided together; everything else per item
+  const requestBatches = pendingRequests.reduce((acc, request) => {
+    if (!request.batch_id || !request.batch) return acc;
+    if (!acc[request.batch_id]) {
+      acc[request.batch_id] = {
+        batch: request.batch,
+        requester: request.requested_by_user,
+        requests: []
+      };
+    }
+    acc[request.batch_id].requests.push(request);
+    return acc;
+  }, {} as Record<string, { batch: RequestBatch; requester?: UserPublicData; requests: PendingRequest[] }>);
 
   // Group pending requests by item and action type for display
-  const groupedPendingRequests = pendingRequests.reduce((acc, request) => {
+  const groupedPendingRequests = pendingRequests.filter(request => !request.batch_id).reduce((acc, request) => {
     const key = `${request.item_id}-${request.type}`;
     if (!acc[key]) {
       acc[key] = {
@@ -79,17 +140,43 @@ export default function Dashboard({ userRole }: DashboardProps) {
     total: items.length,
     available: items.filter(item => item.status === 'available').length,
     used: items.filter(item => item.status === 'used').length,
-    pending: Object.keys(groupedPendingRequests).length
+    maintenance: items.filter(item => item.status === 'maintenance').length,
+    pending: Object.keys(groupedPendingRequests).length + Object.keys(requestBatches).length
   };
 
+  // The schedule has no warehouse, so follow the filtered items
+  const visibleItemIds = new Set(items.map(item => item.id));
+  const dueServices = allDueServices.filter(service => visibleItemIds.has(service.item_id));
+
+  // Borrowed items past their due date, most overdue first
+  const overdueItems = items
+    .map(item => ({ item, daysOverdue: getDaysOverdue(item) }))
+    .filter(entry => entry.daysOverdue > 0)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  // Items in use or in stock per catalog category, largest first
+  const categoryCounts = Object.entries(
+    items
+      .filter(item => item.status !== 'archived')
+      .reduce((acc, item) => {
+        const category = item.catalog_material
+          ? item.catalog_material.category?.name || 'Uncategorized'
+          : 'Not in catalog';
+        acc[category] = (acc[category] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>)
+  ).sort((a, b) => b[1] - a[1]);
+  const largestCategoryCount = categoryCounts.length > 0 ? categoryCounts[0][1] : 0;
+
   const pieData = [
     { name: 'Available', value: stats.available },
     { name: 'Used', value: stats.used },
     { name: 'Pending', value: stats.pending },
+    { name: 'Maintenance', value: stats.maintenance },
   ];
-  const COLORS = ['#22c55e', '#ef4444', '#f59e0b'];
+  const COLORS = ['#22c55e', '#ef4444', '#f59e0b', '#8b5cf6'];
 
-  const handleApproval = async (requestId: string, approve: boolean) => {
+  const handleApproval = async (requestId: string, approve: boolean, reason: string = '', toMaintenance: boolean = false) => {
     // Only admin can approve/reject requests
     if (userRole !== 'admin') return;
     
@@ -105,13 +192,13 @@ export default function Dashboard({ userRole }: DashboardProps) {
       }
 
       if (approve) {
-        await pendingRequestService.approveRequest(requestId, currentUserId);
+        await pendingRequestService.approveRequest(requestId, currentUserId, toMaintenance);
       } else {
-        await pendingRequestService.rejectRequest(requestId, currentUserId);
+        await pendingRequestService.rejectRequest(requestId, currentUserId, reason);
       }
 
       // Reload data to reflect changes
-      await Promise.all([loadItems(), loadPendingRequests()]);
+      await refresh();
 
     } catch (error) {
       console.error('Failed to handle approval:', error);
@@ -124,6 +211,50 @@ export default function Dashboard({ userRole }: DashboardProps) {
     }
   };
 
+  const handleBatchApproval = async (batchId: string, approve: boolean, reason: string = '') => {
+    // Admins and managers can approve/reject whole batches
+    if (userRole !== 'admin' && userRole !== 'manager') return;
+
+    if (processingRequests.has(batchId)) return;
+
+    setProcessingRequests(prev => new Set(prev).add(batchId));
+
+    try {
+      const currentUserId = localStorage.getItem('userId');
+
+      if (!currentUserId) {
+        throw new Error('User ID not found. Please log in again.');
+      }
+
+      if (approve) {
+        await pendingRequestService.approveBatch(batchId, currentUserId);
+      } else {
+        await pendingRequestService.rejectBatch(batchId, currentUserId, reason);
+      }
+
+      await refresh();
+    } catch (error) {
+      console.error('Failed to handle batch approval:', error);
+    } finally {
+      setProcessingRequests(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(batchId);
+        return newSet;
+      });
+    }
+  };
+
+  const confirmReject = async (reason: string) => {
+    if (!rejectTarget) return;
+
+    if (rejectTarget.isBatch) {
+      await handleBatchApproval(rejectTarget.id, false, reason);
+    } else {
+      await handleApproval(rejectTarget.id, false, reason);
+    }
+    setRejectTarget(null);
+  };
+
   const getRequestTypeInfo = (type: string) => {
     switch (type) {
       case 'use':
@@ -188,6 +319,22 @@ export default function Dashboard({ userRole }: DashboardProps) {
 
   return (
     <div className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto">
+      {/* Warehouse Filter */}
+      {warehouses.length > 0 && (
+        <div className="flex justify-end">
+          <select
+            value={warehouseFilter}
+            onChange={(e) => setWarehouseFilter(e.target.value)}
+            className="w-full sm:w-auto border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 text-sm"
+          >
+            <option value="">All Warehouses</option>
+            {warehouses.map(warehouse => (
+              <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4 lg:gap-6">
         <motion.div 
@@ -290,6 +437,14 @@ export default function Dashboard({ userRole }: DashboardProps) {
                           <div className="min-w-0 flex-1">
                             <div className="flex items-center space-x-2 mb-1">
                               <h4 className="font-semibold text-gray-900 dark:text-slate-100 text-sm sm:text-base truncate">{group.item.material}</h4>
+                              {conflictingItemIds.has(group.item.id) && (
+                                <span
+                                  className="flex-shrink-0 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 text-xs font-medium px-2 py-0.5 rounded-full"
+                                  title="Both a borrow and a return request are pending for this item"
+                                >
+                                  Conflict
+                                </span>
+                              )}
                             </div>
                             <p className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 truncate">{group.item.description}</p>
                           </div>
@@ -328,6 +483,36 @@ export default function Dashboard({ userRole }: DashboardProps) {
                                     <span className="text-xs text-gray-500 dark:text-slate-400">
                                       {formatTimeAgo(request.requested_at)}
                                     </span>
+                                    {request.return_condition && (
+                                      <div className="mt-1 space-y-0.5">
+                                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${getConditionColor(request.return_condition)}`}>
+                                          {formatCondition(request.return_condition)}
+                                        </span>
+                                        {request.return_notes && (
+                                          <p className="text-xs text-gray-600 dark:text-slate-400 break-words">{request.return_notes}</p>
+                                        )}
+                                        {reportAttachments.some(attachment => attachment.pending_request_id === request.id) && (
+                                          <div className="flex flex-wrap gap-1 pt-1">
+                                            {reportAttachments.filter(attachment => attachment.pending_request_id === request.id).map(attachment => (
+                                              <a
+                                                key={attachment.id}
+                                                href={attachment.url || undefined}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                title={attachment.file_name}
+                                                className="block h-10 w-10 rounded overflow-hidden border border-gray-200 dark:border-slate-500 bg-white dark:bg-slate-700"
+                                              >
+                                                {attachment.thumbnail_url ? (
+                                                  <img src={attachment.thumbnail_url} alt={attachment.file_name} className="h-full w-full object-cover" />
+                                                ) : (
+                                                  <DocumentTextIcon className="h-full w-full p-2 text-gray-500 dark:text-slate-400" />
+                                                )}
+                                              </a>
+                                            ))}
+                                          </div>
+                                        )}
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
                                 
@@ -353,8 +538,32 @@ export default function Dashboard({ userRole }: DashboardProps) {
                                     )}
                                   </motion.button>
 
+                                  {/* Returns can go to maintenance instead of back on the shelf */}
+                                  {request.type === 'return' && (
+                                    <motion.button
+                                      onClick={() => handleApproval(request.id, true, '', true)}
+                                      disabled={isProcessing}
+                                      whileHover={{ scale: 1.05 }}
+                                      whileTap={{ scale: 0.95 }}
+                                      title="Approve the return and send the item to maintenance"
+                                      className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                                        isProcessing
+                                          ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
+                                          : needsService(request.return_condition)
+                                            ? 'bg-amber-500 text-white hover:bg-amber-600 ring-2 ring-amber-300'
+                                            : 'bg-amber-500 text-white hover:bg-amber-600'
+                                      }`}
+                                    >
+                                      Maintenance
+                                    </motion.button>
+                                  )}
+
                                   <motion.button
-                                    onClick={() => handleApproval(request.id, false)}
+                                    onClick={() => setRejectTarget({
+                                      id: request.id,
+                                      isBatch: false,
+                                      description: `${request.requested_by_user?.username || 'Unknown'}'s ${requestInfo.label.toLowerCase()} for ${group.item.material}`
+                                    })}
                                     disabled={isProcessing}
                                     whileHover={{ scale: 1.05 }}
                                     whileTap={{ scale: 0.95 }}
@@ -430,6 +639,14 @@ export default function Dashboard({ userRole }: DashboardProps) {
                         <div className="min-w-0 flex-1">
                           <div className="flex items-center space-x-2 mb-1">
                             <h4 className="font-semibold text-gray-900 dark:text-slate-100 text-sm sm:text-base truncate">{group.item.material}</h4>
+                            {conflictingItemIds.has(group.item.id) && (
+                              <span
+                                className="flex-shrink-0 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 text-xs font-medium px-2 py-0.5 rounded-full"
+                                title="Both a borrow and a return request are pending for this item"
+                              >
+                                Conflict
+                              </span>
+                            )}
                           </div>
                           <p className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 truncate">{group.item.description}</p>
                         </div>
@@ -472,15 +689,133 @@ export default function Dashboard({ userRole }: DashboardProps) {
             
             <div className="mt-4 p-3 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg">
               <p className="text-xs sm:text-sm text-orange-800 dark:text-orange-300">
-                👔 <strong>Manager View:</strong> You can view pending requests but only administrators can approve or reject them.
+                👔 <strong>Manager View:</strong> You can view pending requests but only administrators can approve or reject them. Batch requests can be approved or rejected below.
               </p>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Batch Borrow Requests - managers can decide these too */}
+      <AnimatePresence>
+        {Object.keys(requestBatches).length > 0 && (userRole === 'admin' || userRole === 'manager') && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+          >
+            <h3 className="text-base sm:text-lg lg:text-xl font-semibold text-gray-800 dark:text-slate-200 flex items-center mb-4 sm:mb-6">
+              <ShoppingCartIcon className="h-4 w-4 sm:h-5 sm:w-5 lg:h-6 lg:w-6 text-blue-600 mr-2 flex-shrink-0" />
+              <span>Batch Requests</span>
+              <span className="ml-2 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 text-xs sm:text-sm font-medium px-2 sm:px-2.5 py-0.5 rounded-full">
+                {Object.keys(requestBatches).length}
+              </span>
+            </h3>
+
+            <div className="space-y-2 sm:space-y-3 lg:space-y-4">
+              {Object.values(requestBatches).map(({ batch, requester, requests }, index) => {
+                const isProcessing = processingRequests.has(batch.id);
+
+                return (
+                  <motion.div
+                    key={batch.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: index * 0.1 }}
+                    className="bg-white dark:bg-slate-700 rounded-lg border border-gray-200 dark:border-slate-600 p-3 sm:p-4 hover:shadow-md transition-shadow space-y-3"
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <UserIcon className="h-4 w-4 text-gray-400 dark:text-slate-500 flex-shrink-0" />
+                          <span className="text-sm font-semibold text-gray-900 dark:text-slate-100 truncate">
+                            {requester?.username || 'Unknown'}
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-slate-400">
+                            {formatTimeAgo(batch.requested_at)}
+                          </span>
+                        </div>
+                        <p className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 break-words">{batch.purpose}</p>
+                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                          {requests.length} item{requests.length > 1 ? 's' : ''} · return by {formatDueDate(batch.expected_return_date)}
+                        </p>
+                      </div>
+
+                      <div className="flex space-x-2 flex-shrink-0">
+                        <motion.button
+                          onClick={() => handleBatchApproval(batch.id, true)}
+                          disabled={isProcessing}
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                            isProcessing
+                              ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
+                              : 'bg-green-600 text-white hover:bg-green-700'
+                          }`}
+                        >
+                          {isProcessing ? 'Processing...' : 'Approve All'}
+                        </motion.button>
+                        <motion.button
+                          onClick={() => setRejectTarget({
+                            id: batch.id,
+                            isBatch: true,
+                            description: `${requester?.username || 'Unknown'}'s batch of ${requests.length} item${requests.length > 1 ? 's' : ''}`
+                          })}
+                          disabled={isProcessing}
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                            isProcessing
+                              ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
+                              : 'bg-red-600 text-white hover:bg-red-700'
+                          }`}
+                        >
+                          {isProcessing ? 'Processing...' : 'Reject All'}
+                        </motion.button>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-1">
+                      {requests.map((request) => (
+                        <span key={request.id} className="bg-gray-100 dark:bg-slate-600 rounded px-2 py-1 text-xs text-gray-700 dark:text-slate-300">
+                          {request.item?.material || 'Unknown item'}
+                          <span className="font-mono text-gray-500 dark:text-slate-400 ml-1">{request.item?.serial_number}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Pending Stock Requests */}
+      {stockRequests.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+        >
+          <div className="flex items-center">
+            <ArchiveBoxIcon className="h-5 w-5 sm:h-6 sm:w-6 mr-2 text-teal-600 flex-shrink-0" />
+            <span className="text-sm sm:text-base font-semibold text-gray-800 dark:text-slate-200">
+              {stockRequests.length} stock {stockRequests.length === 1 ? 'request' : 'requests'} waiting for a decision
+            </span>
+          </div>
+          <Link
+            to="/stock"
+            className="px-3 py-1.5 rounded-md text-sm font-medium bg-teal-600 text-white hover:bg-teal-700 text-center"
+          >
+            {userRole === 'admin' ? 'Review' : 'View'}
+          </Link>
+        </motion.div>
+      )}
+
       {/* No Pending Requests Message */}
-      {Object.keys(groupedPendingRequests).length === 0 && (
+      {Object.keys(groupedPendingRequests).length === 0 && Object.keys(requestBatches).length === 0 && stockRequests.length === 0 && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -492,78 +827,243 @@ export default function Dashboard({ userRole }: DashboardProps) {
         </motion.div>
       )}
 
-      {/* Pie Chart - Fully Responsive */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.3 }}
-        className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
-      >
-        <h3 className="text-sm sm:text-base lg:text-lg font-semibold text-gray-700 dark:text-slate-300 mb-3 sm:mb-4">Item Status Distribution</h3>
-        <div className="w-full overflow-hidden">
-          <ResponsiveContainer width="100%" height={chartDimensions.height} minWidth={200}>
-            <PieChart>
-              <Pie
-                data={pieData}
-                cx="50%"
-                cy="50%"
-                labelLine={false}
-                label={({ name, percent }) => {
-                  // Show shorter labels on very small screens
-                  if (windowWidth < 480) {
-                    const shortName = name === 'Available' ? 'Avail' : name === 'Pending' ? 'Pend' : name;
-                    return `${shortName} ${(percent * 100).toFixed(0)}%`;
-                  } else if (windowWidth < 640) {
-                    const shortName = name === 'Available' ? 'Avail' : name === 'Pending' ? 'Pend' : name;
-                    return `${shortName} ${(percent * 100).toFixed(0)}%`;
-                  } else {
-                    return `${name} ${(percent * 100).toFixed(0)}%`;
-                  }
-                }}
-                outerRadius={chartDimensions.outerRadius}
-                dataKey="value"
-                style={{ fontSize: chartDimensions.fontSize }}
-              >
-                {pieData.map((_, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                ))}
-              </Pie>
-              <Tooltip 
-                contentStyle={{ 
-                  fontSize: chartDimensions.fontSize,
-                  padding: windowWidth < 480 ? '8px' : '12px'
-                }}
-              />
-              {/* Only show legend on larger screens */}
-              {windowWidth >= 768 && (
-                <Legend 
-                  wrapperStyle={{ fontSize: chartDimensions.fontSize }}
-                  iconType="circle"
+      {/* Overdue Items */}
+      {overdueItems.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+        >
+          <h3 className="text-base sm:text-lg lg:text-xl font-semibold text-gray-800 dark:text-slate-200 flex items-center mb-4 sm:mb-6">
+            <ExclamationTriangleIcon className="h-4 w-4 sm:h-5 sm:w-5 lg:h-6 lg:w-6 text-orange-600 mr-2 flex-shrink-0" />
+            <span>Overdue Items</span>
+            <span className="ml-2 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 text-xs sm:text-sm font-medium px-2 sm:px-2.5 py-0.5 rounded-full">
+              {overdueItems.length}
+            </span>
+          </h3>
+
+          <div className="space-y-2">
+            {overdueItems.map(({ item, daysOverdue }) => (
+              <div key={item.id} className="flex items-center justify-between bg-white dark:bg-slate-700 rounded-lg border border-gray-200 dark:border-slate-600 p-3">
+                <div className="min-w-0 flex-1">
+                  <h4 className="font-semibold text-gray-900 dark:text-slate-100 text-sm sm:text-base truncate">{item.material}</h4>
+                  <p className="text-xs text-gray-400 dark:text-slate-500 font-mono truncate">Serial: {item.serial_number}</p>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-gray-600 dark:text-slate-400">
+                    <UserIcon className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{item.last_used_by_user?.username || 'Unknown'}</span>
+                    {item.due_date && <span>· due {formatDueDate(item.due_date)}</span>}
+                  </div>
+                </div>
+                <span className="ml-3 flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300">
+                  {daysOverdue} day{daysOverdue > 1 ? 's' : ''} overdue
+                </span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
+      {/* Maintenance Due */}
+      {dueServices.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+        >
+          <h3 className="text-base sm:text-lg lg:text-xl font-semibold text-gray-800 dark:text-slate-200 flex items-center mb-4 sm:mb-6">
+            <WrenchScrewdriverIcon className="h-4 w-4 sm:h-5 sm:w-5 lg:h-6 lg:w-6 text-amber-600 mr-2 flex-shrink-0" />
+            <span>Maintenance Due</span>
+            <span className="ml-2 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 text-xs sm:text-sm font-medium px-2 sm:px-2.5 py-0.5 rounded-full">
+              {dueServices.length}
+            </span>
+          </h3>
+
+          <div className="space-y-2">
+            {dueServices.map(service => {
+              const daysUntil = getDaysUntil(service.next_due_date);
+              return (
+                <Link
+                  key={`${service.plan_id}-${service.item_id}`}
+                  to={`/items/history/${service.item_id}`}
+                  className="flex items-center justify-between bg-white dark:bg-slate-700 rounded-lg border border-gray-200 dark:border-slate-600 p-3 hover:shadow-md transition-shadow"
+                >
+                  <div className="min-w-0 flex-1">
+                    <h4 className="font-semibold text-gray-900 dark:text-slate-100 text-sm sm:text-base truncate">{service.material}</h4>
+                    <p className="text-xs text-gray-400 dark:text-slate-500 font-mono truncate">Serial: {service.serial_number}</p>
+                    <p className="text-xs text-gray-600 dark:text-slate-400 mt-1 truncate">
+                      {service.plan_name} · due {formatDueDate(service.next_due_date)}
+                      {service.status === 'used' && ' · currently borrowed'}
+                    </p>
+                  </div>
+                  <span className={`ml-3 flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
+                    daysUntil < 0
+                      ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                      : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                  }`}>
+                    {formatDaysUntil(daysUntil)}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        </motion.div>
+      )}
+
+      <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+        {/* Pie Chart - Fully Responsive */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+        >
+          <h3 className="text-sm sm:text-base lg:text-lg font-semibold text-gray-700 dark:text-slate-300 mb-3 sm:mb-4">Item Status Distribution</h3>
+          <div className="w-full overflow-hidden">
+            <ResponsiveContainer width="100%" height={chartDimensions.height} minWidth={200}>
+              <PieChart>
+                <Pie
+                  data={pieData}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percent }) => {
+                    // Show shorter labels on very small screens
+                    if (windowWidth < 480) {
+                      const shortName = name === 'Available' ? 'Avail' : name === 'Pending' ? 'Pend' : name;
+                      return `${shortName} ${(percent * 100).toFixed(0)}%`;
+                    } else if (windowWidth < 640) {
+                      const shortName = name === 'Available' ? 'Avail' : name === 'Pending' ? 'Pend' : name;
+                      return `${shortName} ${(percent * 100).toFixed(0)}%`;
+                    } else {
+                      return `${name} ${(percent * 100).toFixed(0)}%`;
+                    }
+                  }}
+                  outerRadius={chartDimensions.outerRadius}
+                  dataKey="value"
+                  style={{ fontSize: chartDimensions.fontSize }}
+                >
+                  {pieData.map((_, index) => (
+                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip 
+                  contentStyle={{ 
+                    fontSize: chartDimensions.fontSize,
+                    padding: windowWidth < 480 ? '8px' : '12px'
+                  }}
                 />
-              )}
-            </PieChart>
-          </ResponsiveContainer>
-        </div>
+                {/* Only show legend on larger screens */}
+                {windowWidth >= 768 && (
+                  <Legend 
+                    wrapperStyle={{ fontSize: chartDimensions.fontSize }}
+                    iconType="circle"
+                  />
+                )}
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
         
-        {/* Custom legend for smaller screens */}
-        {windowWidth < 768 && (
-          <div className="flex justify-center flex-wrap gap-2 sm:gap-3 lg:gap-4 mt-3 sm:mt-4">
-            {pieData.map((entry, index) => (
-              <div key={entry.name} className="flex items-center space-x-1 sm:space-x-1.5">
-                <div 
-                  className="w-2 h-2 sm:w-3 sm:h-3 rounded-full flex-shrink-0" 
-                  style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                ></div>
-                <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 whitespace-nowrap">
-                  {windowWidth < 480 && entry.name === 'Available' ? 'Avail' : 
-                   windowWidth < 480 && entry.name === 'Pending' ? 'Pend' : 
-                   entry.name}
-                </span>
+          {/* Custom legend for smaller screens */}
+          {windowWidth < 768 && (
+            <div className="flex justify-center flex-wrap gap-2 sm:gap-3 lg:gap-4 mt-3 sm:mt-4">
+              {pieData.map((entry, index) => (
+                <div key={entry.name} className="flex items-center space-x-1 sm:space-x-1.5">
+                  <div 
+                    className="w-2 h-2 sm:w-3 sm:h-3 rounded-full flex-shrink-0" 
+                    style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                  ></div>
+                  <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                    {windowWidth < 480 && entry.name === 'Available' ? 'Avail' : 
+                     windowWidth < 480 && entry.name === 'Pending' ? 'Pend' : 
+                     entry.name}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+
+        {/* Low Stock */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+        >
+          <h3 className="text-sm sm:text-base lg:text-lg font-semibold text-gray-700 dark:text-slate-300 mb-3 sm:mb-4 flex items-center">
+            <ExclamationTriangleIcon className="h-4 w-4 sm:h-5 sm:w-5 text-red-500 mr-2 flex-shrink-0" />
+            <span>Below Minimum Stock ({lowStockMaterials.length})</span>
+          </h3>
+          {lowStockMaterials.length === 0 ? (
+            <div className="text-center py-6 sm:py-10">
+              <CheckCircleIcon className="h-10 w-10 sm:h-12 sm:w-12 text-green-500 mx-auto mb-2" />
+              <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-400">Every material with a minimum is above it.</p>
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {lowStockMaterials.map(material => (
+                <div key={material.material_id}>
+                  <div className="flex justify-between text-xs sm:text-sm text-gray-600 dark:text-slate-400 mb-1">
+                    <span className="truncate">
+                      {material.name}
+                      {material.stock_type === 'consumable' && <span className="text-gray-400 dark:text-slate-500"> · consumable</span>}
+                    </span>
+                    <span className="font-medium text-red-600 dark:text-red-400 ml-2 whitespace-nowrap">
+                      {material.available} / {material.min_available} {material.unit}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-red-500 rounded-full"
+                      style={{ width: `${(material.available / material.min_available) * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      </div>
+
+      {/* Items by Category */}
+      {categoryCounts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+          className="glass-effect rounded-lg shadow-glow p-3 sm:p-4 lg:p-6"
+        >
+          <h3 className="text-sm sm:text-base lg:text-lg font-semibold text-gray-700 dark:text-slate-300 mb-3 sm:mb-4 flex items-center">
+            <CubeIcon className="h-4 w-4 sm:h-5 sm:w-5 text-primary-600 dark:text-primary-400 mr-2 flex-shrink-0" />
+            <span>Items by Category</span>
+          </h3>
+          <div className="space-y-2">
+            {categoryCounts.map(([category, count]) => (
+              <div key={category}>
+                <div className="flex justify-between text-xs sm:text-sm text-gray-600 dark:text-slate-400 mb-1">
+                  <span className="truncate">{category}</span>
+                  <span className="font-medium text-gray-900 dark:text-slate-100 ml-2">{count}</span>
+                </div>
+                <div className="h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 rounded-full"
+                    style={{ width: `${(count / largestCategoryCount) * 100}%` }}
+                  ></div>
+                </div>
               </div>
             ))}
           </div>
-        )}
-      </motion.div>
+        </motion.div>
+      )}
+
+      <RejectRequestModal
+        key={rejectTarget?.id}
+        isOpen={rejectTarget !== null}
+        onClose={() => setRejectTarget(null)}
+        onConfirm={confirmReject}
+        isLoading={rejectTarget !== null && processingRequests.has(rejectTarget.id)}
+        description={rejectTarget?.description}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,11 +1,24 @@
 import { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useForm, Controller } from 'react-hook-form';
+import { useNavigate, useParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { itemService } from '../services/itemService';
 import { historyService } from '../services/historyService';
+import { materialService } from '../services/materialService';
+import { customFieldService } from '../services/customFieldService';
+import { MaterialPicker } from '../components/MaterialPicker';
+import { CustomFieldInputs } from '../components/CustomFieldInputs';
+import { toOptionalNumber, toOptionalText } from '../lib/forms';
+import { cleanCustomFieldValues, formatCustomFieldValue, getFieldsForMaterial } from '../lib/customFields';
+import { DEPRECIATION_METHOD_OPTIONS, formatDepreciationMethod, formatMoney } from '../lib/valuation';
 import type { ItemFormData } from '../services/itemService';
-import type { Item } from '../lib/supabase';
+import type { CategoryField, Item, Material } from '../lib/supabase';
+
+const inputClassName = 'mt-1 w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition';
+
+function formatOptionalMoney(amount: number | null | undefined): string | null {
+  return amount === null || amount === undefined ? null : formatMoney(amount);
+}
 
 export default function EditItem() {
   const { id } = useParams();
@@ -13,26 +26,47 @@ export default function EditItem() {
   const {
     register,
     handleSubmit,
+    control,
     formState: { errors },
     reset,
+    watch,
   } = useForm<ItemFormData>();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
   const [originalItem, setOriginalItem] = useState<Item | null>(null);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [customFields, setCustomFields] = useState<CategoryField[]>([]);
+  const selectedMaterialId = watch('material_id');
+  const materialFields = getFieldsForMaterial(customFields, materials.find(entry => entry.id === selectedMaterialId));
 
   useEffect(() => {
     const loadItem = async () => {
       if (!id) return;
 
       try {
-        const item = await itemService.getItemById(id);
+        const [item, catalog, fields] = await Promise.all([
+          itemService.getItemById(id),
+          materialService.getMaterials('serialized'),
+          customFieldService.getFields()
+        ]);
+        setMaterials(catalog);
+        setCustomFields(fields);
         if (item) {
           reset({
             material: item.material,
+            material_id: item.material_id,
             description: item.description || '',
             serial_number: item.serial_number,
+            purchase_date: item.purchase_date,
+            supplier: item.supplier,
+            purchase_cost: item.purchase_cost,
+            warranty_expiry: item.warranty_expiry,
+            depreciation_method: item.depreciation_method,
+            useful_life_months: item.useful_life_months,
+            salvage_value: item.salvage_value,
+            custom_fields: item.custom_fields,
           });
           setOriginalItem(item);
         } else {
@@ -60,16 +94,51 @@ export default function EditItem() {
         throw new Error('User not authenticated');
       }
 
-      await itemService.updateItem(id, data, userId);
+      // Items not yet in the catalog keep their free-text material until one is picked
+      const material = materials.find(entry => entry.id === data.material_id);
+      const updates: ItemFormData = {
+        ...data,
+        material: material ? material.name : originalItem.material,
+        material_id: material ? material.id : null,
+        custom_fields: cleanCustomFieldValues(getFieldsForMaterial(customFields, material), data.custom_fields),
+      };
+
+      await itemService.updateItem(id, updates, userId);
 
       // Add history entry for item edit
       const changes = [];
-      if (originalItem.material !== data.material) {
-        changes.push(`Material: ${originalItem.material} → ${data.material}`);
+      if (originalItem.material !== updates.material) {
+        changes.push(`Material: ${originalItem.material} → ${updates.material}`);
+      } else if (originalItem.material_id !== updates.material_id && updates.material_id) {
+        changes.push('Material linked to catalog');
       }
       if (originalItem.description !== data.description) {
         changes.push(`Description: ${originalItem.description || 'None'} → ${data.description || 'None'}`);
       }
+      const purchaseChanges: [string, string | null, string | null][] = [
+        ['Purchase date', originalItem.purchase_date, updates.purchase_date ?? null],
+        ['Supplier', originalItem.supplier, updates.supplier ?? null],
+        ['Purchase cost', formatOptionalMoney(originalItem.purchase_cost), formatOptionalMoney(updates.purchase_cost)],
+        ['Warranty expiry', originalItem.warranty_expiry, updates.warranty_expiry ?? null],
+        ['Depreciation', formatDepreciationMethod(originalItem.depreciation_method), formatDepreciationMethod(updates.depreciation_method ?? 'none')],
+        ['Useful life (months)', originalItem.useful_life_months?.toString() ?? null, updates.useful_life_months?.toString() ?? null],
+        ['Salvage value', formatOptionalMoney(originalItem.salvage_value), formatOptionalMoney(updates.salvage_value)],
+      ];
+      purchaseChanges.forEach(([label, before, after]) => {
+        if (before !== after) {
+          changes.push(`${label}: ${before ?? 'None'} → ${after ?? 'None'}`);
+        }
+      });
+
+      customFields.forEach(field => {
+        const before = originalItem.custom_fields[field.id];
+        const after = updates.custom_fields?.[field.id];
+        if (before !== after) {
+          const format = (value: string | number | null | undefined) =>
+            value === undefined || value === null ? 'None' : formatCustomFieldValue(field, value);
+          changes.push(`${field.label}: ${format(before)} → ${format(after)}`);
+        }
+      });
 
       if (changes.length > 0) {
         await historyService.createEntry({
@@ -147,14 +216,27 @@ export default function EditItem() {
           <label className="block text-sm font-medium text-gray-700">
             Material <span className="text-red-500">*</span>
           </label>
-          <input
-            {...register('material', { required: 'Material is required' })}
-            autoFocus
-            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-            disabled={saving}
+          <Controller
+            name="material_id"
+            control={control}
+            rules={{ required: originalItem?.material_id ? 'Material is required' : false }}
+            render={({ field }) => (
+              <MaterialPicker
+                materials={materials}
+                value={field.value ?? null}
+                onChange={(material) => field.onChange(material?.id ?? null)}
+                disabled={saving}
+              />
+            )}
           />
-          {errors.material && (
-            <p className="text-sm text-red-600 mt-1">{errors.material.message}</p>
+          {errors.material_id && (
+            <p className="text-sm text-red-600 mt-1">{errors.material_id.message}</p>
+          )}
+          {originalItem && !originalItem.material_id && (
+            <p className="text-xs text-amber-700 mt-1">
+              Not in the catalog yet: "{originalItem.material}". Pick a catalog material to link this item,
+              or leave it empty to keep the current name. <Link to="/materials" className="text-blue-600 hover:underline">Manage the catalog</Link>
+            </p>
           )}
         </div>
 
@@ -162,7 +244,7 @@ export default function EditItem() {
           <label className="block text-sm font-medium text-gray-700">Description</label>
           <input
             {...register('description')}
-            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+            className={inputClassName}
             disabled={saving}
           />
         </div>
@@ -177,6 +259,144 @@ export default function EditItem() {
           <p className="text-xs text-gray-500 mt-1">Serial number cannot be changed</p>
         </div>
 
+        <CustomFieldInputs
+          fields={materialFields}
+          register={register}
+          errors={errors}
+          disabled={saving}
+          inputClassName={inputClassName}
+        />
+
+        <div className="border-t border-gray-200 pt-5 space-y-5">
+          <h3 className="text-lg font-semibold text-gray-800">Purchase & Warranty</h3>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Purchase Date</label>
+              <input
+                type="date"
+                {...register('purchase_date', {
+                  setValueAs: toOptionalText,
+                  validate: (value, form) =>
+                    !!value || form.depreciation_method === 'none' || 'Purchase date is required to depreciate the item',
+                })}
+                className={inputClassName}
+                disabled={saving}
+              />
+              {errors.purchase_date && (
+                <p className="text-sm text-red-600 mt-1">{errors.purchase_date.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Supplier</label>
+              <input
+                {...register('supplier', { setValueAs: toOptionalText })}
+                className={inputClassName}
+                disabled={saving}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Purchase Cost</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                {...register('purchase_cost', {
+                  setValueAs: toOptionalNumber,
+                  validate: (value, form) => {
+                    if (value === null || value === undefined) {
+                      return form.depreciation_method === 'none' || 'Purchase cost is required to depreciate the item';
+                    }
+                    return value >= 0 || 'Purchase cost cannot be negative';
+                  },
+                })}
+                className={inputClassName}
+                disabled={saving}
+              />
+              {errors.purchase_cost && (
+                <p className="text-sm text-red-600 mt-1">{errors.purchase_cost.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Warranty Expiry</label>
+              <input
+                type="date"
+                {...register('warranty_expiry', {
+                  setValueAs: toOptionalText,
+                  validate: (value, form) =>
+                    !value || !form.purchase_date || value >= form.purchase_date || 'Warranty cannot expire before the purchase date',
+                })}
+                className={inputClassName}
+                disabled={saving}
+              />
+              {errors.warranty_expiry && (
+                <p className="text-sm text-red-600 mt-1">{errors.warranty_expiry.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Depreciation Method</label>
+              <select
+                {...register('depreciation_method')}
+                className={inputClassName}
+                disabled={saving}
+              >
+                {DEPRECIATION_METHOD_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Useful Life (months)</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                {...register('useful_life_months', {
+                  setValueAs: toOptionalNumber,
+                  validate: (value, form) => {
+                    if (value === null || value === undefined) {
+                      return form.depreciation_method === 'none' || 'Useful life is required to depreciate the item';
+                    }
+                    return (Number.isInteger(value) && value > 0) || 'Useful life must be a whole number of months';
+                  },
+                })}
+                className={inputClassName}
+                disabled={saving}
+              />
+              {errors.useful_life_months && (
+                <p className="text-sm text-red-600 mt-1">{errors.useful_life_months.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Salvage Value</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                {...register('salvage_value', {
+                  setValueAs: value => toOptionalNumber(value) ?? 0,
+                  validate: (value, form) => {
+                    if (value === undefined || value < 0) return 'Salvage value cannot be negative';
+                    return form.purchase_cost === null || form.purchase_cost === undefined || value <= form.purchase_cost
+                      || 'Salvage value cannot exceed the purchase cost';
+                  },
+                })}
+                className={inputClassName}
+                disabled={saving}
+              />
+              {errors.salvage_value && (
+                <p className="text-sm text-red-600 mt-1">{errors.salvage_value.message}</p>
+              )}
+            </div>
+          </div>
+        </div>
+
         <div className="flex justify-end gap-3 pt-2">
           <button
             type="button"
@@ -0,0 +1,439 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ClockIcon, DocumentTextIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { historyService } from '../services/historyService';
+import { userService } from '../services/userService';
+import { ExportMenu } from '../components/ExportMenu';
+import { buildHistoryExport } from '../lib/exports';
+import { formatItemPlace } from '../lib/locations';
+import { formatCondition } from '../lib/conditions';
+import type { HistoryPage, HistoryQuery } from '../services/historyService';
+import type { History, Item, UserPublicData } from '../lib/supabase';
+
+const ACTION_OPTIONS = [
+  { value: 'all', label: 'All Actions' },
+  { value: 'created', label: 'Created' },
+  { value: 'edited', label: 'Edited' },
+  { value: 'requested_borrow', label: 'Requested Borrow' },
+  { value: 'requested_return', label: 'Requested Return' },
+  { value: 'borrowed', label: 'Borrowed' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'transferred', label: 'Transferred' },
+  { value: 'issued', label: 'Stock Issued' },
+  { value: 'received', label: 'Stock Received' },
+  { value: 'sent_to_maintenance', label: 'Sent to Maintenance' },
+  { value: 'serviced', label: 'Serviced' },
+  { value: 'attachment_added', label: 'Attachment Added' },
+  { value: 'attachment_removed', label: 'Attachment Removed' },
+];
+
+const STATUS_OPTIONS: { value: Item['status']; label: string }[] = [
+  { value: 'available', label: 'Available' },
+  { value: 'used', label: 'Used' },
+  { value: 'maintenance', label: 'Maintenance' },
+  { value: 'archived', label: 'Archived' },
+];
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+
+const MATERIAL_DEBOUNCE_MS = 300;
+
+function formatHistoryStatus(status: string): string {
+  return STATUS_OPTIONS.find(option => option.value === status)?.label ?? status;
+}
+
+// Date inputs are local calendar days, so the range runs from local midnight to the next one
+function toRangeStart(date: string): string | null {
+  return date ? new Date(`${date}T00:00:00`).toISOString() : null;
+}
+
+function toRangeEnd(date: string): string | null {
+  if (!date) return null;
+  const end = new Date(`${date}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+}
+
+export default function HistoryLog() {
+  const [page, setPage] = useState<HistoryPage>({ entries: [], total: 0 });
+  const [users, setUsers] = useState<UserPublicData[]>([]);
+  const [action, setAction] = useState('all');
+  const [performedBy, setPerformedBy] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [material, setMaterial] = useState('');
+  const [debouncedMaterial, setDebouncedMaterial] = useState('');
+  const [previousStatus, setPreviousStatus] = useState('');
+  const [newStatus, setNewStatus] = useState('');
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZE_OPTIONS[0]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    userService.getAllUsers()
+      .then(setUsers)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load users'));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedMaterial(material.trim());
+      setPageIndex(0);
+    }, MATERIAL_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [material]);
+
+  // Filtering, paging and counting run in the database; only the visible page is loaded
+  const query = useMemo<HistoryQuery>(() => ({
+    action: action === 'all' ? null : action as History['action'],
+    performedBy: performedBy || null,
+    from: toRangeStart(fromDate),
+    to: toRangeEnd(toDate),
+    material: debouncedMaterial,
+    previousStatus: (previousStatus || null) as Item['status'] | null,
+    newStatus: (newStatus || null) as Item['status'] | null,
+  }), [action, performedBy, fromDate, toDate, debouncedMaterial, previousStatus, newStatus]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFetching(true);
+
+    historyService.getHistoryPage(query, pageIndex, pageSize)
+      .then(result => {
+        if (cancelled) return;
+        setPage(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLoading(false);
+        setFetching(false);
+      });
+
+    // A newer query has started meanwhile, its result wins
+    return () => {
+      cancelled = true;
+    };
+  }, [query, pageIndex, pageSize]);
+
+  const pageCount = Math.max(1, Math.ceil(page.total / pageSize));
+
+  // Every filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setter(e.target.value);
+    setPageIndex(0);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Exports every entry matching the filters, not just the visible page
+  const getExportTable = async () => {
+    const userName = users.find(user => user.id === performedBy)?.username;
+    const filters = [
+      `Action: ${ACTION_OPTIONS.find(option => option.value === action)?.label}`,
+      userName ? `User: ${userName}` : null,
+      fromDate || toDate ? `Period: ${fromDate || '…'} to ${toDate || '…'}` : null,
+      debouncedMaterial ? `Material: "${debouncedMaterial}"` : null,
+      previousStatus || newStatus
+        ? `Status: ${previousStatus ? formatHistoryStatus(previousStatus) : 'Any'} → ${newStatus ? formatHistoryStatus(newStatus) : 'Any'}`
+        : null,
+    ].filter(Boolean).join(' · ');
+    return buildHistoryExport(await historyService.getMatchingHistory(query), 'Audit Log', filters, true);
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 sm:h-24 sm:w-24 md:h-32 md:w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const inputClassName = 'border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 placeholder-gray-500 dark:placeholder-slate-400 text-sm sm:text-base';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6">
+        <div className="border-l-4 border-blue-500 pl-3 sm:pl-4">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100 mb-1 flex items-center space-x-2">
+            <ClockIcon className="h-7 w-7 text-blue-600 dark:text-blue-400" />
+            <span>Audit Log</span>
+          </h1>
+          <p className="text-gray-600 dark:text-slate-400 text-sm sm:text-base">
+            Everything that happened to every item and stock level, newest first. Click a row for its full details.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800 text-sm sm:text-base">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-col lg:flex-row lg:items-center space-y-3 lg:space-y-0 lg:space-x-3">
+          <input
+            type="text"
+            placeholder="Filter by material..."
+            value={material}
+            onChange={(e) => setMaterial(e.target.value)}
+            className={`${inputClassName} w-full lg:flex-1`}
+          />
+          <select
+            value={action}
+            onChange={updateFilter(setAction)}
+            className={inputClassName}
+            aria-label="Action"
+          >
+            {ACTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={performedBy}
+            onChange={updateFilter(setPerformedBy)}
+            className={inputClassName}
+            aria-label="Performed by"
+          >
+            <option value="">All Users</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.username}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col lg:flex-row lg:items-center space-y-3 lg:space-y-0 lg:space-x-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={fromDate}
+              onChange={updateFilter(setFromDate)}
+              className={`${inputClassName} flex-1`}
+              aria-label="From date"
+            />
+            <span className="text-gray-500 dark:text-slate-400 text-sm">to</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={updateFilter(setToDate)}
+              className={`${inputClassName} flex-1`}
+              aria-label="To date"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={previousStatus}
+              onChange={updateFilter(setPreviousStatus)}
+              className={`${inputClassName} flex-1`}
+              aria-label="Previous status"
+            >
+              <option value="">Any status</option>
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <span className="text-gray-500 dark:text-slate-400 text-sm">→</span>
+            <select
+              value={newStatus}
+              onChange={updateFilter(setNewStatus)}
+              className={`${inputClassName} flex-1`}
+              aria-label="New status"
+            >
+              <option value="">Any status</option>
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="lg:ml-auto">
+            <ExportMenu getTable={getExportTable} fileName="audit-log" disabled={page.total === 0} />
+          </div>
+        </div>
+      </div>
+
+      <div className={`bg-white dark:bg-slate-800 rounded-xl shadow-lg overflow-hidden transition-opacity ${fetching ? 'opacity-60' : ''}`}>
+        {page.entries.length === 0 ? (
+          <div className="text-center py-8 sm:py-12">
+            <DocumentTextIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">No history records match your filters.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-slate-700">
+                <tr>
+                  <th className="w-8 px-2 py-3" aria-label="Expand"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase tracking-wider">Performed By</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase tracking-wider">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {page.entries.map(entry => {
+                  const isExpanded = expanded.has(entry.id);
+
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() => toggleExpanded(entry.id)}
+                        className="hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer transition-colors"
+                        aria-expanded={isExpanded}
+                      >
+                        <td className="px-2 py-3 text-gray-400 dark:text-slate-500">
+                          <ChevronRightIcon className={`h-4 w-4 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`} />
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-slate-400">{formatDate(entry.timestamp)}</td>
+                        <td className="px-4 py-3">
+                          <div className="font-medium text-gray-900 dark:text-slate-100">{entry.item?.material || entry.stock_level?.material?.name || 'Unknown item'}</div>
+                          {entry.stock_level ? (
+                            <div className="text-xs text-gray-500 dark:text-slate-400">{formatItemPlace(entry.stock_level)}</div>
+                          ) : (
+                            <div className="text-xs font-mono text-gray-500 dark:text-slate-400">{entry.item?.serial_number}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-900 dark:text-slate-100">
+                          {ACTION_OPTIONS.find(option => option.value === entry.action)?.label || entry.action}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-slate-300">{entry.performed_by_user?.username || 'Unknown User'}</td>
+                        <td className="px-4 py-3 text-gray-600 dark:text-slate-400">
+                          <div className={isExpanded ? '' : 'line-clamp-1'}>{entry.details}</div>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50 dark:bg-slate-900/40">
+                          <td></td>
+                          <td colSpan={5} className="px-4 py-3">
+                            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                              <div className="sm:col-span-2">
+                                <dt className="text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Details</dt>
+                                <dd className="text-gray-900 dark:text-slate-100 whitespace-pre-wrap break-words">{entry.details || 'No details recorded'}</dd>
+                              </div>
+                              <div>
+                                <dt className="text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Status Change</dt>
+                                <dd className="text-gray-900 dark:text-slate-100">
+                                  {entry.previous_status || entry.new_status
+                                    ? `${entry.previous_status ? formatHistoryStatus(entry.previous_status) : 'None'} → ${entry.new_status ? formatHistoryStatus(entry.new_status) : 'None'}`
+                                    : 'No status change'}
+                                </dd>
+                              </div>
+                              {entry.reason && (
+                                <div>
+                                  <dt className="text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Reason</dt>
+                                  <dd className="text-pink-700 dark:text-pink-300 break-words">{entry.reason}</dd>
+                                </div>
+                              )}
+                              {entry.condition && (
+                                <div>
+                                  <dt className="text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Condition</dt>
+                                  <dd className="text-gray-900 dark:text-slate-100 break-words">
+                                    {formatCondition(entry.condition)}
+                                    {entry.condition_notes && ` — ${entry.condition_notes}`}
+                                  </dd>
+                                </div>
+                              )}
+                              <div className="sm:col-span-2">
+                                <Link
+                                  to={entry.item_id ? `/items/history/${entry.item_id}` : '/stock'}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                  {entry.item_id ? "Open this item's history" : 'Open stock'}
+                                </Link>
+                              </div>
+                            </dl>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Page controls */}
+        {page.total > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-3 sm:px-6 py-3 border-t border-gray-200 dark:border-slate-700 text-sm text-gray-600 dark:text-slate-400">
+            <span>
+              Showing {pageIndex * pageSize + 1}–{Math.min(page.total, (pageIndex + 1) * pageSize)} of {page.total} entries
+            </span>
+            <div className="flex items-center justify-between sm:justify-end space-x-3">
+              <select
+                value={pageSize}
+                onChange={(e) => {
+                  setPageSize(Number(e.target.value));
+                  setPageIndex(0);
+                }}
+                className="border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {PAGE_SIZE_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size} per page</option>
+                ))}
+              </select>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => setPageIndex(prev => prev - 1)}
+                  disabled={pageIndex === 0}
+                  className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Previous page"
+                >
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </button>
+                <span className="whitespace-nowrap">
+                  Page {pageIndex + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={() => setPageIndex(prev => prev + 1)}
+                  disabled={pageIndex >= pageCount - 1}
+                  className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Next page"
+                >
+                  <ChevronRightIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowUpTrayIcon, ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { itemService } from '../services/itemService';
+import { materialService } from '../services/materialService';
+import { IMPORT_FIELDS, readImportFile, guessColumnMapping, buildImportRows, toCatalogNames } from '../lib/itemImport';
+import type { ImportSheet, ColumnMapping, ImportField } from '../lib/itemImport';
+
+export default function ImportItems() {
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ material: null, serial_number: null, description: null });
+  const [existingSerialNumbers, setExistingSerialNumbers] = useState<Set<string>>(new Set());
+  const [catalogNames, setCatalogNames] = useState<Set<string> | null>(null);
+  const [loadingCatalog, setLoadingCatalog] = useState(true);
+  const [catalogFailed, setCatalogFailed] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [showOnlyIssues, setShowOnlyIssues] = useState(false);
+
+  const rows = useMemo(
+    () => (sheet && !loadingCatalog ? buildImportRows(sheet, mapping, existingSerialNumbers, catalogNames) : []),
+    [sheet, mapping, existingSerialNumbers, catalogNames, loadingCatalog]
+  );
+  const validRows = rows.filter(row => row.issues.length === 0);
+  const unlinkedCount = validRows.filter(row => row.warnings.length > 0).length;
+  const invalidCount = rows.length - validRows.length;
+  const visibleRows = showOnlyIssues ? rows.filter(row => row.issues.length > 0) : rows;
+  const missingRequired = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === null);
+
+  // Without the catalog, rows can still be imported; they are just not checked for a match
+  const loadCatalog = async () => {
+    setLoadingCatalog(true);
+    setCatalogFailed(false);
+
+    try {
+      setCatalogNames(toCatalogNames(await materialService.getMaterials()));
+    } catch (err) {
+      console.error('Failed to load the material catalog:', err);
+      setCatalogNames(null);
+      setCatalogFailed(true);
+    } finally {
+      setLoadingCatalog(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  // Look up serial numbers that are already in the warehouse whenever the serial column changes
+  useEffect(() => {
+    const serialColumn = mapping.serial_number;
+    if (!sheet || serialColumn === null) {
+      setExistingSerialNumbers(new Set());
+      return;
+    }
+
+    const serialNumbers = [...new Set(
+      sheet.rows.map(row => (row[serialColumn] ?? '').trim()).filter(Boolean)
+    )];
+
+    let cancelled = false;
+    setChecking(true);
+    itemService.findExistingSerialNumbers(serialNumbers)
+      .then(existing => {
+        if (!cancelled) setExistingSerialNumbers(existing);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check serial numbers');
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sheet, mapping.serial_number]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    setError(null);
+    setImportedCount(null);
+
+    try {
+      const loaded = await readImportFile(file);
+      if (loaded.rows.length === 0) {
+        throw new Error('The file has a header row but no items');
+      }
+      setSheet(loaded);
+      setMapping(guessColumnMapping(loaded.headers));
+      setFileName(file.name);
+      setShowOnlyIssues(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const handleImport = async () => {
+    if (importing || checking || validRows.length === 0 || missingRequired.length > 0) return;
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const userId = localStorage.getItem('userId');
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const count = await itemService.importItems(validRows.map(row => row.data), userId);
+      setImportedCount(count);
+      setSheet(null);
+      setFileName(null);
+      setTimeout(() => navigate('/items'), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import items');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-5xl mx-auto px-2 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-6"
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6 space-y-4">
+        <div className="border-l-4 border-blue-500 pl-3 sm:pl-4">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100 mb-1">Import Items</h1>
+          <p className="text-gray-600 dark:text-slate-400 text-sm sm:text-base">
+            Upload a CSV or XLSX file with one item per row. The first row must contain column headers.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 rounded-md border border-red-200 dark:border-red-800 text-sm">
+            {error}
+          </div>
+        )}
+
+        {importedCount !== null && (
+          <div className="bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300 p-3 rounded-md border border-green-200 dark:border-green-800 text-sm">
+            {importedCount} item{importedCount === 1 ? '' : 's'} imported successfully! Redirecting...
+          </div>
+        )}
+
+        <label className="flex flex-col items-center justify-center w-full border-2 border-dashed border-gray-300 dark:border-slate-600 rounded-lg p-6 cursor-pointer hover:border-blue-400 dark:hover:border-blue-500 transition-colors">
+          {reading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          ) : (
+            <ArrowUpTrayIcon className="h-8 w-8 text-gray-400 dark:text-slate-500" />
+          )}
+          <span className="mt-2 text-sm text-gray-700 dark:text-slate-300">
+            {fileName ? `${fileName} — choose another file` : 'Choose a .csv or .xlsx file'}
+          </span>
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="hidden"
+            disabled={reading || importing}
+          />
+        </label>
+      </div>
+
+      {sheet && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Column mapping</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  {label} {required && <span className="text-red-500">*</span>}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 text-sm"
+                  disabled={importing}
+                >
+                  <option value="">{required ? 'Select a column' : 'Do not import'}</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {missingRequired.length > 0 ? (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Choose a column for {missingRequired.map(({ label }) => label).join(' and ')} to continue.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="flex items-center space-x-4 text-sm">
+                  <span className="flex items-center space-x-1 text-green-700 dark:text-green-400">
+                    <CheckCircleIcon className="h-5 w-5" />
+                    <span>{validRows.length} ready</span>
+                  </span>
+                  {unlinkedCount > 0 && (
+                    <span className="flex items-center space-x-1 text-amber-600 dark:text-amber-400">
+                      <ExclamationTriangleIcon className="h-5 w-5" />
+                      <span>{unlinkedCount} not in catalog (imported unlinked)</span>
+                    </span>
+                  )}
+                  {invalidCount > 0 && (
+                    <span className="flex items-center space-x-1 text-red-600 dark:text-red-400">
+                      <ExclamationTriangleIcon className="h-5 w-5" />
+                      <span>{invalidCount} with problems (skipped)</span>
+                    </span>
+                  )}
+                  {(checking || loadingCatalog) && (
+                    <span className="text-gray-500 dark:text-slate-400">Checking serial numbers and materials...</span>
+                  )}
+                  {catalogFailed && (
+                    <span className="flex items-center space-x-1 text-amber-600 dark:text-amber-400">
+                      <span>Materials could not be checked against the catalog.</span>
+                      <button
+                        type="button"
+                        onClick={loadCatalog}
+                        className="font-medium underline hover:text-amber-800 dark:hover:text-amber-300"
+                      >
+                        Retry
+                      </button>
+                    </span>
+                  )}
+                </div>
+                {invalidCount > 0 && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={showOnlyIssues}
+                      onChange={(e) => setShowOnlyIssues(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Show only rows with problems</span>
+                  </label>
+                )}
+              </div>
+
+              <div className="overflow-x-auto max-h-[28rem] overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-slate-700 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase">Material</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase">Serial Number</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase">Description</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-300 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                    {visibleRows.map(row => (
+                      <tr
+                        key={row.rowNumber}
+                        className={row.issues.length > 0 ? 'bg-red-50 dark:bg-red-900/10' : ''}
+                      >
+                        <td className="px-3 py-2 text-gray-500 dark:text-slate-400">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-slate-100">{row.data.material || '-'}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-slate-100">{row.data.serial_number || '-'}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-slate-400">{row.data.description || '-'}</td>
+                        <td className="px-3 py-2">
+                          {row.issues.length > 0 ? (
+                            <span className="text-red-600 dark:text-red-400">{row.issues.join(', ')}</span>
+                          ) : row.warnings.length > 0 ? (
+                            <span className="text-amber-600 dark:text-amber-400">Ready · {row.warnings.join(', ')}</span>
+                          ) : (
+                            <span className="text-green-700 dark:text-green-400">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => navigate('/items')}
+              className="px-4 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              disabled={importing}
+            >
+              Cancel
+            </button>
+            <motion.button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || checking || validRows.length === 0 || missingRequired.length > 0}
+              whileTap={{ scale: 0.98 }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              {importing ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  <span>Importing...</span>
+                </>
+              ) : (
+                <span>Import {validRows.length} item{validRows.length === 1 ? '' : 's'}</span>
+              )}
+            </motion.button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
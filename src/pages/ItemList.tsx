@@ -1,27 +1,63 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useReactTable, getCoreRowModel, flexRender } from '@tanstack/react-table';
+import type { ColumnDef, SortingState, PaginationState } from '@tanstack/react-table';
 import { itemService } from '../services/itemService';
+import type { ItemQuery, ItemSortColumn, ItemStatusFilter } from '../services/itemService';
 import { historyService } from '../services/historyService';
+import { attachmentService } from '../services/attachmentService';
+import { warehouseService } from '../services/warehouseService';
+import { customFieldService } from '../services/customFieldService';
 import { pendingRequestService } from '../services/pendingRequestService';
-import type { Item, PendingRequest } from '../lib/supabase';
+import type { Item, ItemCondition, Warehouse } from '../lib/supabase';
 import type { UserRole } from '../App';
 import { ArchiveModal } from '../components/ArchiveModal';
 import { UnarchiveModal } from '../components/UnarchiveModal';
 import { ItemDetailModal } from '../components/ItemDetailModal';
-import { ChevronDownIcon } from '@heroicons/react/24/outline';
+import { BorrowRequestModal } from '../components/BorrowRequestModal';
+import { ReturnRequestModal } from '../components/ReturnRequestModal';
+import { ServiceRecordModal } from '../components/ServiceRecordModal';
+import { BorrowCartModal } from '../components/BorrowCartModal';
+import { getDaysOverdue, formatDueDate } from '../lib/dates';
+import { useInventory } from '../hooks/useInventory';
+import { useItemPage } from '../hooks/useItemPage';
+import { LabelPrintModal } from '../components/LabelPrintModal';
+import { TransferModal } from '../components/TransferModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { buildItemsExport } from '../lib/exports';
+import { formatItemPlace } from '../lib/locations';
+import { formatCondition } from '../lib/conditions';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ShoppingCartIcon,
+  QrCodeIcon,
+} from '@heroicons/react/24/outline';
 
 interface ItemListProps {
   userRole: UserRole;
 }
 
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+
+// Wait for a pause in typing before searching the database
+const SEARCH_DEBOUNCE_MS = 300;
+
+const CENTERED_COLUMNS = new Set(['status', 'last_used_by', 'actions']);
+
 export default function ItemList({ userRole }: ItemListProps) {
-  const [items, setItems] = useState<Item[]>([]);
-  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { pendingRequests, revision, error: inventoryError, refresh: loadData } = useInventory({ withItems: false });
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState('all');
+  const [filter, setFilter] = useState<ItemStatusFilter>('all');
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseFilter, setWarehouseFilter] = useState<string | null>(null);
   const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'created_at', desc: true }]);
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: PAGE_SIZE_OPTIONS[0] });
   const [showArchiveModal, setShowArchiveModal] = useState(false);
   const [showUnarchiveModal, setShowUnarchiveModal] = useState(false);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
@@ -30,25 +66,34 @@ export default function ItemList({ userRole }: ItemListProps) {
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [detailItem, setDetailItem] = useState<Item | null>(null);
   const [requesting, setRequesting] = useState<Set<string>>(new Set());
+  const [borrowItem, setBorrowItem] = useState<Item | null>(null);
+  const [returnItem, setReturnItem] = useState<Item | null>(null);
+  const [serviceItem, setServiceItem] = useState<Item | null>(null);
+  const [cart, setCart] = useState<Item[]>([]);
+  const [showCartModal, setShowCartModal] = useState(false);
+  const [submittingCart, setSubmittingCart] = useState(false);
+  const [labelSelection, setLabelSelection] = useState<Item[]>([]);
+  const [showLabelModal, setShowLabelModal] = useState(false);
+  const [transferItems, setTransferItems] = useState<Item[]>([]);
+  const [showTransferModal, setShowTransferModal] = useState(false);
   const [showFilterDropdown, setShowFilterDropdown] = useState(false);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Long press handling for mobile
   const longPressTimer = useRef<NodeJS.Timeout | null>(null);
   const [isLongPress, setIsLongPress] = useState(false);
   const filterDropdownRef = useRef<HTMLDivElement>(null);
 
-  const filterOptions = [
+  const filterOptions: { value: ItemStatusFilter; label: string }[] = [
     { value: 'all', label: 'Active Items' },
     { value: 'available', label: 'Available' },
     { value: 'used', label: 'Used' },
+    { value: 'overdue', label: 'Overdue' },
+    { value: 'maintenance', label: 'Maintenance' },
     { value: 'archived', label: 'Archived' },
   ];
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
   // Close dropdown when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -63,46 +108,101 @@ export default function ItemList({ userRole }: ItemListProps) {
     };
   }, []);
 
-  const loadData = async () => {
-    try {
-      setError(null);
-      const [itemsData, pendingRequestsData] = await Promise.all([
-        itemService.getItems(),
-        pendingRequestService.getAllPendingRequests()
-      ]);
-      setItems(itemsData);
-      setPendingRequests(pendingRequestsData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    warehouseService.getWarehouses()
+      .then(setWarehouses)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load warehouses'));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPagination(prev => ({ ...prev, pageIndex: 0 }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Filtering, search and sorting run in the database; only the visible page is loaded
+  const query = useMemo<ItemQuery>(() => ({
+    status: filter,
+    warehouseId: warehouseFilter,
+    search: debouncedSearch,
+    sortBy: (sorting[0]?.id ?? 'created_at') as ItemSortColumn,
+    ascending: sorting[0] ? !sorting[0].desc : false,
+  }), [filter, warehouseFilter, debouncedSearch, sorting]);
+
+  const { items, total, loading, fetching, error: pageError } = useItemPage(
+    query,
+    pagination.pageIndex,
+    pagination.pageSize,
+    revision
+  );
+  const loadError = pageError || inventoryError;
+  const pageCount = Math.max(1, Math.ceil(total / pagination.pageSize));
+
+  // Archiving or borrowing can shrink the result set below the current page
+  useEffect(() => {
+    if (!fetching && pagination.pageIndex >= pageCount) {
+      setPagination(prev => ({ ...prev, pageIndex: pageCount - 1 }));
     }
-  };
+  }, [fetching, pagination.pageIndex, pageCount]);
+
+  // Notifications link to /items?item=<id>, which opens that item's details
+  const linkedItemId = searchParams.get('item');
+  useEffect(() => {
+    if (!linkedItemId) return;
+
+    itemService.getItemById(linkedItemId)
+      .then(linkedItem => {
+        if (linkedItem) {
+          setDetailItem(linkedItem);
+          setShowDetailModal(true);
+        } else {
+          setError('The linked item could not be found');
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the linked item'));
+    setSearchParams({}, { replace: true });
+  }, [linkedItemId, setSearchParams]);
 
-  const filteredItems = useMemo(() => {
-    return items.filter(item => {
-      const searchLower = search.toLowerCase();
-      const matchesSearch =
-        item.material.toLowerCase().includes(searchLower) ||
-        (item.description && item.description.toLowerCase().includes(searchLower)) ||
-        item.serial_number.toLowerCase().includes(searchLower) ||
-        (item.last_used_by_user?.username && item.last_used_by_user.username.toLowerCase().includes(searchLower));
+  // Items can leave the cart's eligibility after a reload (e.g. borrowed by someone else)
+  const cartItems = useMemo(() => {
+    return cart
+      .map(cartItem => items.find(item => item.id === cartItem.id) || cartItem)
+      .filter(item => item.status === 'available');
+  }, [items, cart]);
 
-      if (filter === 'archived') return item.status === 'archived' && matchesSearch;
-      if (filter === 'all') return item.status !== 'archived' && matchesSearch;
-      return matchesSearch && item.status === filter;
-    });
-  }, [items, filter, search]);
+  const isInCart = (itemId: string) => cart.some(item => item.id === itemId);
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearch(e.target.value);
   };
 
-  const handleFilterChange = (newFilter: string) => {
+  const handleFilterChange = (newFilter: ItemStatusFilter) => {
     setFilter(newFilter);
+    setPagination(prev => ({ ...prev, pageIndex: 0 }));
     setShowFilterDropdown(false);
   };
 
+  const handleWarehouseFilterChange = (warehouseId: string) => {
+    setWarehouseFilter(warehouseId || null);
+    setPagination(prev => ({ ...prev, pageIndex: 0 }));
+  };
+
+  const openTransfer = (transferred: Item[]) => {
+    setTransferItems(transferred);
+    setShowTransferModal(true);
+  };
+
+  const handleTransferred = async () => {
+    setShowTransferModal(false);
+    // The selection holds the items as they were before the move
+    if (transferItems === labelSelection) {
+      setLabelSelection([]);
+    }
+    await loadData();
+  };
+
   const handleArchive = (item: Item, e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
     setSelectedItem(item);
@@ -193,6 +293,12 @@ export default function ItemList({ userRole }: ItemListProps) {
     }
   };
 
+  // An item in maintenance comes back through a service record
+  const handleBackInService = (item: Item, e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+    setServiceItem(item);
+  };
+
   // Mobile long press handlers
   const handleTouchStart = (item: Item) => {
     setIsLongPress(false);
@@ -283,37 +389,88 @@ export default function ItemList({ userRole }: ItemListProps) {
       return;
     }
 
+    if (item.status !== 'available' && item.status !== 'used') {
+      setError('Cannot perform action on this item');
+      return;
+    }
+
+    // Borrowing needs an expected return date first
+    if (actionType === 'use') {
+      setBorrowItem(item);
+      return;
+    }
+
+    // Returning needs a condition report first
+    setReturnItem(item);
+  };
+
+  const confirmBorrow = async (expectedReturnDate: string) => {
+    if (!borrowItem) return;
+
+    await submitRequest(borrowItem, 'use', expectedReturnDate);
+    setBorrowItem(null);
+  };
+
+  const confirmReturn = async (condition: ItemCondition, notes: string, photos: File[]) => {
+    if (!returnItem) return;
+
+    await submitRequest(returnItem, 'return', undefined, condition, notes, photos);
+    setReturnItem(null);
+  };
+
+  const submitRequest = async (
+    item: Item,
+    actionType: 'use' | 'return',
+    expectedReturnDate?: string,
+    returnCondition?: ItemCondition,
+    returnNotes?: string,
+    returnPhotos: File[] = []
+  ) => {
+    const currentUserId = localStorage.getItem('userId');
+    if (!currentUserId) {
+      setError('User not authenticated');
+      return;
+    }
+
     setRequesting(prev => new Set(prev).add(item.id));
 
     try {
-      let historyAction: string;
-      
-      if (item.status === 'available') {
-        historyAction = 'requested_borrow';
-      } else if (item.status === 'used') {
-        historyAction = 'requested_return';
-      } else {
-        setError('Cannot perform action on this item');
-        return;
-      }
+      const historyAction = actionType === 'use' ? 'requested_borrow' : 'requested_return';
 
       // Create pending request
-      await pendingRequestService.createRequest({
+      const request = await pendingRequestService.createRequest({
         item_id: item.id,
         requested_by: currentUserId,
-        action_type: actionType
+        action_type: actionType,
+        expected_return_date: expectedReturnDate,
+        return_condition: returnCondition,
+        return_notes: returnNotes
       });
 
       // Add history entry
       await historyService.createEntry({
         item_id: item.id,
-        action: historyAction as any,
+        action: historyAction,
         performed_by: currentUserId,
-        details: `${historyAction === 'requested_borrow' ? 'Requested to borrow' : 'Requested to return'} item`,
+        details: historyAction === 'requested_borrow'
+          ? `Requested to borrow item (expected return: ${expectedReturnDate})`
+          : `Requested to return item (condition: ${formatCondition(returnCondition ?? 'good').toLowerCase()})`,
         previous_status: item.status,
-        new_status: item.status // Status doesn't change until approved
+        new_status: item.status, // Status doesn't change until approved
+        condition: returnCondition,
+        condition_notes: returnNotes
       });
 
+      // Condition report photos go with the request they document
+      for (const file of returnPhotos) {
+        await attachmentService.uploadAttachment({
+          item_id: item.id,
+          file,
+          uploaded_by: currentUserId,
+          pending_request_id: request.id
+        });
+      }
+
       await loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process request');
@@ -326,6 +483,93 @@ export default function ItemList({ userRole }: ItemListProps) {
     }
   };
 
+  // Withdraw the current user's pending request for an item
+  const handleCancelRequest = async (item: Item, e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+
+    const currentUserId = localStorage.getItem('userId');
+    if (!currentUserId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    const request = pendingRequests.find(request =>
+      request.item_id === item.id && request.requested_by === currentUserId
+    );
+    if (!request || requesting.has(item.id)) return;
+
+    setRequesting(prev => new Set(prev).add(item.id));
+
+    try {
+      await pendingRequestService.cancelRequest(request.id, currentUserId);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel request');
+    } finally {
+      setRequesting(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(item.id);
+        return newSet;
+      });
+    }
+  };
+
+  // Items picked for label printing, kept while paging through the list
+  const isLabelSelected = (itemId: string) => labelSelection.some(item => item.id === itemId);
+
+  const allVisibleSelected = items.length > 0 && items.every(item => isLabelSelected(item.id));
+
+  const toggleLabelSelection = (item: Item) => {
+    setLabelSelection(prev => prev.some(selected => selected.id === item.id)
+      ? prev.filter(selected => selected.id !== item.id)
+      : [...prev, item]
+    );
+  };
+
+  const toggleAllVisibleLabels = () => {
+    const visibleIds = items.map(item => item.id);
+    setLabelSelection(prev => allVisibleSelected
+      ? prev.filter(selected => !visibleIds.includes(selected.id))
+      : [...prev, ...items.filter(item => !prev.some(selected => selected.id === item.id))]
+    );
+  };
+
+  const toggleCartItem = (item: Item, e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+
+    setCart(prev => prev.some(cartItem => cartItem.id === item.id)
+      ? prev.filter(cartItem => cartItem.id !== item.id)
+      : [...prev, item]
+    );
+  };
+
+  const confirmCart = async (purpose: string, expectedReturnDate: string) => {
+    const currentUserId = localStorage.getItem('userId');
+    if (!currentUserId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setSubmittingCart(true);
+    try {
+      await pendingRequestService.createBatchRequest({
+        item_ids: cartItems.map(item => item.id),
+        requested_by: currentUserId,
+        purpose,
+        expected_return_date: expectedReturnDate
+      });
+
+      setCart([]);
+      setShowCartModal(false);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit requests');
+      setShowCartModal(false);
+    } finally {
+      setSubmittingCart(false);
+    }
+  };
+
   const canUserActOnItem = (item: Item) => {
     const currentUserId = localStorage.getItem('userId');
     
@@ -337,7 +581,7 @@ export default function ItemList({ userRole }: ItemListProps) {
       // Only borrower can return and only if they don't have a pending return request
       return item.last_used_by === currentUserId && !hasUserPendingRequest(item.id, 'return');
     }
-    return false; // Cannot act on archived items
+    return false; // Cannot act on archived items or items out for service
   };
 
   const getBorrowReturnButtonText = (item: Item) => {
@@ -353,6 +597,9 @@ export default function ItemList({ userRole }: ItemListProps) {
       }
       return 'Return';
     }
+    if (item.status === 'maintenance') {
+      return 'In Maintenance';
+    }
     return '';
   };
 
@@ -372,14 +619,23 @@ export default function ItemList({ userRole }: ItemListProps) {
     return 'bg-gray-400 text-gray-600 cursor-not-allowed';
   };
 
-  const getStatusDisplay = (status: string) => {
+  const getStatusDisplay = (item: Item) => {
+    const daysOverdue = getDaysOverdue(item);
+    if (daysOverdue > 0) {
+      return {
+        label: `Overdue ${daysOverdue}d`,
+        color: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300'
+      };
+    }
+
     const statusMap: Record<string, { label: string; color: string }> = {
       available: { label: 'Available', color: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
       used: { label: 'Used', color: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+      maintenance: { label: 'Maintenance', color: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
       archived: { label: 'Archived', color: 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300' }
     };
 
-    return statusMap[status] || { label: status, color: 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300' };
+    return statusMap[item.status] || { label: item.status, color: 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300' };
   };
 
   const getCurrentFilterLabel = () => {
@@ -387,6 +643,263 @@ export default function ItemList({ userRole }: ItemListProps) {
     return currentOption ? currentOption.label : 'Select Filter';
   };
 
+  // Exports every item matching the filter and search, not just the visible page
+  const getExportTable = async () => {
+    const warehouseName = warehouses.find(warehouse => warehouse.id === warehouseFilter)?.name;
+    const subtitle = `Filter: ${getCurrentFilterLabel()}${warehouseName ? ` · Warehouse: ${warehouseName}` : ''}${query.search ? ` · Search: "${query.search}"` : ''}`;
+    const [items, fields] = await Promise.all([
+      itemService.getMatchingItems(query),
+      customFieldService.getFields()
+    ]);
+    return buildItemsExport(items, subtitle, fields);
+  };
+
+  const renderActions = (item: Item) => {
+    const isRequesting = requesting.has(item.id);
+
+    return (
+      <div className="flex justify-center space-x-2">
+        {userRole === 'admin' ? (
+          <>
+            {item.status !== 'archived' && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={(e) => handleEditClick(item.id, e)}
+                className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-colors min-w-[70px]"
+              >
+                Edit
+              </motion.button>
+            )}
+
+            {item.status === 'maintenance' && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={(e) => handleBackInService(item, e)}
+                className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-200 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30 rounded-md transition-colors min-w-[70px] whitespace-nowrap"
+              >
+                Back in Service
+              </motion.button>
+            )}
+
+            {item.status === 'archived' ? (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={(e) => handleUnarchive(item, e)}
+                disabled={unarchiving}
+                className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-200 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[70px]"
+              >
+                {unarchiving && selectedItem?.id === item.id ? (
+                  <>
+                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-green-600 mr-1"></div>
+                    Restoring...
+                  </>
+                ) : (
+                  'Restore'
+                )}
+              </motion.button>
+            ) : (
+              item.status !== 'used' && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={(e) => handleArchive(item, e)}
+                  disabled={archiving}
+                  className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[70px]"
+                >
+                  {archiving && selectedItem?.id === item.id ? (
+                    <>
+                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-red-600 mr-1"></div>
+                      Archiving...
+                    </>
+                  ) : (
+                    'Archive'
+                  )}
+                </motion.button>
+              )
+            )}
+          </>
+        ) : userRole === 'manager' ? (
+          // Manager has no actions - view only
+          <span className="text-xs text-gray-400 dark:text-slate-500 italic bg-gray-50 dark:bg-slate-700 px-3 py-1.5 rounded-md min-w-[70px] text-center">
+            View Only
+          </span>
+        ) : (
+          // employee actions
+          item.status !== 'archived' && (
+            <>
+              {item.status === 'available' && canUserActOnItem(item) && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={(e) => toggleCartItem(item, e)}
+                  className={`inline-flex items-center justify-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                    isInCart(item.id)
+                      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 hover:bg-blue-200'
+                      : 'bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+                  }`}
+                  title={isInCart(item.id) ? 'Remove from cart' : 'Add to cart'}
+                >
+                  <ShoppingCartIcon className="h-3.5 w-3.5 mr-1" />
+                  {isInCart(item.id) ? 'In Cart' : 'Add'}
+                </motion.button>
+              )}
+              <motion.button
+                whileHover={canUserActOnItem(item) && !isRequesting ? { scale: 1.05 } : {}}
+                whileTap={canUserActOnItem(item) && !isRequesting ? { scale: 0.95 } : {}}
+                onClick={(e) => canUserActOnItem(item) && !isRequesting && handleBorrowReturn(item, e)}
+                disabled={!canUserActOnItem(item) || isRequesting}
+                className={`inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium rounded-md transition-colors min-w-[80px] ${getBorrowReturnButtonColor(item)} ${
+                  !canUserActOnItem(item) || isRequesting ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                {isRequesting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-current mr-1"></div>
+                    Processing...
+                  </>
+                ) : (
+                  getBorrowReturnButtonText(item)
+                )}
+              </motion.button>
+              {hasUserPendingRequest(item.id, item.status === 'available' ? 'use' : 'return') && !isRequesting && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={(e) => handleCancelRequest(item, e)}
+                  className="inline-flex items-center justify-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors bg-red-50 text-red-700 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-300 dark:hover:bg-red-900/40"
+                  title="Cancel your pending request"
+                >
+                  Cancel
+                </motion.button>
+              )}
+            </>
+          )
+        )}
+      </div>
+    );
+  };
+
+  const columns: ColumnDef<Item>[] = [
+    ...(userRole === 'admin' ? [{
+      id: 'select',
+      enableSorting: false,
+      header: () => (
+        <input
+          type="checkbox"
+          checked={allVisibleSelected}
+          onChange={toggleAllVisibleLabels}
+          className="h-4 w-4 rounded border-gray-300 dark:border-slate-500 text-blue-600 focus:ring-blue-500"
+          title="Select all items on this page for label printing"
+        />
+      ),
+      cell: ({ row }) => (
+        <input
+          type="checkbox"
+          checked={isLabelSelected(row.original.id)}
+          onChange={() => toggleLabelSelection(row.original)}
+          className="h-4 w-4 rounded border-gray-300 dark:border-slate-500 text-blue-600 focus:ring-blue-500"
+        />
+      ),
+    } satisfies ColumnDef<Item>] : []),
+    {
+      id: 'material',
+      header: 'Material',
+      cell: ({ row }) => (
+        <div className="text-sm font-medium text-gray-900 dark:text-slate-100 max-w-[200px] truncate" title={row.original.material}>
+          {row.original.material}
+        </div>
+      ),
+    },
+    {
+      id: 'description',
+      header: 'Description',
+      cell: ({ row }) => (
+        <div className="text-sm text-gray-600 dark:text-slate-400 max-w-[200px] truncate" title={row.original.description || '-'}>
+          {row.original.description || '-'}
+        </div>
+      ),
+    },
+    {
+      id: 'serial_number',
+      header: 'Serial Number',
+      cell: ({ row }) => (
+        <div className="text-sm font-mono text-gray-900 dark:text-slate-100 px-2 py-1 rounded">
+          {row.original.serial_number}
+        </div>
+      ),
+    },
+    {
+      id: 'location',
+      enableSorting: false,
+      header: 'Location',
+      cell: ({ row }) => (
+        <div className="text-sm text-gray-600 dark:text-slate-400 max-w-[160px] truncate" title={formatItemPlace(row.original) || '-'}>
+          {formatItemPlace(row.original) || '-'}
+        </div>
+      ),
+    },
+    {
+      id: 'status',
+      header: 'Status',
+      cell: ({ row }) => {
+        const statusInfo = getStatusDisplay(row.original);
+        return (
+          <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${statusInfo.color}`}>
+            <span className="w-2 h-2 rounded-full bg-current mr-2"></span>
+            {statusInfo.label}
+          </span>
+        );
+      },
+    },
+    {
+      id: 'last_used_by',
+      enableSorting: false,
+      header: 'Last Used By',
+      cell: ({ row }) => {
+        const item = row.original;
+        return (
+          <>
+            <div className="text-sm text-gray-600 dark:text-slate-400 max-w-[120px] truncate mx-auto" title={item.last_used_by_user?.username || '-'}>
+              {item.last_used_by_user?.username || '-'}
+            </div>
+            {item.status === 'used' && item.due_date && (
+              <div className="text-xs text-gray-400 dark:text-slate-500 mt-0.5">
+                Due {formatDueDate(item.due_date)}
+              </div>
+            )}
+          </>
+        );
+      },
+    },
+    {
+      id: 'actions',
+      enableSorting: false,
+      header: 'Actions',
+      cell: ({ row }) => renderActions(row.original),
+    },
+  ];
+
+  const table = useReactTable({
+    data: items,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: item => item.id,
+    manualSorting: true,
+    manualPagination: true,
+    enableSortingRemoval: false,
+    sortDescFirst: false,
+    rowCount: total,
+    state: { sorting, pagination },
+    onSortingChange: (updater) => {
+      setSorting(updater);
+      setPagination(prev => ({ ...prev, pageIndex: 0 }));
+    },
+    onPaginationChange: setPagination,
+  });
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -401,6 +914,12 @@ export default function ItemList({ userRole }: ItemListProps) {
       animate={{ opacity: 1, y: 0 }}
       className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
     >
+      {loadError && (
+        <div className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800 text-sm sm:text-base">
+          {loadError}
+        </div>
+      )}
+
       {error && (
         <motion.div
           initial={{ opacity: 0 }}
@@ -425,54 +944,73 @@ export default function ItemList({ userRole }: ItemListProps) {
           <motion.input
             whileFocus={{ scale: 1.02 }}
             type="text"
-            placeholder={userRole === 'employee' ? "Search items to borrow/return..." : "Search by material, description, serial number, or user..."}
+            placeholder={userRole === 'employee' ? "Search items to borrow/return..." : "Search by material, description, serial number or custom field..."}
             className="w-full border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all duration-200 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 placeholder-gray-500 dark:placeholder-slate-400 text-sm sm:text-base"
             value={search}
             onChange={handleSearchChange}
           />
         </div>
         
-        {/* Custom dropdown with proper alignment */}
-        <div className="relative w-full lg:w-auto" ref={filterDropdownRef}>
-          <motion.button
-            whileFocus={{ scale: 1.02 }}
-            onClick={() => setShowFilterDropdown(!showFilterDropdown)}
-            className="w-full lg:w-auto border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 pr-10 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all duration-200 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 cursor-pointer text-sm sm:text-base text-left flex items-center justify-between min-w-[140px] lg:min-w-[160px]"
-          >
-            <span className="truncate">{getCurrentFilterLabel()}</span>
-            <ChevronDownIcon 
-              className={`h-4 w-4 text-gray-400 dark:text-slate-500 transition-transform duration-200 flex-shrink-0 ml-3 ${
-                showFilterDropdown ? 'rotate-180' : ''
-              }`} 
-            />
-          </motion.button>
-
-          {/* Dropdown menu - Fixed alignment */}
-          <AnimatePresence>
-            {showFilterDropdown && (
-              <motion.div
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                transition={{ duration: 0.2 }}
-                className="absolute left-0 lg:right-0 lg:left-auto mt-2 w-full lg:w-48 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-slate-600 py-1 z-50"
-              >
-                {filterOptions.map((option) => (
-                  <button
-                    key={option.value}
-                    onClick={() => handleFilterChange(option.value)}
-                    className={`w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors ${
-                      filter === option.value 
-                        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium' 
-                        : 'text-gray-700 dark:text-slate-300'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
-              </motion.div>
-            )}
-          </AnimatePresence>
+        <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3 w-full lg:w-auto">
+          {/* Custom dropdown with proper alignment */}
+          <div className="relative w-full lg:w-auto" ref={filterDropdownRef}>
+            <motion.button
+              whileFocus={{ scale: 1.02 }}
+              onClick={() => setShowFilterDropdown(!showFilterDropdown)}
+              className="w-full lg:w-auto border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 pr-10 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all duration-200 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 cursor-pointer text-sm sm:text-base text-left flex items-center justify-between min-w-[140px] lg:min-w-[160px]"
+            >
+              <span className="truncate">{getCurrentFilterLabel()}</span>
+              <ChevronDownIcon 
+                className={`h-4 w-4 text-gray-400 dark:text-slate-500 transition-transform duration-200 flex-shrink-0 ml-3 ${
+                  showFilterDropdown ? 'rotate-180' : ''
+                }`} 
+              />
+            </motion.button>
+
+            {/* Dropdown menu - Fixed alignment */}
+            <AnimatePresence>
+              {showFilterDropdown && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="absolute left-0 lg:right-0 lg:left-auto mt-2 w-full lg:w-48 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-slate-600 py-1 z-50"
+                >
+                  {filterOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleFilterChange(option.value)}
+                      className={`w-full text-left px-3 sm:px-4 py-2 sm:py-3 text-sm hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors ${
+                        filter === option.value 
+                          ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium' 
+                          : 'text-gray-700 dark:text-slate-300'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          {warehouses.length > 0 && (
+            <select
+              value={warehouseFilter ?? ''}
+              onChange={(e) => handleWarehouseFilterChange(e.target.value)}
+              className="w-full lg:w-auto border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 text-sm sm:text-base"
+            >
+              <option value="">All Warehouses</option>
+              {warehouses.map(warehouse => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
+          )}
+
+          {userRole !== 'employee' && (
+            <ExportMenu getTable={getExportTable} fileName="inventory" />
+          )}
         </div>
       </div>
 
@@ -481,7 +1019,7 @@ export default function ItemList({ userRole }: ItemListProps) {
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-blue-800 dark:text-blue-300 leading-relaxed">
             💡 <strong>Tip:</strong> 
-            <span className="hidden lg:inline"> Double-click on any item row to view the complete history of that material.</span>
+            <span className="hidden lg:inline"> Double-click on any item row to view the complete history of that material. Tick items to print QR asset labels for them or transfer them to another location.</span>
             <span className="lg:hidden"> Tap on any item to view details, or long press (hold) to view history.</span>
             {filter === 'archived' && (
               <span className="block mt-1">
@@ -511,7 +1049,7 @@ export default function ItemList({ userRole }: ItemListProps) {
         <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-green-800 dark:text-green-300 leading-relaxed">
             📋 <strong>How to use:</strong> 
-            <span className="hidden sm:inline"> Search for items and tap on any item to view details and access borrow/return actions. Once you submit a request, the button will show "Pending" until an admin approves or rejects it.</span>
+            <span className="hidden sm:inline"> Search for items and tap on any item to view details and access borrow/return actions. Once you submit a request, the button will show "Pending" until an admin approves or rejects it, and you can cancel it in the meantime. To borrow several items at once, add them to your cart and submit them together.</span>
             <span className="sm:hidden"> Search for items and tap them to view details and access actions. Submitted requests will show as "Pending".</span>
           </p>
         </div>
@@ -528,157 +1066,67 @@ export default function ItemList({ userRole }: ItemListProps) {
         <div className="hidden lg:block overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-50 dark:bg-slate-700">
-              <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Material
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Description
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Serial Number
-                </th>
-                <th className="px-6 py-4 text-center text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Status
-                </th>
-                <th className="px-6 py-4 text-center text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Last Used By
-                </th>
-                <th className="px-6 py-4 text-center text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600">
-                  Actions
-                </th>
-              </tr>
+              {table.getHeaderGroups().map(headerGroup => (
+                <tr key={headerGroup.id}>
+                  {headerGroup.headers.map(header => {
+                    const sortDirection = header.column.getIsSorted();
+                    const centered = CENTERED_COLUMNS.has(header.column.id);
+
+                    return (
+                      <th
+                        key={header.id}
+                        className={header.column.id === 'select'
+                          ? 'pl-6 py-4 w-10 border-b border-gray-200 dark:border-slate-600'
+                          : `px-6 py-4 ${centered ? 'text-center' : 'text-left'} text-xs font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-600`
+                        }
+                      >
+                        {header.column.getCanSort() ? (
+                          <button
+                            type="button"
+                            onClick={header.column.getToggleSortingHandler()}
+                            className={`inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-900 dark:hover:text-slate-100 transition-colors ${centered ? 'mx-auto' : ''}`}
+                            title="Sort"
+                          >
+                            <span>{flexRender(header.column.columnDef.header, header.getContext())}</span>
+                            {sortDirection === 'asc' && <ChevronUpIcon className="h-3.5 w-3.5" />}
+                            {sortDirection === 'desc' && <ChevronDownIcon className="h-3.5 w-3.5" />}
+                          </button>
+                        ) : (
+                          flexRender(header.column.columnDef.header, header.getContext())
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              ))}
             </thead>
-            <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-slate-700">
+            <tbody className={`bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-slate-700 transition-opacity ${fetching ? 'opacity-60' : ''}`}>
               <AnimatePresence>
-                {filteredItems.map((item) => {
-                  const statusInfo = getStatusDisplay(item.status);
-                  const isRequesting = requesting.has(item.id);
-                  
-                  return (
-                    <motion.tr
-                      key={item.id}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -20 }}
-                      transition={{ duration: 0.2 }}
-                      className="transition-colors duration-150 hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer"
-                      onClick={() => handleRowClick(item)}
-                      onDoubleClick={() => handleRowDoubleClick(item)}
-                      title={userRole === 'admin' || userRole === 'manager' ? 'Double-click to view history' : 'Double-click to view details'}
-                    >
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900 dark:text-slate-100 max-w-[200px] truncate" title={item.material}>
-                          {item.material}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-600 dark:text-slate-400 max-w-[200px] truncate" title={item.description || '-'}>
-                          {item.description || '-'}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-mono text-gray-900 dark:text-slate-100 px-2 py-1 rounded">
-                          {item.serial_number}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-center">
-                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${statusInfo.color}`}>
-                          <span className="w-2 h-2 rounded-full bg-current mr-2"></span>
-                          {statusInfo.label}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-center">
-                        <div className="text-sm text-gray-600 dark:text-slate-400 max-w-[120px] truncate mx-auto" title={item.last_used_by_user?.username || '-'}>
-                          {item.last_used_by_user?.username || '-'}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-center">
-                        <div className="flex justify-center space-x-2">
-                          {userRole === 'admin' ? (
-                            <>
-                              {item.status !== 'archived' && (
-                                <motion.button
-                                  whileHover={{ scale: 1.05 }}
-                                  whileTap={{ scale: 0.95 }}
-                                  onClick={(e) => handleEditClick(item.id, e)}
-                                  className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-colors min-w-[70px]"
-                                >
-                                  Edit
-                                </motion.button>
-                              )}
-                              
-                              {item.status === 'archived' ? (
-                                <motion.button
-                                  whileHover={{ scale: 1.05 }}
-                                  whileTap={{ scale: 0.95 }}
-                                  onClick={(e) => handleUnarchive(item, e)}
-                                  disabled={unarchiving}
-                                  className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-200 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[70px]"
-                                >
-                                  {unarchiving && selectedItem?.id === item.id ? (
-                                    <>
-                                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-green-600 mr-1"></div>
-                                      Restoring...
-                                    </>
-                                  ) : (
-                                    'Restore'
-                                  )}
-                                </motion.button>
-                              ) : (
-                                item.status !== 'used' && (
-                                  <motion.button
-                                    whileHover={{ scale: 1.05 }}
-                                    whileTap={{ scale: 0.95 }}
-                                    onClick={(e) => handleArchive(item, e)}
-                                    disabled={archiving}
-                                    className="inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[70px]"
-                                  >
-                                    {archiving && selectedItem?.id === item.id ? (
-                                      <>
-                                        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-red-600 mr-1"></div>
-                                        Archiving...
-                                      </>
-                                    ) : (
-                                      'Archive'
-                                    )}
-                                  </motion.button>
-                                )
-                              )}
-                            </>
-                          ) : userRole === 'manager' ? (
-                            // Manager has no actions - view only
-                            <span className="text-xs text-gray-400 dark:text-slate-500 italic bg-gray-50 dark:bg-slate-700 px-3 py-1.5 rounded-md min-w-[70px] text-center">
-                              View Only
-                            </span>
-                          ) : (
-                            // employee actions
-                            item.status !== 'archived' && (
-                              <motion.button
-                                whileHover={canUserActOnItem(item) && !isRequesting ? { scale: 1.05 } : {}}
-                                whileTap={canUserActOnItem(item) && !isRequesting ? { scale: 0.95 } : {}}
-                                onClick={(e) => canUserActOnItem(item) && !isRequesting && handleBorrowReturn(item, e)}
-                                disabled={!canUserActOnItem(item) || isRequesting}
-                                className={`inline-flex items-center justify-center px-4 py-1.5 text-xs font-medium rounded-md transition-colors min-w-[80px] ${getBorrowReturnButtonColor(item)} ${
-                                  !canUserActOnItem(item) || isRequesting ? 'opacity-50 cursor-not-allowed' : ''
-                                }`}
-                              >
-                                {isRequesting ? (
-                                  <>
-                                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-current mr-1"></div>
-                                    Processing...
-                                  </>
-                                ) : (
-                                  getBorrowReturnButtonText(item)
-                                )}
-                              </motion.button>
-                            )
-                          )}
-                        </div>
-                      </td>
-                    </motion.tr>
-                  );
-                })}
+                {table.getRowModel().rows.map(row => (
+                  <motion.tr
+                    key={row.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -20 }}
+                    transition={{ duration: 0.2 }}
+                    className="transition-colors duration-150 hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer"
+                    onClick={() => handleRowClick(row.original)}
+                    onDoubleClick={() => handleRowDoubleClick(row.original)}
+                    title={userRole === 'admin' || userRole === 'manager' ? 'Double-click to view history' : 'Double-click to view details'}
+                  >
+                    {row.getVisibleCells().map(cell => (
+                      cell.column.id === 'select' ? (
+                        <td key={cell.id} className="pl-6 py-4 w-10" onClick={(e) => e.stopPropagation()} onDoubleClick={(e) => e.stopPropagation()}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </td>
+                      ) : (
+                        <td key={cell.id} className={`px-6 py-4 whitespace-nowrap ${CENTERED_COLUMNS.has(cell.column.id) ? 'text-center' : ''}`}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </td>
+                      )
+                    ))}
+                  </motion.tr>
+                ))}
               </AnimatePresence>
             </tbody>
           </table>
@@ -694,10 +1142,10 @@ export default function ItemList({ userRole }: ItemListProps) {
                 </th>
               </tr>
             </thead>
-            <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+            <tbody className={`bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700 transition-opacity ${fetching ? 'opacity-60' : ''}`}>
               <AnimatePresence>
-                {filteredItems.map((item) => {
-                  const statusInfo = getStatusDisplay(item.status);
+                {table.getRowModel().rows.map(({ original: item }) => {
+                  const statusInfo = getStatusDisplay(item);
                   
                   return (
                     <motion.tr
@@ -726,11 +1174,21 @@ export default function ItemList({ userRole }: ItemListProps) {
                               ● {statusInfo.label}
                             </span>
                           </div>
+                          {formatItemPlace(item) && (
+                            <div className="text-xs text-gray-500 dark:text-slate-400 mt-1 truncate">
+                              Location: {formatItemPlace(item)}
+                            </div>
+                          )}
                           {item.last_used_by_user && (
                             <div className="text-xs text-gray-500 dark:text-slate-400 mt-1">
                               Last used by: {item.last_used_by_user.username}
                             </div>
                           )}
+                          {item.status === 'used' && item.due_date && (
+                            <div className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                              Due: {formatDueDate(item.due_date)}
+                            </div>
+                          )}
                         </div>
                       </td>
                     </motion.tr>
@@ -741,7 +1199,7 @@ export default function ItemList({ userRole }: ItemListProps) {
           </table>
         </div>
 
-        {filteredItems.length === 0 && !loading && (
+        {items.length === 0 && !fetching && (
           <div className="text-center py-8 sm:py-12">
             <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">
               {search ? 'No items found matching your search.' : 'No items found matching your criteria.'}
@@ -753,6 +1211,47 @@ export default function ItemList({ userRole }: ItemListProps) {
             )}
           </div>
         )}
+
+        {/* Page controls */}
+        {total > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-3 sm:px-6 py-3 border-t border-gray-200 dark:border-slate-700 text-sm text-gray-600 dark:text-slate-400">
+            <span>
+              Showing {pagination.pageIndex * pagination.pageSize + 1}–{Math.min(total, (pagination.pageIndex + 1) * pagination.pageSize)} of {total} items
+            </span>
+            <div className="flex items-center justify-between sm:justify-end space-x-3">
+              <select
+                value={pagination.pageSize}
+                onChange={(e) => table.setPageSize(Number(e.target.value))}
+                className="border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {PAGE_SIZE_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size} per page</option>
+                ))}
+              </select>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                  className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Previous page"
+                >
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </button>
+                <span className="whitespace-nowrap">
+                  Page {pagination.pageIndex + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                  className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Next page"
+                >
+                  <ChevronRightIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </motion.div>
 
       {/* Item Detail Modal - Pass pending requests */}
@@ -767,9 +1266,141 @@ export default function ItemList({ userRole }: ItemListProps) {
         onEdit={handleEditClick}
         onArchive={handleArchive}
         onUnarchive={handleUnarchive}
+        onTransfer={userRole === 'admin' ? (item) => openTransfer([item]) : undefined}
         pendingRequests={pendingRequests}
+        isInCart={detailItem ? isInCart(detailItem.id) : false}
+        onToggleCart={userRole === 'employee' ? toggleCartItem : undefined}
+      />
+
+      {/* Label printing selection - Only for admin */}
+      {userRole === 'admin' && labelSelection.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-gray-200 dark:border-slate-600 px-4 py-3 flex items-center justify-between"
+        >
+          <div className="flex items-center space-x-2 min-w-0">
+            <QrCodeIcon className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+            <span className="text-sm font-medium text-gray-800 dark:text-slate-200 truncate">
+              {labelSelection.length} item{labelSelection.length === 1 ? '' : 's'} selected
+            </span>
+          </div>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={() => setLabelSelection([])}
+              className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-slate-300 hover:text-gray-800 dark:hover:text-slate-100 rounded-md transition-colors"
+            >
+              Clear
+            </button>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => openTransfer(labelSelection)}
+              className="px-3 py-1.5 text-xs font-medium border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-700 rounded-md transition-colors"
+            >
+              Transfer
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowLabelModal(true)}
+              className="px-3 py-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+            >
+              Print Labels
+            </motion.button>
+          </div>
+        </motion.div>
+      )}
+
+      <LabelPrintModal
+        isOpen={showLabelModal}
+        onClose={() => setShowLabelModal(false)}
+        items={labelSelection}
+      />
+
+      <TransferModal
+        isOpen={showTransferModal}
+        items={transferItems}
+        onClose={() => setShowTransferModal(false)}
+        onTransferred={handleTransferred}
       />
 
+      {/* Borrow Cart - Only for employee */}
+      {userRole === 'employee' && cartItems.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-gray-200 dark:border-slate-600 px-4 py-3 flex items-center justify-between"
+        >
+          <div className="flex items-center space-x-2 min-w-0">
+            <ShoppingCartIcon className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+            <span className="text-sm font-medium text-gray-800 dark:text-slate-200 truncate">
+              {cartItems.length} item{cartItems.length === 1 ? '' : 's'} in cart
+            </span>
+          </div>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={() => setCart([])}
+              className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-slate-300 hover:text-gray-800 dark:hover:text-slate-100 rounded-md transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => setShowCartModal(true)}
+              className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+            >
+              Review & Submit
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {userRole === 'employee' && (
+        <BorrowCartModal
+          isOpen={showCartModal}
+          onClose={() => setShowCartModal(false)}
+          items={cartItems}
+          onRemoveItem={(itemId) => setCart(prev => prev.filter(item => item.id !== itemId))}
+          onConfirm={confirmCart}
+          isLoading={submittingCart}
+        />
+      )}
+
+      {/* Borrow Request Modal - Only for employee */}
+      {userRole === 'employee' && (
+        <BorrowRequestModal
+          isOpen={borrowItem !== null}
+          onClose={() => setBorrowItem(null)}
+          onConfirm={confirmBorrow}
+          isLoading={borrowItem ? requesting.has(borrowItem.id) : false}
+          itemName={borrowItem ? `${borrowItem.material} (${borrowItem.serial_number})` : undefined}
+        />
+      )}
+
+      {/* Return Request Modal - Only for employee */}
+      {userRole === 'employee' && (
+        <ReturnRequestModal
+          isOpen={returnItem !== null}
+          onClose={() => setReturnItem(null)}
+          onConfirm={confirmReturn}
+          isLoading={returnItem ? requesting.has(returnItem.id) : false}
+          itemName={returnItem ? `${returnItem.material} (${returnItem.serial_number})` : undefined}
+        />
+      )}
+
+      {/* Service Record Modal - Only for admin, puts items in maintenance back into service */}
+      {userRole === 'admin' && (
+        <ServiceRecordModal
+          isOpen={serviceItem !== null}
+          item={serviceItem}
+          onClose={() => setServiceItem(null)}
+          onSaved={() => {
+            setServiceItem(null);
+            loadData();
+          }}
+        />
+      )}
+
       {/* Archive Modal - Only for admin */}
       {userRole === 'admin' && (
         <ArchiveModal
@@ -0,0 +1,390 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  CubeIcon,
+  PlusIcon,
+  PencilIcon,
+  LinkIcon,
+  MagnifyingGlassIcon,
+  AdjustmentsHorizontalIcon
+} from '@heroicons/react/24/outline';
+import { materialService } from '../services/materialService';
+import { MaterialPicker } from '../components/MaterialPicker';
+import { MaterialFormModal } from '../components/MaterialFormModal';
+import { CategoryFieldsModal } from '../components/CategoryFieldsModal';
+import { clusterMaterials } from '../lib/materialClusters';
+import type { MaterialCluster } from '../lib/materialClusters';
+import type { Material, MaterialCategory } from '../lib/supabase';
+
+// Each cluster is identified by its most used spelling
+function getClusterKey(cluster: MaterialCluster): string {
+  return cluster.variants[0].material;
+}
+
+export default function MaterialCatalog() {
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [categories, setCategories] = useState<MaterialCategory[]>([]);
+  const [clusters, setClusters] = useState<MaterialCluster[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [showFields, setShowFields] = useState(false);
+  // Cluster whose selected variants become a new catalog entry once the form is saved
+  const [newEntryCluster, setNewEntryCluster] = useState<MaterialCluster | null>(null);
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string[]>>({});
+  const [targets, setTargets] = useState<Record<string, string | null>>({});
+  const [linkingKey, setLinkingKey] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      setError(null);
+      const [catalog, categoryList, unlinked] = await Promise.all([
+        materialService.getMaterials(),
+        materialService.getCategories(),
+        materialService.getUnlinkedMaterials()
+      ]);
+      const nextClusters = clusterMaterials(unlinked, catalog);
+
+      setMaterials(catalog);
+      setCategories(categoryList);
+      setClusters(nextClusters);
+      // Every variant starts selected and the closest catalog entry is suggested
+      setSelectedVariants(Object.fromEntries(
+        nextClusters.map(cluster => [getClusterKey(cluster), cluster.variants.map(variant => variant.material)])
+      ));
+      setTargets(Object.fromEntries(
+        nextClusters.map(cluster => [getClusterKey(cluster), cluster.matchedMaterial?.id ?? null])
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the material catalog');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Only serialized entries can describe items
+  const serializedMaterials = useMemo(
+    () => materials.filter(material => material.stock_type === 'serialized'),
+    [materials]
+  );
+
+  const filteredMaterials = useMemo(() => {
+    const searchLower = search.toLowerCase();
+    return materials.filter(material =>
+      !search ||
+      material.name.toLowerCase().includes(searchLower) ||
+      material.category?.name.toLowerCase().includes(searchLower) ||
+      material.manufacturer?.toLowerCase().includes(searchLower) ||
+      material.model?.toLowerCase().includes(searchLower)
+    );
+  }, [materials, search]);
+
+  const unlinkedItemCount = clusters.reduce((sum, cluster) => sum + cluster.itemCount, 0);
+
+  const openForm = (material: Material | null, cluster: MaterialCluster | null = null) => {
+    setEditingMaterial(material);
+    setNewEntryCluster(cluster);
+    setShowForm(true);
+  };
+
+  const toggleVariant = (key: string, name: string) => {
+    setSelectedVariants(prev => {
+      const current = prev[key] || [];
+      return {
+        ...prev,
+        [key]: current.includes(name) ? current.filter(entry => entry !== name) : [...current, name]
+      };
+    });
+  };
+
+  const linkCluster = async (cluster: MaterialCluster, materialId: string) => {
+    const key = getClusterKey(cluster);
+    const names = selectedVariants[key] || [];
+    if (names.length === 0) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+
+    setLinkingKey(key);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const linkedCount = await materialService.linkItems(materialId, names, userId);
+      setSuccess(`Linked ${linkedCount} item${linkedCount === 1 ? '' : 's'} to the catalog`);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link items');
+    } finally {
+      setLinkingKey(null);
+    }
+  };
+
+  const handleSaved = async (material: Material) => {
+    setShowForm(false);
+
+    if (newEntryCluster) {
+      await linkCluster(newEntryCluster, material.id);
+    } else {
+      setSuccess(`Saved "${material.name}"`);
+      await loadData();
+    }
+  };
+
+  const handleFormClose = () => {
+    setShowForm(false);
+    // A category may have been created before saving the material failed
+    loadData();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 sm:h-24 sm:w-24 md:h-32 md:w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100">
+          Material Catalog
+        </h1>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowFields(true)}
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors text-sm sm:text-base flex items-center space-x-2"
+          >
+            <AdjustmentsHorizontalIcon className="h-4 w-4" />
+            <span>Custom Fields</span>
+          </button>
+          <button
+            onClick={() => openForm(null)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm sm:text-base flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Material</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800"
+        >
+          <div className="flex justify-between items-start">
+            <span className="text-sm sm:text-base">{error}</span>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-800 dark:text-red-200 hover:text-red-900 dark:hover:text-red-100 font-medium ml-2 flex-shrink-0"
+            >
+              ✕
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {success && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300 p-3 sm:p-4 rounded-md border border-green-200 dark:border-green-800"
+        >
+          <div className="flex justify-between items-start">
+            <span className="text-sm sm:text-base">{success}</span>
+            <button
+              onClick={() => setSuccess(null)}
+              className="text-green-800 dark:text-green-200 hover:text-green-900 dark:hover:text-green-100 font-medium ml-2 flex-shrink-0"
+            >
+              ✕
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Catalog Table */}
+      <div className="bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden border border-gray-100 dark:border-slate-700">
+        <div className="p-4 border-b border-gray-100 dark:border-slate-700">
+          <div className="relative max-w-md">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 dark:text-slate-500" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, category, manufacturer or model..."
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full divide-y divide-gray-200 dark:divide-slate-700">
+            <thead className="bg-gray-100 dark:bg-slate-700">
+              <tr>
+                <th className="px-4 xl:px-6 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Name</th>
+                <th className="px-4 xl:px-6 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Category</th>
+                <th className="px-4 xl:px-6 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Unit</th>
+                <th className="px-4 xl:px-6 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Manufacturer</th>
+                <th className="px-4 xl:px-6 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Model</th>
+                <th className="px-4 xl:px-6 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+              {filteredMaterials.map(material => (
+                <tr key={material.id} className="transition-colors duration-150 hover:bg-slate-100 dark:hover:bg-slate-700">
+                  <td className="px-4 xl:px-6 py-3 text-sm font-medium text-gray-900 dark:text-slate-100">
+                    {material.name}
+                    {material.stock_type === 'consumable' && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300">
+                        Consumable
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 xl:px-6 py-3 text-sm text-gray-700 dark:text-slate-300">
+                    {material.category?.name || <span className="text-gray-400 dark:text-slate-500">Uncategorized</span>}
+                  </td>
+                  <td className="px-4 xl:px-6 py-3 text-sm text-center text-gray-700 dark:text-slate-300">{material.unit}</td>
+                  <td className="px-4 xl:px-6 py-3 text-sm text-gray-700 dark:text-slate-300">{material.manufacturer || '-'}</td>
+                  <td className="px-4 xl:px-6 py-3 text-sm text-gray-700 dark:text-slate-300">{material.model || '-'}</td>
+                  <td className="px-4 xl:px-6 py-3 text-center">
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => openForm(material)}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 p-2 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                      title="Edit Material"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </motion.button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredMaterials.length === 0 && (
+          <div className="text-center py-8 sm:py-12">
+            <CubeIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">
+              {materials.length === 0 ? 'The catalog is empty.' : 'No materials match your search.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Unlinked Materials */}
+      {clusters.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-slate-100">Unlinked Materials</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              {unlinkedItemCount} item{unlinkedItemCount === 1 ? '' : 's'} still use a free-text material.
+              Similar spellings are grouped together; link each group to a catalog entry.
+            </p>
+          </div>
+
+          {clusters.map(cluster => {
+            const key = getClusterKey(cluster);
+            const selected = selectedVariants[key] || [];
+            const target = targets[key] ?? null;
+            const isLinking = linkingKey === key;
+
+            return (
+              <div
+                key={key}
+                className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4 grid gap-4 lg:grid-cols-2"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                    {cluster.itemCount} item{cluster.itemCount === 1 ? '' : 's'}
+                  </p>
+                  <div className="space-y-1">
+                    {cluster.variants.map(variant => (
+                      <label key={variant.material} className="flex items-center space-x-2 text-sm text-gray-900 dark:text-slate-100">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(variant.material)}
+                          onChange={() => toggleVariant(key, variant.material)}
+                          disabled={isLinking}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="break-all">"{variant.material}"</span>
+                        <span className="text-xs text-gray-500 dark:text-slate-400">({variant.item_count})</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300">Link to catalog entry</label>
+                  <MaterialPicker
+                    materials={serializedMaterials}
+                    value={target}
+                    onChange={(material) => setTargets(prev => ({ ...prev, [key]: material?.id ?? null }))}
+                    disabled={isLinking}
+                  />
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <button
+                      onClick={() => target && linkCluster(cluster, target)}
+                      disabled={!target || selected.length === 0 || linkingKey !== null}
+                      className="bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center space-x-1"
+                    >
+                      {isLinking ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      ) : (
+                        <LinkIcon className="h-4 w-4" />
+                      )}
+                      <span>{isLinking ? 'Linking...' : 'Link Selected'}</span>
+                    </button>
+                    <button
+                      onClick={() => openForm(null, cluster)}
+                      disabled={selected.length === 0 || linkingKey !== null}
+                      className="border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 px-3 py-1.5 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center space-x-1"
+                    >
+                      <PlusIcon className="h-4 w-4" />
+                      <span>New Entry from Group</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <MaterialFormModal
+        isOpen={showForm}
+        material={editingMaterial}
+        categories={categories}
+        initialName={newEntryCluster?.suggestedName}
+        onClose={handleFormClose}
+        onSaved={handleSaved}
+      />
+
+      <CategoryFieldsModal
+        isOpen={showFields}
+        categories={categories}
+        onClose={() => setShowFields(false)}
+      />
+    </motion.div>
+  );
+}
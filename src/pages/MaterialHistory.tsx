@@ -1,42 +1,102 @@
 import { useParams, useNavigate } from 'react-router-dom';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeftIcon, ClockIcon, UserIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, ClockIcon, UserIcon, DocumentTextIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
 import { itemService } from '../services/itemService';
 import { historyService } from '../services/historyService';
-import type { Item, History } from '../lib/supabase';
+import { maintenanceService } from '../services/maintenanceService';
+import type { ScheduledService } from '../services/maintenanceService';
+import { ExportMenu } from '../components/ExportMenu';
+import { ServiceRecordModal } from '../components/ServiceRecordModal';
+import { MaintenancePlanModal } from '../components/MaintenancePlanModal';
+import { buildHistoryExport } from '../lib/exports';
+import { formatItemPlace } from '../lib/locations';
+import { formatCondition, getConditionColor } from '../lib/conditions';
+import { formatDueDate, getDaysUntil, formatDaysUntil } from '../lib/dates';
+import type { Item, History, MaintenancePlan } from '../lib/supabase';
+import type { UserRole } from '../App';
 
-export default function MaterialHistory() {
+interface MaterialHistoryProps {
+  userRole?: UserRole;
+}
+
+export default function MaterialHistory({ userRole }: MaterialHistoryProps) {
   const { id } = useParams();
   const navigate = useNavigate();
   const [item, setItem] = useState<Item | null>(null);
   const [history, setHistory] = useState<History[]>([]);
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [schedule, setSchedule] = useState<ScheduledService[]>([]);
+  const [showServiceModal, setShowServiceModal] = useState(false);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [maintenanceReason, setMaintenanceReason] = useState('');
+  const [savingMaintenance, setSavingMaintenance] = useState(false);
+  const [maintenanceError, setMaintenanceError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const loadData = async () => {
-      if (!id) return;
-
-      try {
-        setError(null);
-        const [itemData, historyData] = await Promise.all([
-          itemService.getItemById(id),
-          historyService.getItemHistory(id)
-        ]);
-
-        setItem(itemData);
-        setHistory(historyData);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const loadData = useCallback(async () => {
+    if (!id) return;
 
-    loadData();
+    try {
+      setError(null);
+      const [itemData, historyData, scheduleData] = await Promise.all([
+        itemService.getItemById(id),
+        historyService.getItemHistory(id),
+        maintenanceService.getSchedule({ itemId: id })
+      ]);
+
+      setItem(itemData);
+      setHistory(historyData);
+      setSchedule(scheduleData);
+      setPlans(itemData ? await maintenanceService.getPlansForItem(itemData) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load data');
+    } finally {
+      setLoading(false);
+    }
   }, [id]);
 
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSendToMaintenance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || savingMaintenance) return;
+
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setMaintenanceError('User not authenticated');
+      return;
+    }
+
+    setSavingMaintenance(true);
+    setMaintenanceError(null);
+    try {
+      await maintenanceService.sendToMaintenance(item, userId, maintenanceReason);
+      setMaintenanceReason('');
+      await loadData();
+    } catch (err) {
+      setMaintenanceError(err instanceof Error ? err.message : 'Failed to send item to maintenance');
+    } finally {
+      setSavingMaintenance(false);
+    }
+  };
+
+  const handleDeletePlan = async (plan: MaintenancePlan) => {
+    const scope = plan.material_id ? `every ${item?.material} item` : 'this item';
+    if (!window.confirm(`Delete the "${plan.name}" plan for ${scope}? Recorded services are kept.`)) return;
+
+    setMaintenanceError(null);
+    try {
+      await maintenanceService.deletePlan(plan.id);
+      await loadData();
+    } catch (err) {
+      setMaintenanceError(err instanceof Error ? err.message : 'Failed to delete plan');
+    }
+  };
+
   const getActionIcon = (action: string) => {
     switch (action) {
       case 'created':
@@ -51,6 +111,18 @@ export default function MaterialHistory() {
         return '🗄️';
       case 'rejected':
         return '❌';
+      case 'cancelled':
+        return '↩️';
+      case 'transferred':
+        return '🚚';
+      case 'serviced':
+        return '🔧';
+      case 'sent_to_maintenance':
+        return '🛠️';
+      case 'attachment_added':
+        return '📎';
+      case 'attachment_removed':
+        return '🗑️';
       case 'requested_borrow':
         return '📋';
       case 'requested_return':
@@ -74,6 +146,16 @@ export default function MaterialHistory() {
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300';
       case 'rejected':
         return 'bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300';
+      case 'cancelled':
+        return 'bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-300';
+      case 'transferred':
+        return 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/30 dark:text-cyan-300';
+      case 'serviced':
+      case 'sent_to_maintenance':
+        return 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300';
+      case 'attachment_added':
+      case 'attachment_removed':
+        return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300';
       case 'requested_borrow':
       case 'requested_return':
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300';
@@ -147,6 +229,10 @@ export default function MaterialHistory() {
             <ArrowLeftIcon className="h-4 w-4 sm:h-5 sm:w-5" />
             <span>Back to Items</span>
           </button>
+          <ExportMenu
+            getTable={() => buildHistoryExport(history, `Material History: ${item.material}`, `Serial Number: ${item.serial_number}`)}
+            fileName={`history-${item.serial_number}`}
+          />
         </div>
 
         <div className="border-l-4 border-blue-500 pl-3 sm:pl-4">
@@ -157,10 +243,14 @@ export default function MaterialHistory() {
             <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-500 break-all">
               Serial Number: <span className="font-mono font-medium">{item.serial_number}</span>
             </p>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-slate-500 break-words">
+              Location: {formatItemPlace(item) || 'Not assigned'}
+            </p>
             <div className="flex items-center space-x-2 mt-2">
               <span className={`inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium ${
                 item.status === 'available' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
                 item.status === 'used' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' :
+                item.status === 'maintenance' ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' :
                 item.status === 'archived' ? 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300' :
                 item.status === 'pending_borrow' || item.status === 'pending_return' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' :
                 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300'
@@ -172,6 +262,109 @@ export default function MaterialHistory() {
         </div>
       </div>
 
+      {/* Maintenance */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100 flex items-center space-x-2">
+            <WrenchScrewdriverIcon className="h-5 w-5 sm:h-6 sm:w-6 text-amber-600 dark:text-amber-400" />
+            <span>Maintenance</span>
+          </h2>
+          {userRole === 'admin' && item.status !== 'archived' && (
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setShowPlanModal(true)}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-colors"
+              >
+                Add Plan
+              </button>
+              {item.status !== 'used' && (
+                <button
+                  onClick={() => setShowServiceModal(true)}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+                >
+                  Record Service
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {maintenanceError && (
+          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md border border-red-200 dark:border-red-800 text-sm">
+            {maintenanceError}
+          </div>
+        )}
+
+        {plans.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No maintenance plans for this item.</p>
+        ) : (
+          <div className="space-y-2">
+            {plans.map(plan => {
+              const due = schedule.find(entry => entry.plan_id === plan.id);
+              const daysUntil = due ? getDaysUntil(due.next_due_date) : null;
+              return (
+                <div key={plan.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-gray-50 dark:bg-slate-700 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-slate-100">
+                      {plan.name}
+                      <span className="font-normal text-gray-500 dark:text-slate-400">
+                        {' '}· every {plan.interval_days} days · {plan.material_id ? `all ${item.material} items` : 'this item'}
+                      </span>
+                    </p>
+                    {due && (
+                      <p className="text-xs text-gray-500 dark:text-slate-400">
+                        Last: {formatDueDate(due.last_service_date)} · Next: {formatDueDate(due.next_due_date)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {daysUntil !== null && (
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        daysUntil < 0
+                          ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                          : daysUntil <= 30
+                            ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                            : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                      }`}>
+                        {formatDaysUntil(daysUntil)}
+                      </span>
+                    )}
+                    {userRole === 'admin' && (
+                      <button
+                        onClick={() => handleDeletePlan(plan)}
+                        className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {userRole === 'admin' && item.status === 'available' && (
+          <form onSubmit={handleSendToMaintenance} className="flex flex-col sm:flex-row gap-2 mt-4 pt-4 border-t border-gray-200 dark:border-slate-700">
+            <input
+              type="text"
+              value={maintenanceReason}
+              onChange={(e) => setMaintenanceReason(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400"
+              placeholder="Reason, e.g. Sent to the lab for calibration"
+              disabled={savingMaintenance}
+            />
+            <button
+              type="submit"
+              disabled={savingMaintenance || !maintenanceReason.trim()}
+              className="px-3 py-2 text-sm font-medium text-white bg-amber-500 hover:bg-amber-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {savingMaintenance ? 'Saving...' : 'Send to Maintenance'}
+            </button>
+          </form>
+        )}
+      </div>
+
       {/* History Timeline */}
       <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6">
         <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100 mb-4 sm:mb-6 flex items-center space-x-2">
@@ -206,7 +399,7 @@ export default function MaterialHistory() {
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-2 space-y-1 sm:space-y-0">
                     <div className="flex flex-col sm:flex-row sm:items-center space-y-1 sm:space-y-0 sm:space-x-3">
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getActionColor(entry.action)} w-fit`}>
-                        {entry.action.charAt(0).toUpperCase() + entry.action.slice(1).replace('_', ' ')}
+                        {entry.action.charAt(0).toUpperCase() + entry.action.slice(1).replace(/_/g, ' ')}
                       </span>
                       {entry.previous_status && entry.new_status && (
                         <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 break-words">
@@ -230,6 +423,23 @@ export default function MaterialHistory() {
                   {entry.details && (
                     <p className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 mt-1 break-words leading-relaxed">{entry.details}</p>
                   )}
+
+                  {entry.condition && (
+                    <div className="flex flex-wrap items-center gap-2 mt-1">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getConditionColor(entry.condition)}`}>
+                        Condition: {formatCondition(entry.condition)}
+                      </span>
+                      {entry.condition_notes && (
+                        <span className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 break-words">{entry.condition_notes}</span>
+                      )}
+                    </div>
+                  )}
+
+                  {entry.reason && (
+                    <p className="text-xs sm:text-sm text-pink-700 dark:text-pink-300 mt-1 break-words">
+                      <span className="font-medium">Reason:</span> {entry.reason}
+                    </p>
+                  )}
                 </div>
               </motion.div>
             ))}
@@ -256,6 +466,26 @@ export default function MaterialHistory() {
           </p>
         </div>
       </div>
+
+      <ServiceRecordModal
+        isOpen={showServiceModal}
+        item={item}
+        onClose={() => setShowServiceModal(false)}
+        onSaved={() => {
+          setShowServiceModal(false);
+          loadData();
+        }}
+      />
+
+      <MaintenancePlanModal
+        isOpen={showPlanModal}
+        item={item}
+        onClose={() => setShowPlanModal(false)}
+        onSaved={() => {
+          setShowPlanModal(false);
+          loadData();
+        }}
+      />
     </motion.div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { InboxStackIcon, UserIcon } from '@heroicons/react/24/outline';
+import { pendingRequestService } from '../services/pendingRequestService';
+import { historyService } from '../services/historyService';
+import { stockService } from '../services/stockService';
+import { formatDueDate } from '../lib/dates';
+import { formatItemPlace } from '../lib/locations';
+import type { History, Item, StockLevel } from '../lib/supabase';
+
+type RequestOutcome = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+const OUTCOME_LABELS: Partial<Record<History['action'], string>> = {
+  borrowed: 'Borrow request',
+  returned: 'Return request',
+  issued: 'Issue request',
+  received: 'Receipt request',
+};
+
+function getOutcomeLabel(action: History['action']): string {
+  return OUTCOME_LABELS[action] || 'Request';
+}
+
+interface RequestEntry {
+  id: string;
+  item?: Item;
+  stockLevel?: StockLevel | null; // Set instead of item for issue and receive requests
+  outcome: RequestOutcome;
+  label: string;
+  timestamp: string;
+  expectedReturnDate?: string | null;
+  decidedBy?: string;
+  reason?: string | null;
+}
+
+export default function MyRequests() {
+  const [entries, setEntries] = useState<RequestEntry[]>([]);
+  const [filter, setFilter] = useState<'all' | RequestOutcome>('all');
+  const [cancelling, setCancelling] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    const userId = localStorage.getItem('userId');
+    if (!userId) {
+      setError('User ID not found. Please log in again.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const [pending, pendingStock, outcomes] = await Promise.all([
+        pendingRequestService.getRequestsByUser(userId),
+        stockService.getRequestsByUser(userId),
+        historyService.getRequestOutcomes(userId)
+      ]);
+
+      // Decided requests are deleted, so their outcome comes from history
+      const pendingEntries: RequestEntry[] = pending.map(request => ({
+        id: request.id,
+        item: request.item,
+        outcome: 'pending',
+        label: request.type === 'use' ? 'Borrow request' : 'Return request',
+        timestamp: request.requested_at,
+        expectedReturnDate: request.expected_return_date
+      }));
+
+      const pendingStockEntries: RequestEntry[] = pendingStock.map(request => ({
+        id: request.id,
+        stockLevel: request.stock_level,
+        outcome: 'pending',
+        label: `${request.type === 'issue' ? 'Issue' : 'Receipt'} request (${request.quantity} ${request.stock_level?.material?.unit || 'pcs'})`,
+        timestamp: request.requested_at
+      }));
+
+      const decidedEntries: RequestEntry[] = outcomes.map(entry => ({
+        id: entry.id,
+        item: entry.item,
+        stockLevel: entry.stock_level,
+        outcome: entry.action === 'rejected' ? 'rejected' : entry.action === 'cancelled' ? 'cancelled' : 'approved',
+        label: getOutcomeLabel(entry.action),
+        timestamp: entry.timestamp,
+        decidedBy: entry.action === 'cancelled' ? undefined : entry.performed_by_user?.username,
+        reason: entry.reason
+      }));
+
+      setEntries(
+        [...pendingEntries, ...pendingStockEntries, ...decidedEntries].sort(
+          (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const handleCancel = async (requestId: string) => {
+    const userId = localStorage.getItem('userId');
+    if (!userId || cancelling.has(requestId)) return;
+
+    setCancelling(prev => new Set(prev).add(requestId));
+    try {
+      await pendingRequestService.cancelRequest(requestId, userId);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel request');
+    } finally {
+      setCancelling(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(requestId);
+        return newSet;
+      });
+    }
+  };
+
+  const getOutcomeColor = (outcome: RequestOutcome) => {
+    switch (outcome) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+      case 'approved':
+        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+      case 'rejected':
+        return 'bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300';
+      case 'cancelled':
+        return 'bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-300';
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const counts = {
+    all: entries.length,
+    pending: entries.filter(entry => entry.outcome === 'pending').length,
+    approved: entries.filter(entry => entry.outcome === 'approved').length,
+    rejected: entries.filter(entry => entry.outcome === 'rejected').length,
+    cancelled: entries.filter(entry => entry.outcome === 'cancelled').length
+  };
+
+  const filteredEntries = filter === 'all' ? entries : entries.filter(entry => entry.outcome === filter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 sm:h-24 sm:w-24 md:h-32 md:w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-4xl mx-auto px-2 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-6"
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6">
+        <div className="border-l-4 border-blue-500 pl-3 sm:pl-4 mb-4">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100 mb-1">My Requests</h1>
+          <p className="text-gray-600 dark:text-slate-400 text-sm sm:text-base">
+            Track your borrow, return and stock requests, cancel pending ones and see why a request was rejected.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(['all', 'pending', 'approved', 'rejected', 'cancelled'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium transition-colors ${
+                filter === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+              }`}
+            >
+              {option.charAt(0).toUpperCase() + option.slice(1)} ({counts[option]})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6">
+        {filteredEntries.length === 0 ? (
+          <div className="text-center py-8 sm:py-12">
+            <InboxStackIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">No requests found.</p>
+          </div>
+        ) : (
+          <div className="space-y-3 sm:space-y-4">
+            {filteredEntries.map((entry, index) => (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
+                className="p-3 sm:p-4 bg-gray-50 dark:bg-slate-700 rounded-lg"
+              >
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold text-gray-900 dark:text-slate-100 text-sm sm:text-base truncate">
+                      {entry.item?.material || entry.stockLevel?.material?.name || 'Unknown item'}
+                    </p>
+                    {entry.stockLevel ? (
+                      <p className="text-xs text-gray-500 dark:text-slate-400 truncate">{formatItemPlace(entry.stockLevel)}</p>
+                    ) : (
+                      <p className="text-xs font-mono text-gray-500 dark:text-slate-400 truncate">{entry.item?.serial_number}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <span className="text-xs text-gray-600 dark:text-slate-400">{entry.label}</span>
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getOutcomeColor(entry.outcome)}`}>
+                      {entry.outcome.charAt(0).toUpperCase() + entry.outcome.slice(1)}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500 dark:text-slate-400">
+                  <span>
+                    {entry.outcome === 'pending' ? 'Requested' : entry.outcome === 'cancelled' ? 'Cancelled' : 'Decided'} {formatDate(entry.timestamp)}
+                  </span>
+                  {entry.expectedReturnDate && (
+                    <span>Return by {formatDueDate(entry.expectedReturnDate)}</span>
+                  )}
+                  {entry.decidedBy && (
+                    <span className="flex items-center space-x-1">
+                      <UserIcon className="h-3 w-3" />
+                      <span>{entry.decidedBy}</span>
+                    </span>
+                  )}
+                  {entry.outcome === 'pending' && (
+                    <button
+                      onClick={() => handleCancel(entry.id)}
+                      disabled={cancelling.has(entry.id)}
+                      className="ml-auto text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {cancelling.has(entry.id) ? 'Cancelling...' : 'Cancel Request'}
+                    </button>
+                  )}
+                </div>
+
+                {entry.reason && (
+                  <p className="text-xs sm:text-sm text-pink-700 dark:text-pink-300 mt-2 break-words">
+                    <span className="font-medium">Reason:</span> {entry.reason}
+                  </p>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { QrCodeIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { itemService } from '../services/itemService';
+import { QrScanner } from '../components/QrScanner';
+import { ItemDetailModal } from '../components/ItemDetailModal';
+import { useInventory } from '../hooks/useInventory';
+import type { Item } from '../lib/supabase';
+import type { UserRole } from '../App';
+
+interface ScanItemProps {
+  userRole: UserRole;
+}
+
+// USB scanners type a whole code within a few milliseconds per key, then Enter
+const WEDGE_MAX_KEY_INTERVAL_MS = 50;
+const WEDGE_MIN_LENGTH = 3;
+
+// The camera keeps seeing a label after its item is closed, so ignore it for a moment
+const RESCAN_COOLDOWN_MS = 3000;
+
+export default function ScanItem({ userRole }: ScanItemProps) {
+  const { pendingRequests } = useInventory({ withItems: false });
+  const [manualCode, setManualCode] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [detailItem, setDetailItem] = useState<Item | null>(null);
+  const lookingUpRef = useRef(false);
+  const lastCodeRef = useRef({ code: '', at: 0 });
+  const navigate = useNavigate();
+
+  const handleCode = useCallback(async (code: string) => {
+    const value = code.trim();
+    if (!value || lookingUpRef.current) return;
+    if (value === lastCodeRef.current.code && Date.now() - lastCodeRef.current.at < RESCAN_COOLDOWN_MS) return;
+
+    lastCodeRef.current = { code: value, at: Date.now() };
+
+    lookingUpRef.current = true;
+    setLookingUp(true);
+    setError(null);
+
+    try {
+      const item = await itemService.getItemByCode(value);
+      if (item) {
+        setDetailItem(item);
+        setManualCode('');
+      } else {
+        setError(`No item found for "${value}"`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up item');
+    } finally {
+      lookingUpRef.current = false;
+      setLookingUp(false);
+    }
+  }, []);
+
+  // Keyboard-wedge scanners: collect fast keystrokes typed outside form fields
+  useEffect(() => {
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select') || detailItem) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > WEDGE_MAX_KEY_INTERVAL_MS) {
+        buffer = '';
+      }
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= WEDGE_MIN_LENGTH) {
+          event.preventDefault();
+          handleCode(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [detailItem, handleCode]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleCode(manualCode);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-2xl mx-auto px-2 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-6"
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 sm:p-6 space-y-4">
+        <div className="border-l-4 border-blue-500 pl-3 sm:pl-4">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100 mb-1 flex items-center space-x-2">
+            <QrCodeIcon className="h-7 w-7 text-blue-600 dark:text-blue-400" />
+            <span>Scan Item</span>
+          </h1>
+          <p className="text-gray-600 dark:text-slate-400 text-sm sm:text-base">
+            Point the camera at an asset label, use a USB scanner, or type the serial number.
+          </p>
+        </div>
+
+        <QrScanner active={!detailItem} onScan={handleCode} />
+
+        <form onSubmit={handleManualSubmit} className="flex space-x-2">
+          <input
+            type="text"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Serial number or item code..."
+            className="flex-1 border border-gray-300 dark:border-slate-600 rounded-lg px-3 sm:px-4 py-2 sm:py-2.5 shadow-sm focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 placeholder-gray-500 dark:placeholder-slate-400 text-sm sm:text-base"
+            disabled={lookingUp}
+          />
+          <motion.button
+            type="submit"
+            disabled={lookingUp || !manualCode.trim()}
+            whileTap={{ scale: 0.98 }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            {lookingUp ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              <MagnifyingGlassIcon className="h-4 w-4" />
+            )}
+            <span>Find</span>
+          </motion.button>
+        </form>
+
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 rounded-md border border-red-200 dark:border-red-800 text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <ItemDetailModal
+        item={detailItem}
+        isOpen={detailItem !== null}
+        onClose={() => {
+          lastCodeRef.current = { ...lastCodeRef.current, at: Date.now() };
+          setDetailItem(null);
+        }}
+        userRole={userRole}
+        onEdit={userRole === 'admin' ? (itemId) => navigate(`/items/edit/${itemId}`) : undefined}
+        pendingRequests={pendingRequests}
+      />
+    </motion.div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { ArchiveBoxIcon, PlusIcon, UserIcon } from '@heroicons/react/24/outline';
+import { stockService } from '../services/stockService';
+import { pendingRequestService } from '../services/pendingRequestService';
+import { materialService } from '../services/materialService';
+import { warehouseService } from '../services/warehouseService';
+import { useInventory } from '../hooks/useInventory';
+import { formatItemPlace, formatLocation } from '../lib/locations';
+import { RejectRequestModal } from '../components/RejectRequestModal';
+import { StockMovementModal } from '../components/StockMovementModal';
+import type { StockMovementMode } from '../components/StockMovementModal';
+import type { UserRole } from '../App';
+import type { Location, Material, StockLevel, StockMovement, StockRequest, Warehouse } from '../lib/supabase';
+
+interface StockProps {
+  userRole: UserRole;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400 text-sm';
+
+const EMPTY_NEW_LEVEL = { materialId: '', warehouseId: '', locationId: '' };
+
+export default function Stock({ userRole }: StockProps) {
+  // Pending requests and stock levels broadcast on the inventory topic, so the
+  // shared store's revision tells this page when to reload
+  const { revision } = useInventory({ withItems: false });
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [requests, setRequests] = useState<StockRequest[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [newLevel, setNewLevel] = useState(EMPTY_NEW_LEVEL);
+  const [movementTarget, setMovementTarget] = useState<{ mode: StockMovementMode; level: StockLevel } | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<StockRequest | null>(null);
+  const [processingRequests, setProcessingRequests] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isAdmin = userRole === 'admin';
+  const canSeeLedger = userRole === 'admin' || userRole === 'manager';
+
+  const loadStock = useCallback(async () => {
+    try {
+      const userId = localStorage.getItem('userId');
+      const [levelList, requestList, movementList] = await Promise.all([
+        stockService.getStockLevels(),
+        canSeeLedger ? stockService.getPendingRequests() : stockService.getRequestsByUser(userId || ''),
+        canSeeLedger ? stockService.getMovements() : Promise.resolve([])
+      ]);
+      setStockLevels(levelList);
+      setRequests(requestList);
+      setMovements(movementList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock');
+    } finally {
+      setLoading(false);
+    }
+  }, [canSeeLedger]);
+
+  useEffect(() => {
+    Promise.all([
+      warehouseService.getWarehouses(),
+      warehouseService.getLocations(),
+      isAdmin ? materialService.getMaterials('consumable') : Promise.resolve([])
+    ])
+      .then(([warehouseList, locationList, materialList]) => {
+        setWarehouses(warehouseList);
+        setLocations(locationList);
+        setMaterials(materialList);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load warehouses'));
+  }, [isAdmin]);
+
+  useEffect(() => {
+    loadStock();
+  }, [loadStock, revision]);
+
+  const visibleLevels = warehouseFilter
+    ? stockLevels.filter(level => level.warehouse_id === warehouseFilter)
+    : stockLevels;
+  const visibleRequests = warehouseFilter
+    ? requests.filter(request => request.stock_level?.warehouse_id === warehouseFilter)
+    : requests;
+  const visibleMovements = warehouseFilter
+    ? movements.filter(movement => movement.stock_level?.warehouse_id === warehouseFilter)
+    : movements;
+
+  const handleCreateLevel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLevel.materialId || !newLevel.warehouseId || saving) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const level = await stockService.createStockLevel(newLevel.materialId, newLevel.warehouseId, newLevel.locationId || null);
+      setNewLevel(EMPTY_NEW_LEVEL);
+      setSuccess(`Now stocking ${level.material?.name} at ${formatItemPlace(level)}`);
+      await loadStock();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create stock level');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDecision = async (request: StockRequest, approve: boolean, reason: string = '') => {
+    if (!isAdmin || processingRequests.has(request.id)) return;
+
+    setProcessingRequests(prev => new Set(prev).add(request.id));
+    setError(null);
+
+    try {
+      const currentUserId = localStorage.getItem('userId');
+      if (!currentUserId) {
+        throw new Error('User ID not found. Please log in again.');
+      }
+
+      if (approve) {
+        await pendingRequestService.approveRequest(request.id, currentUserId);
+      } else {
+        await pendingRequestService.rejectRequest(request.id, currentUserId, reason);
+      }
+      await loadStock();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process request');
+    } finally {
+      setProcessingRequests(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(request.id);
+        return newSet;
+      });
+    }
+  };
+
+  const confirmReject = async (reason: string) => {
+    if (!rejectTarget) return;
+    await handleDecision(rejectTarget, false, reason);
+    setRejectTarget(null);
+  };
+
+  const handleMovementSaved = async (message: string) => {
+    setMovementTarget(null);
+    setSuccess(message);
+    await loadStock();
+  };
+
+  const describeRequest = (request: StockRequest) =>
+    `${request.type === 'issue' ? 'Issue' : 'Receive'} ${request.quantity} ${request.stock_level?.material?.unit || 'pcs'}`;
+
+  const getMovementColor = (type: StockMovement['type']) => {
+    switch (type) {
+      case 'receive':
+        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+      case 'issue':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300';
+      case 'adjust':
+        return 'bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-300';
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 sm:h-24 sm:w-24 md:h-32 md:w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100">
+          Consumable Stock
+        </h1>
+        <select
+          value={warehouseFilter}
+          onChange={(e) => setWarehouseFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md text-sm dark:bg-slate-700 dark:text-slate-100"
+        >
+          <option value="">All warehouses</option>
+          {warehouses.map(warehouse => (
+            <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800"
+        >
+          <div className="flex justify-between items-start">
+            <span className="text-sm sm:text-base">{error}</span>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-800 dark:text-red-200 hover:text-red-900 dark:hover:text-red-100 font-medium ml-2 flex-shrink-0"
+            >
+              ✕
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {success && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300 p-3 sm:p-4 rounded-md border border-green-200 dark:border-green-800"
+        >
+          <div className="flex justify-between items-start">
+            <span className="text-sm sm:text-base">{success}</span>
+            <button
+              onClick={() => setSuccess(null)}
+              className="text-green-800 dark:text-green-200 hover:text-green-900 dark:hover:text-green-100 font-medium ml-2 flex-shrink-0"
+            >
+              ✕
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Start stocking a consumable at a place */}
+      {isAdmin && (
+        <form
+          onSubmit={handleCreateLevel}
+          className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4 flex flex-col lg:flex-row gap-3 lg:items-end"
+        >
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Consumable</label>
+            <select
+              value={newLevel.materialId}
+              onChange={(e) => setNewLevel({ ...newLevel, materialId: e.target.value })}
+              className={inputClassName}
+              disabled={saving}
+            >
+              <option value="">{materials.length === 0 ? 'No consumables in the catalog' : 'Select a consumable'}</option>
+              {materials.map(material => (
+                <option key={material.id} value={material.id}>{material.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Warehouse</label>
+            <select
+              value={newLevel.warehouseId}
+              onChange={(e) => setNewLevel({ ...newLevel, warehouseId: e.target.value, locationId: '' })}
+              className={inputClassName}
+              disabled={saving}
+            >
+              <option value="">Select a warehouse</option>
+              {warehouses.map(warehouse => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Location</label>
+            <select
+              value={newLevel.locationId}
+              onChange={(e) => setNewLevel({ ...newLevel, locationId: e.target.value })}
+              className={inputClassName}
+              disabled={saving || !newLevel.warehouseId}
+            >
+              <option value="">No specific location</option>
+              {locations.filter(location => location.warehouse_id === newLevel.warehouseId).map(location => (
+                <option key={location.id} value={location.id}>{formatLocation(location)}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !newLevel.materialId || !newLevel.warehouseId}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center justify-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Stock Location</span>
+          </button>
+        </form>
+      )}
+
+      {/* Stock levels */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 overflow-hidden">
+        {visibleLevels.length === 0 ? (
+          <div className="text-center py-8 sm:py-12">
+            <ArchiveBoxIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">No consumables in stock yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+              <thead className="bg-gray-100 dark:bg-slate-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Material</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Location</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">On Hand</th>
+                  <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+                {visibleLevels.map(level => (
+                  <tr key={level.id} className="transition-colors duration-150 hover:bg-slate-100 dark:hover:bg-slate-700">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-slate-100">{level.material?.name}</div>
+                      {level.material?.category && (
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{level.material.category.name}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">{formatItemPlace(level)}</td>
+                    <td className={`px-4 py-3 text-sm text-right font-semibold ${level.quantity === 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-slate-100'}`}>
+                      {level.quantity} {level.material?.unit}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <div className="flex justify-center gap-2">
+                        {userRole === 'employee' && (
+                          <>
+                            <button
+                              onClick={() => setMovementTarget({ mode: 'issue', level })}
+                              disabled={level.quantity === 0}
+                              className="px-3 py-1 rounded-md text-xs font-medium bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Request Issue
+                            </button>
+                            <button
+                              onClick={() => setMovementTarget({ mode: 'receive', level })}
+                              className="px-3 py-1 rounded-md text-xs font-medium bg-green-600 text-white hover:bg-green-700"
+                            >
+                              Request Receipt
+                            </button>
+                          </>
+                        )}
+                        {isAdmin && (
+                          <button
+                            onClick={() => setMovementTarget({ mode: 'adjust', level })}
+                            className="px-3 py-1 rounded-md text-xs font-medium bg-blue-600 text-white hover:bg-blue-700"
+                          >
+                            Adjust
+                          </button>
+                        )}
+                        {userRole === 'manager' && <span className="text-xs text-gray-400 dark:text-slate-500">-</span>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pending issue and receive requests */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4 sm:p-6">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100 mb-4">
+          {canSeeLedger ? 'Pending Stock Requests' : 'My Pending Stock Requests'} ({visibleRequests.length})
+        </h2>
+        {visibleRequests.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No pending stock requests.</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleRequests.map(request => {
+              const isProcessing = processingRequests.has(request.id);
+              return (
+                <div key={request.id} className="p-3 bg-gray-50 dark:bg-slate-700 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm text-gray-900 dark:text-slate-100 break-words">
+                      {describeRequest(request)} · {request.stock_level?.material?.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 flex flex-wrap items-center gap-x-3">
+                      <span>{request.stock_level && formatItemPlace(request.stock_level)}</span>
+                      <span>{request.stock_level?.quantity} on hand</span>
+                      <span className="flex items-center space-x-1">
+                        <UserIcon className="h-3 w-3" />
+                        <span>{request.requested_by_user?.username || 'Unknown'}</span>
+                      </span>
+                      <span>{formatDate(request.requested_at)}</span>
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex space-x-2 flex-shrink-0">
+                      <motion.button
+                        onClick={() => handleDecision(request, true)}
+                        disabled={isProcessing}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        className="px-3 py-1.5 rounded-md text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-300 disabled:text-gray-500 dark:disabled:bg-gray-600 dark:disabled:text-gray-400 disabled:cursor-not-allowed"
+                      >
+                        {isProcessing ? 'Processing...' : 'Approve'}
+                      </motion.button>
+                      <motion.button
+                        onClick={() => setRejectTarget(request)}
+                        disabled={isProcessing}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        className="px-3 py-1.5 rounded-md text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-300 disabled:text-gray-500 dark:disabled:bg-gray-600 dark:disabled:text-gray-400 disabled:cursor-not-allowed"
+                      >
+                        Reject
+                      </motion.button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Stock movement ledger */}
+      {canSeeLedger && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 overflow-hidden">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-slate-100 p-4 sm:p-6 pb-0 sm:pb-0 mb-4">
+            Stock Movements
+          </h2>
+          {visibleMovements.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400 px-4 sm:px-6 pb-6">No stock movements yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+                <thead className="bg-gray-100 dark:bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Date</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Material</th>
+                    <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Type</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Change</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Balance</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">By</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">Note</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+                  {visibleMovements.map(movement => (
+                    <tr key={movement.id}>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300 whitespace-nowrap">{formatDate(movement.created_at)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900 dark:text-slate-100">{movement.stock_level?.material?.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{movement.stock_level && formatItemPlace(movement.stock_level)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getMovementColor(movement.type)}`}>
+                          {movement.type.charAt(0).toUpperCase() + movement.type.slice(1)}
+                        </span>
+                      </td>
+                      <td className={`px-4 py-3 text-sm text-right font-mono ${movement.quantity_change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-mono text-gray-900 dark:text-slate-100">{movement.balance_after}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">
+                        {movement.performed_by_user?.username}
+                        {movement.requested_by_user && (
+                          <div className="text-xs text-gray-500 dark:text-slate-400">for {movement.requested_by_user.username}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300 break-words">{movement.note || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <StockMovementModal
+        isOpen={movementTarget !== null}
+        mode={movementTarget?.mode ?? 'issue'}
+        stockLevel={movementTarget?.level ?? null}
+        onClose={() => setMovementTarget(null)}
+        onSaved={handleMovementSaved}
+      />
+
+      <RejectRequestModal
+        key={rejectTarget?.id}
+        isOpen={rejectTarget !== null}
+        onClose={() => setRejectTarget(null)}
+        onConfirm={confirmReject}
+        isLoading={rejectTarget !== null && processingRequests.has(rejectTarget.id)}
+        description={rejectTarget ? `${rejectTarget.requested_by_user?.username || 'Unknown'}'s request: ${describeRequest(rejectTarget)} of ${rejectTarget.stock_level?.material?.name}` : undefined}
+      />
+    </motion.div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { userService } from '../services/userService';
-import type { UserPublicData } from '../lib/supabase';
+import { warehouseService } from '../services/warehouseService';
+import type { UserPublicData, Warehouse } from '../lib/supabase';
 import type { UserRole } from '../App';
 import {
   UserIcon,
@@ -48,6 +49,8 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
   const [creatingAccount, setCreatingAccount] = useState(false);
   const [createAccountSuccess, setCreateAccountSuccess] = useState(false);
   const [togglingStatus, setTogglingStatus] = useState<Set<string>>(new Set());
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [updatingScope, setUpdatingScope] = useState<Set<string>>(new Set());
 
   // Get current user role from localStorage if not passed as prop
   const currentUserRole = userRole || localStorage.getItem('userRole') as UserRole;
@@ -59,8 +62,12 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
   const loadUsers = async () => {
     try {
       setError(null);
-      const data = await userService.getAllUsers();
+      const [data, warehouseList] = await Promise.all([
+        userService.getAllUsers(),
+        warehouseService.getWarehouses()
+      ]);
       setUsers(data);
+      setWarehouses(warehouseList);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load users');
     } finally {
@@ -128,6 +135,47 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
     }
   };
 
+  // Managers with a warehouse only see that warehouse's items, requests and history
+  const changeWarehouseScope = async (userId: string, warehouseId: string) => {
+    if (updatingScope.has(userId)) return;
+
+    setUpdatingScope(prev => new Set(prev).add(userId));
+
+    try {
+      await userService.setUserWarehouse(userId, warehouseId || null);
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update warehouse scope');
+    } finally {
+      setUpdatingScope(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(userId);
+        return newSet;
+      });
+    }
+  };
+
+  const renderWarehouseScope = (user: UserPublicData) => {
+    if (user.role !== 'manager') {
+      return <span className="text-xs text-gray-400 dark:text-slate-500">-</span>;
+    }
+
+    return (
+      <select
+        value={user.warehouse_id ?? ''}
+        onChange={(e) => changeWarehouseScope(user.id, e.target.value)}
+        disabled={updatingScope.has(user.id)}
+        className="px-2 py-1 border border-gray-300 dark:border-slate-600 rounded-md text-xs bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 disabled:opacity-50"
+        title="Warehouse this manager can see"
+      >
+        <option value="">All warehouses</option>
+        {warehouses.map(warehouse => (
+          <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+        ))}
+      </select>
+    );
+  };
+
   const handleCreateAccount = async () => {
     if (createAccountData.password !== createAccountData.confirmPassword) {
       setError('Passwords do not match');
@@ -252,7 +300,7 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
       {/* Manager Info */}
       <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-3 sm:p-4">
         <p className="text-xs sm:text-sm text-orange-800 dark:text-orange-300 leading-relaxed">
-          👔 <strong>Manager Privileges:</strong> You can create new accounts, change passwords, and activate/deactivate users. 
+          👔 <strong>Manager Privileges:</strong> You can create new accounts, change passwords, activate/deactivate users, and restrict managers to one warehouse. 
           <span className="block mt-1">
             🔐 <strong>Security Note:</strong> Use strong passwords and deactivate accounts when users no longer need access.
           </span>
@@ -280,6 +328,11 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
                 <th className="px-4 xl:px-6 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">
                   Status
                 </th>
+                {warehouses.length > 0 && (
+                  <th className="px-4 xl:px-6 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">
+                    Warehouse Scope
+                  </th>
+                )}
                 <th className="px-4 xl:px-6 py-3 text-center text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide">
                   Actions
                 </th>
@@ -345,6 +398,11 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
                           )}
                         </button>
                       </td>
+                      {warehouses.length > 0 && (
+                        <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-center">
+                          {renderWarehouseScope(user)}
+                        </td>
+                      )}
                       <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-center">
                         <div className="flex justify-center">
                           <motion.button
@@ -433,6 +491,12 @@ export default function UserManagement({ userRole }: UserManagementProps = {}) {
                       )}
                     </button>
                   </div>
+                  {user.role === 'manager' && warehouses.length > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-500 dark:text-slate-400">Warehouse scope</span>
+                      {renderWarehouseScope(user)}
+                    </div>
+                  )}
                 </motion.div>
               );
             })}
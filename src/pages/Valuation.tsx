@@ -0,0 +1,197 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { itemService } from '../services/itemService';
+import { ExportMenu } from '../components/ExportMenu';
+import { buildValuationExport } from '../lib/exports';
+import { formatDueDate, toLocalDateString } from '../lib/dates';
+import { formatDepreciationMethod, formatMoney, summarizeByCategory } from '../lib/valuation';
+import type { ItemValuation } from '../services/itemService';
+
+const thClassName = 'px-4 py-3 text-left text-sm font-semibold text-gray-600 dark:text-slate-300 uppercase tracking-wide';
+
+export default function Valuation() {
+  const [asOf, setAsOf] = useState(() => toLocalDateString(new Date()));
+  const [rows, setRows] = useState<ItemValuation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!asOf) return;
+
+    setLoading(true);
+    setError(null);
+    itemService.getValuation(asOf)
+      .then(setRows)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load valuation'))
+      .finally(() => setLoading(false));
+  }, [asOf]);
+
+  const categories = useMemo(() => summarizeByCategory(rows), [rows]);
+
+  const totalCost = categories.reduce((sum, category) => sum + category.purchaseCost, 0);
+  const totalBookValue = categories.reduce((sum, category) => sum + category.bookValue, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100">
+          Asset Valuation
+        </h1>
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-gray-700 dark:text-slate-300" htmlFor="valuation-as-of">As of</label>
+          <input
+            id="valuation-as-of"
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md text-sm dark:bg-slate-700 dark:text-slate-100"
+          />
+          <ExportMenu
+            getTable={() => buildValuationExport(rows, asOf)}
+            fileName={`valuation-${asOf}`}
+            disabled={loading || rows.length === 0}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800 text-sm sm:text-base"
+        >
+          {error}
+        </motion.div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 text-center py-8 sm:py-12">
+          <BanknotesIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+          <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">No items with a purchase cost were held on this date.</p>
+          <p className="text-gray-400 dark:text-slate-500 text-sm mt-1">Purchase costs are entered when editing an item.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Items valued</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-slate-100">{rows.length}</p>
+            </div>
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Purchase cost</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-slate-100">{formatMoney(totalCost)}</p>
+            </div>
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Book value</p>
+              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{formatMoney(totalBookValue)}</p>
+            </div>
+          </div>
+
+          {/* Totals per category */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 overflow-hidden">
+            <h2 className="px-4 py-3 text-lg font-semibold text-gray-900 dark:text-slate-100 border-b border-gray-100 dark:border-slate-700">
+              By Category
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+                <thead className="bg-gray-100 dark:bg-slate-700">
+                  <tr>
+                    <th className={thClassName}>Category</th>
+                    <th className={`${thClassName} text-right`}>Items</th>
+                    <th className={`${thClassName} text-right`}>Purchase Cost</th>
+                    <th className={`${thClassName} text-right`}>Depreciation</th>
+                    <th className={`${thClassName} text-right`}>Book Value</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+                  {categories.map(category => (
+                    <tr key={category.category}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-slate-100">{category.category}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-slate-300">{category.itemCount}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-slate-300">{formatMoney(category.purchaseCost)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-slate-300">
+                        {formatMoney(category.purchaseCost - category.bookValue)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900 dark:text-slate-100">{formatMoney(category.bookValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Per item */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 overflow-hidden">
+            <h2 className="px-4 py-3 text-lg font-semibold text-gray-900 dark:text-slate-100 border-b border-gray-100 dark:border-slate-700">
+              By Item
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+                <thead className="bg-gray-100 dark:bg-slate-700">
+                  <tr>
+                    <th className={thClassName}>Item</th>
+                    <th className={thClassName}>Category</th>
+                    <th className={thClassName}>Purchased</th>
+                    <th className={thClassName}>Warranty</th>
+                    <th className={thClassName}>Depreciation</th>
+                    <th className={`${thClassName} text-right`}>Cost</th>
+                    <th className={`${thClassName} text-right`}>Book Value</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-100 dark:divide-slate-700">
+                  {rows.map(row => (
+                    <tr key={row.item_id} className="transition-colors duration-150 hover:bg-slate-100 dark:hover:bg-slate-700">
+                      <td className="px-4 py-3 text-sm">
+                        <Link
+                          to={`/items/history/${row.item_id}`}
+                          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {row.material}
+                        </Link>
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{row.serial_number}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">{row.category || 'Uncategorized'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">
+                        {row.purchase_date ? formatDueDate(row.purchase_date) : '-'}
+                        {row.supplier && (
+                          <div className="text-xs text-gray-500 dark:text-slate-400">{row.supplier}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {row.warranty_expiry ? (
+                          <span className={row.warranty_expiry < asOf ? 'text-gray-400 dark:text-slate-500 line-through' : 'text-gray-700 dark:text-slate-300'}>
+                            {formatDueDate(row.warranty_expiry)}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400 dark:text-slate-500">-</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">
+                        {formatDepreciationMethod(row.depreciation_method)}
+                        {row.useful_life_months && row.depreciation_method !== 'none' && (
+                          <div className="text-xs text-gray-500 dark:text-slate-400">over {row.useful_life_months} months</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-slate-300">{formatMoney(row.purchase_cost)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900 dark:text-slate-100">{formatMoney(row.book_value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
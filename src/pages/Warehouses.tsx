@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  BuildingOfficeIcon,
+  MapPinIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { warehouseService } from '../services/warehouseService';
+import { formatLocation } from '../lib/locations';
+import type { LocationFormData, WarehouseFormData } from '../services/warehouseService';
+import type { Location, Warehouse } from '../lib/supabase';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 dark:placeholder-slate-400 text-sm';
+
+const EMPTY_WAREHOUSE: WarehouseFormData = { name: '', address: '' };
+const EMPTY_LOCATION: LocationFormData = { zone: '', rack: '', bin: '' };
+
+export default function Warehouses() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newWarehouse, setNewWarehouse] = useState<WarehouseFormData>(EMPTY_WAREHOUSE);
+  const [editingWarehouseId, setEditingWarehouseId] = useState<string | null>(null);
+  const [editWarehouse, setEditWarehouse] = useState<WarehouseFormData>(EMPTY_WAREHOUSE);
+  // New location being typed, per warehouse
+  const [newLocations, setNewLocations] = useState<Record<string, LocationFormData>>({});
+
+  const loadData = async () => {
+    try {
+      setError(null);
+      const [warehouseList, locationList] = await Promise.all([
+        warehouseService.getWarehouses(),
+        warehouseService.getLocations()
+      ]);
+      setWarehouses(warehouseList);
+      setLocations(locationList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load warehouses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Runs a change, then reloads so the lists match the database
+  const save = async (action: () => Promise<unknown>) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await action();
+      await loadData();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save changes');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateWarehouse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWarehouse.name.trim()) return;
+
+    if (await save(() => warehouseService.createWarehouse(newWarehouse))) {
+      setNewWarehouse(EMPTY_WAREHOUSE);
+    }
+  };
+
+  const startEditing = (warehouse: Warehouse) => {
+    setEditingWarehouseId(warehouse.id);
+    setEditWarehouse({ name: warehouse.name, address: warehouse.address || '' });
+  };
+
+  const handleUpdateWarehouse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingWarehouseId || !editWarehouse.name.trim()) return;
+
+    if (await save(() => warehouseService.updateWarehouse(editingWarehouseId, editWarehouse))) {
+      setEditingWarehouseId(null);
+    }
+  };
+
+  const handleCreateLocation = async (e: React.FormEvent, warehouseId: string) => {
+    e.preventDefault();
+    const locationData = newLocations[warehouseId];
+    if (!locationData?.zone.trim()) return;
+
+    if (await save(() => warehouseService.createLocation(warehouseId, locationData))) {
+      setNewLocations(prev => ({ ...prev, [warehouseId]: EMPTY_LOCATION }));
+    }
+  };
+
+  const handleDeleteLocation = async (location: Location) => {
+    if (!window.confirm(`Delete location ${formatLocation(location)}? Items stored there stay in the warehouse without a location.`)) {
+      return;
+    }
+
+    await save(() => warehouseService.deleteLocation(location.id));
+  };
+
+  const updateNewLocation = (warehouseId: string, field: keyof LocationFormData, value: string) => {
+    setNewLocations(prev => ({
+      ...prev,
+      [warehouseId]: { ...(prev[warehouseId] || EMPTY_LOCATION), [field]: value }
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-16 w-16 sm:h-24 sm:w-24 md:h-32 md:w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6 max-w-7xl mx-auto"
+    >
+      <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-slate-100">
+        Warehouses & Locations
+      </h1>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 sm:p-4 rounded-md border border-red-200 dark:border-red-800"
+        >
+          <div className="flex justify-between items-start">
+            <span className="text-sm sm:text-base">{error}</span>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-800 dark:text-red-200 hover:text-red-900 dark:hover:text-red-100 font-medium ml-2 flex-shrink-0"
+            >
+              ✕
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* New Warehouse */}
+      <form
+        onSubmit={handleCreateWarehouse}
+        className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4 flex flex-col sm:flex-row gap-3 sm:items-end"
+      >
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Warehouse name</label>
+          <input
+            type="text"
+            value={newWarehouse.name}
+            onChange={(e) => setNewWarehouse({ ...newWarehouse, name: e.target.value })}
+            className={inputClassName}
+            placeholder="e.g. Jakarta Main Warehouse"
+            disabled={saving}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Address</label>
+          <input
+            type="text"
+            value={newWarehouse.address}
+            onChange={(e) => setNewWarehouse({ ...newWarehouse, address: e.target.value })}
+            className={inputClassName}
+            placeholder="Optional"
+            disabled={saving}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !newWarehouse.name.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center justify-center space-x-2"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Warehouse</span>
+        </button>
+      </form>
+
+      {warehouses.length === 0 && (
+        <div className="text-center py-8 sm:py-12">
+          <BuildingOfficeIcon className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" />
+          <p className="text-gray-500 dark:text-slate-400 text-base sm:text-lg">No warehouses yet.</p>
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {warehouses.map(warehouse => {
+          const warehouseLocations = locations.filter(location => location.warehouse_id === warehouse.id);
+          const newLocation = newLocations[warehouse.id] || EMPTY_LOCATION;
+
+          return (
+            <div key={warehouse.id} className="bg-white dark:bg-slate-800 rounded-xl shadow border border-gray-100 dark:border-slate-700 p-4 space-y-4">
+              {editingWarehouseId === warehouse.id ? (
+                <form onSubmit={handleUpdateWarehouse} className="space-y-2">
+                  <input
+                    type="text"
+                    value={editWarehouse.name}
+                    onChange={(e) => setEditWarehouse({ ...editWarehouse, name: e.target.value })}
+                    className={inputClassName}
+                    disabled={saving}
+                    autoFocus
+                  />
+                  <input
+                    type="text"
+                    value={editWarehouse.address}
+                    onChange={(e) => setEditWarehouse({ ...editWarehouse, address: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Address"
+                    disabled={saving}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingWarehouseId(null)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={saving || !editWarehouse.name.trim()}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <BuildingOfficeIcon className="h-6 w-6 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <h2 className="font-semibold text-gray-900 dark:text-slate-100 break-words">{warehouse.name}</h2>
+                      {warehouse.address && (
+                        <p className="text-sm text-gray-500 dark:text-slate-400 break-words">{warehouse.address}</p>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startEditing(warehouse)}
+                    className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 p-2 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                    title="Edit Warehouse"
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                  Locations ({warehouseLocations.length})
+                </h3>
+                {warehouseLocations.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-slate-400">No locations yet. Items can still be stored in the warehouse without one.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {warehouseLocations.map(location => (
+                      <span
+                        key={location.id}
+                        className="inline-flex items-center px-2 py-1 rounded-md text-xs font-mono bg-gray-100 dark:bg-slate-700 text-gray-800 dark:text-slate-200"
+                      >
+                        <MapPinIcon className="h-3 w-3 mr-1" />
+                        {formatLocation(location)}
+                        <button
+                          onClick={() => handleDeleteLocation(location)}
+                          disabled={saving}
+                          className="ml-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                          title="Delete Location"
+                        >
+                          <TrashIcon className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <form onSubmit={(e) => handleCreateLocation(e, warehouse.id)} className="grid grid-cols-4 gap-2">
+                <input
+                  type="text"
+                  value={newLocation.zone}
+                  onChange={(e) => updateNewLocation(warehouse.id, 'zone', e.target.value)}
+                  className={inputClassName}
+                  placeholder="Zone"
+                  disabled={saving}
+                />
+                <input
+                  type="text"
+                  value={newLocation.rack}
+                  onChange={(e) => updateNewLocation(warehouse.id, 'rack', e.target.value)}
+                  className={inputClassName}
+                  placeholder="Rack"
+                  disabled={saving}
+                />
+                <input
+                  type="text"
+                  value={newLocation.bin}
+                  onChange={(e) => updateNewLocation(warehouse.id, 'bin', e.target.value)}
+                  className={inputClassName}
+                  placeholder="Bin"
+                  disabled={saving}
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !newLocation.zone.trim()}
+                  className="border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center justify-center space-x-1"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </form>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
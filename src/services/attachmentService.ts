@@ -0,0 +1,167 @@
+import { supabase } from '../lib/supabase';
+import { prepareAttachment } from '../lib/attachments';
+import type { ItemAttachment } from '../lib/supabase';
+
+const ATTACHMENT_BUCKET = 'item-attachments';
+
+// Signed URLs are short-lived because the bucket is private
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const ATTACHMENT_SELECT = `
+  *,
+  uploaded_by_user:uploaded_by(id, username, role)
+`;
+
+// An attachment with links to its file and thumbnail
+export interface AttachmentWithUrls extends ItemAttachment {
+  url: string | null;
+  thumbnail_url: string | null;
+}
+
+interface UploadAttachmentParams {
+  item_id: string;
+  file: File;
+  uploaded_by: string;
+  // Photos taken for a return condition report
+  pending_request_id?: string;
+}
+
+class AttachmentService {
+  private async withUrls(attachments: ItemAttachment[]): Promise<AttachmentWithUrls[]> {
+    const paths = attachments.flatMap(attachment =>
+      attachment.thumbnail_path ? [attachment.storage_path, attachment.thumbnail_path] : [attachment.storage_path]
+    );
+    if (paths.length === 0) return [];
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+    if (error) {
+      throw new Error(`Failed to load attachments: ${error.message}`);
+    }
+
+    const urls = new Map(data.map(entry => [entry.path, entry.signedUrl]));
+    return attachments.map(attachment => ({
+      ...attachment,
+      url: urls.get(attachment.storage_path) || null,
+      thumbnail_url: attachment.thumbnail_path ? urls.get(attachment.thumbnail_path) || null : null,
+    }));
+  }
+
+  /**
+   * Attachments of an item, newest first
+   */
+  async getAttachments(itemId: string): Promise<AttachmentWithUrls[]> {
+    const { data, error } = await supabase
+      .from('item_attachments')
+      .select(ATTACHMENT_SELECT)
+      .eq('item_id', itemId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch attachments: ${error.message}`);
+    }
+
+    return this.withUrls(data || []);
+  }
+
+  /**
+   * Condition report photos of pending return requests
+   */
+  async getRequestAttachments(requestIds: string[]): Promise<AttachmentWithUrls[]> {
+    if (requestIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('item_attachments')
+      .select(ATTACHMENT_SELECT)
+      .in('pending_request_id', requestIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch attachments: ${error.message}`);
+    }
+
+    return this.withUrls(data || []);
+  }
+
+  /**
+   * Store a file under its item and record it. Photos are downscaled and get
+   * a thumbnail first. The database logs the upload in the item's history.
+   */
+  async uploadAttachment(params: UploadAttachmentParams): Promise<ItemAttachment> {
+    const prepared = await prepareAttachment(params.file);
+    const baseName = `${params.item_id}/${crypto.randomUUID()}`;
+    const storagePath = `${baseName}${prepared.contentType === 'application/pdf' ? '.pdf' : '.jpg'}`;
+    const thumbnailPath = prepared.thumbnail ? `${baseName}-thumb.jpg` : null;
+
+    const bucket = supabase.storage.from(ATTACHMENT_BUCKET);
+    const { error: uploadError } = await bucket.upload(storagePath, prepared.file, { contentType: prepared.contentType });
+    if (uploadError) {
+      throw new Error(`Failed to upload ${params.file.name}: ${uploadError.message}`);
+    }
+
+    // Files of a failed upload have no record pointing at them, so nothing could reach them later
+    const removeUploaded = async (paths: string[]) => {
+      const { error: removeError } = await bucket.remove(paths);
+      if (removeError) {
+        console.error('Failed to remove uploaded attachment files:', removeError);
+      }
+    };
+
+    if (thumbnailPath && prepared.thumbnail) {
+      const { error: thumbnailError } = await bucket.upload(thumbnailPath, prepared.thumbnail, { contentType: 'image/jpeg' });
+      if (thumbnailError) {
+        await removeUploaded([storagePath]);
+        throw new Error(`Failed to upload ${params.file.name}: ${thumbnailError.message}`);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('item_attachments')
+      .insert({
+        item_id: params.item_id,
+        context: params.pending_request_id ? 'return_report' : 'item',
+        pending_request_id: params.pending_request_id || null,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        file_name: prepared.fileName,
+        content_type: prepared.contentType,
+        size_bytes: prepared.file.size,
+        uploaded_by: params.uploaded_by,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await removeUploaded(thumbnailPath ? [storagePath, thumbnailPath] : [storagePath]);
+      throw new Error(`Failed to save attachment ${params.file.name}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete an attachment and its files. The record goes first, so a file that
+   * fails to delete is only left unused rather than listed but missing.
+   */
+  async deleteAttachment(attachment: ItemAttachment): Promise<void> {
+    const { error } = await supabase
+      .from('item_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) {
+      throw new Error(`Failed to delete attachment: ${error.message}`);
+    }
+
+    const paths = attachment.thumbnail_path ? [attachment.storage_path, attachment.thumbnail_path] : [attachment.storage_path];
+    const { error: removeError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+
+    if (removeError) {
+      console.error('Failed to remove attachment files:', removeError);
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -1,4 +1,4 @@
-import { supabase } from '../lib/supabase';
+import { supabase, SESSION_TOKEN_KEY } from '../lib/supabase';
 
 export interface LoginCredentials {
   username: string;
@@ -11,28 +11,40 @@ export interface AuthUser {
   role: 'admin' | 'manager' | 'employee';
 }
 
+interface SessionUserRow extends AuthUser {
+  status: 'active' | 'deactive';
+}
+
+interface CreatedSessionRow extends SessionUserRow {
+  token: string | null;
+  expires_at: string | null;
+}
+
 class AuthService {
   private readonly SESSION_TIMEOUT_KEY = 'sessionTimeout';
   private readonly LOGIN_TIME_KEY = 'loginTime';
 
   async login(credentials: LoginCredentials): Promise<AuthUser> {
+    // Password is checked against the stored bcrypt hash inside the database,
+    // which issues a session token on success
     const { data, error } = await supabase
-      .from('users')
-      .select('id, username, role, status')
-      .eq('username', credentials.username)
-      .eq('password', credentials.password) // Note: In production, use proper password hashing
-      .single();
+      .rpc('create_user_session', {
+        p_username: credentials.username,
+        p_password: credentials.password,
+      })
+      .single<CreatedSessionRow>();
 
     if (error || !data) {
       throw new Error('Invalid username or password');
     }
 
     // Check if account is active
-    if (data.status !== 'active') {
+    if (data.status !== 'active' || !data.token) {
       throw new Error('Your account has been deactivated. Please contact an administrator.');
     }
 
-    // Set login timestamp
+    // Set session token and login timestamp
+    localStorage.setItem(SESSION_TOKEN_KEY, data.token);
     localStorage.setItem(this.LOGIN_TIME_KEY, Date.now().toString());
 
     return {
@@ -43,10 +55,10 @@ class AuthService {
   }
 
   async getCurrentUser(): Promise<AuthUser | null> {
-    const userId = localStorage.getItem('userId');
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
     const loginTime = localStorage.getItem(this.LOGIN_TIME_KEY);
     
-    if (!userId || !loginTime) {
+    if (!token || !loginTime) {
       this.logout();
       return null;
     }
@@ -61,11 +73,10 @@ class AuthService {
     }
 
     try {
+      // The user is resolved from the session token, not from localStorage
       const { data, error } = await supabase
-        .from('users')
-        .select('id, username, role, status')
-        .eq('id', userId)
-        .single();
+        .rpc('get_session_user')
+        .maybeSingle<SessionUserRow>();
 
       if (error || !data) {
         this.logout();
@@ -78,11 +89,16 @@ class AuthService {
         return null;
       }
 
-      return {
+      const user: AuthUser = {
         id: data.id,
         username: data.username,
         role: data.role
       };
+
+      // Overwrite whatever identity the browser had cached
+      this.storeUserData(user);
+
+      return user;
     } catch (error) {
       console.error('Failed to validate user session:', error);
       this.logout();
@@ -90,7 +106,33 @@ class AuthService {
     }
   }
 
+  /**
+   * Push the server-side session expiry forward and restart the local timer
+   */
+  async extendSession(): Promise<void> {
+    const { error } = await supabase.rpc('refresh_user_session');
+
+    if (error) {
+      throw new Error(`Failed to extend session: ${error.message}`);
+    }
+
+    localStorage.setItem(this.LOGIN_TIME_KEY, Date.now().toString());
+  }
+
   logout(): void {
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (token) {
+      // Revoke the token server-side; local data is cleared either way
+      supabase
+        .rpc('end_user_session', { p_token: token })
+        .then(({ error }) => {
+          if (error) {
+            console.error('Failed to end session:', error);
+          }
+        });
+    }
+
+    localStorage.removeItem(SESSION_TOKEN_KEY);
     localStorage.removeItem('userId');
     localStorage.removeItem('username');
     localStorage.removeItem('userRole');
@@ -101,18 +143,23 @@ class AuthService {
 
   saveAuthData(user: AuthUser): void {
     const now = Date.now().toString();
+    this.storeUserData(user);
+    localStorage.setItem('isAuthenticated', 'true');
+    localStorage.setItem(this.LOGIN_TIME_KEY, now);
+  }
+
+  private storeUserData(user: AuthUser): void {
     localStorage.setItem('userId', user.id);
     localStorage.setItem('username', user.username);
     localStorage.setItem('userRole', user.role);
-    localStorage.setItem('isAuthenticated', 'true');
-    localStorage.setItem(this.LOGIN_TIME_KEY, now);
   }
 
   isSessionValid(): boolean {
     const loginTime = localStorage.getItem(this.LOGIN_TIME_KEY);
     const isAuthenticated = localStorage.getItem('isAuthenticated');
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
     
-    if (!loginTime || !isAuthenticated) {
+    if (!loginTime || !isAuthenticated || !token) {
       return false;
     }
 
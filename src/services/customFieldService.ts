@@ -0,0 +1,85 @@
+import { supabase } from '../lib/supabase';
+import type { CategoryField, CustomFieldType } from '../lib/supabase';
+
+export interface CategoryFieldFormData {
+  category_id: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[]; // Only kept for enum fields
+  required: boolean;
+}
+
+class CustomFieldService {
+  /**
+   * Field definitions in form order, for one category or for all of them
+   */
+  async getFields(categoryId?: string): Promise<CategoryField[]> {
+    let query = supabase
+      .from('category_fields')
+      .select('*');
+
+    if (categoryId) {
+      query = query.eq('category_id', categoryId);
+    }
+
+    const { data, error } = await query
+      .order('position', { ascending: true })
+      .order('label', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch custom fields: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createField(fieldData: CategoryFieldFormData, position: number): Promise<CategoryField> {
+    const label = fieldData.label.trim();
+    if (!label) {
+      throw new Error('Field name is required');
+    }
+
+    const options = [...new Set(fieldData.options.map(option => option.trim()).filter(Boolean))];
+    if (fieldData.field_type === 'enum' && options.length === 0) {
+      throw new Error('A choice field needs at least one option');
+    }
+
+    const { data, error } = await supabase
+      .from('category_fields')
+      .insert({
+        category_id: fieldData.category_id,
+        label,
+        field_type: fieldData.field_type,
+        options: fieldData.field_type === 'enum' ? options : null,
+        required: fieldData.required,
+        position,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This category already has a field with that name');
+      }
+      throw new Error(`Failed to create custom field: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a field. Items keep the old value until they are next saved.
+   */
+  async deleteField(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('category_fields')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete custom field: ${error.message}`);
+    }
+  }
+}
+
+export const customFieldService = new CustomFieldService();
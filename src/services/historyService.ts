@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { History } from '../lib/supabase';
+import type { History, Item, ItemCondition } from '../lib/supabase';
 
 export interface CreateHistoryEntry {
   item_id: string;
@@ -8,8 +8,39 @@ export interface CreateHistoryEntry {
   details?: string;
   previous_status?: string;
   new_status?: string;
+  condition?: ItemCondition;
+  condition_notes?: string;
 }
 
+// Audit log filters; null and empty values do not filter
+export interface HistoryQuery {
+  action: History['action'] | null;
+  performedBy: string | null;
+  from: string | null; // ISO timestamp
+  to: string | null; // ISO timestamp, exclusive
+  material: string; // Part of the item's or stock level's material name
+  previousStatus: Item['status'] | null;
+  newStatus: Item['status'] | null;
+}
+
+export interface HistoryPage {
+  entries: History[];
+  total: number; // entries matching the query across all pages
+}
+
+// PostgREST never returns more rows than this in one response
+const MAX_ROWS_PER_REQUEST = 1000;
+
+// Stock request decisions are logged against a stock level instead of an item
+const STOCK_LEVEL_JOIN = `
+  stock_level:stock_levels!histories_stock_level_id_fkey(
+    *,
+    material:materials!stock_levels_material_id_fkey(*),
+    warehouse:warehouses!stock_levels_warehouse_id_fkey(*),
+    location:locations!stock_levels_location_id_fkey(*)
+  )
+`;
+
 class HistoryService {
   async createEntry(entry: CreateHistoryEntry): Promise<History> {
     const { data, error } = await supabase
@@ -21,6 +52,8 @@ class HistoryService {
         details: entry.details || null,
         previous_status: entry.previous_status || null,
         new_status: entry.new_status || null,
+        condition: entry.condition || null,
+        condition_notes: entry.condition_notes || null,
       })
       .select()
       .single();
@@ -65,6 +98,87 @@ class HistoryService {
 
     return data || [];
   }
+
+  private queryHistory(query: HistoryQuery, count?: 'exact') {
+    return supabase
+      .rpc('search_history', {
+        p_action: query.action,
+        p_performed_by: query.performedBy,
+        p_from: query.from,
+        p_to: query.to,
+        p_material: query.material.trim() || null,
+        p_previous_status: query.previousStatus,
+        p_new_status: query.newStatus,
+      }, { count })
+      .select(`
+        *,
+        performed_by_user:performed_by(id, username, role),
+        item:items!histories_item_id_fkey(*),
+        ${STOCK_LEVEL_JOIN}
+      `)
+      // The id tie-breaker keeps entries logged together from jumping between pages
+      .order('timestamp', { ascending: false })
+      .order('id', { ascending: true });
+  }
+
+  /**
+   * One page of the history of every item and stock level, newest first,
+   * filtered, paged and counted by the database
+   */
+  async getHistoryPage(query: HistoryQuery, pageIndex: number, pageSize: number): Promise<HistoryPage> {
+    const from = pageIndex * pageSize;
+    const { data, error, count } = await this.queryHistory(query, 'exact').range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch history: ${error.message}`);
+    }
+
+    return { entries: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Every history entry matching the query, fetched in chunks (used for exports)
+   */
+  async getMatchingHistory(query: HistoryQuery): Promise<History[]> {
+    const entries: History[] = [];
+
+    for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await this.queryHistory(query).range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch history: ${error.message}`);
+      }
+
+      entries.push(...(data || []));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Approvals, rejections and cancellations of the requests a user filed, newest first
+   */
+  async getRequestOutcomes(userId: string, limit: number = 100): Promise<History[]> {
+    const { data, error } = await supabase
+      .from('histories')
+      .select(`
+        *,
+        performed_by_user:performed_by(id, username, role),
+        item:items!histories_item_id_fkey(*),
+        ${STOCK_LEVEL_JOIN}
+      `)
+      .eq('requested_by', userId)
+      .in('action', ['borrowed', 'returned', 'issued', 'received', 'rejected', 'cancelled'])
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch request outcomes: ${error.message}`);
+    }
+
+    return data || [];
+  }
 }
 
 export const historyService = new HistoryService();
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { supabase } from '../lib/supabase';
+import { itemService } from './itemService';
+import { pendingRequestService } from './pendingRequestService';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Item, PendingRequest } from '../lib/supabase';
+
+export interface InventorySnapshot {
+  items: Item[];
+  pendingRequests: PendingRequest[];
+  conflictingItemIds: Set<string>; // Items with both a borrow and a return request pending
+  revision: number; // Bumped on every refresh so paged views know to refetch
+  loading: boolean;
+  error: string | null;
+}
+
+// Must match the topic used by broadcast_inventory_change() in the database
+const CHANGES_TOPIC = 'inventory-changes';
+
+// One approval touches several rows, so bursts of changes are refetched once
+const REFRESH_DELAY_MS = 300;
+
+const initialSnapshot: InventorySnapshot = {
+  items: [],
+  pendingRequests: [],
+  conflictingItemIds: new Set(),
+  revision: 0,
+  loading: true,
+  error: null,
+};
+
+function getConflictingItemIds(requests: PendingRequest[]): Set<string> {
+  const typesByItem = requests.reduce((acc, request) => {
+    if (!acc[request.item_id]) {
+      acc[request.item_id] = new Set();
+    }
+    acc[request.item_id].add(request.type);
+    return acc;
+  }, {} as Record<string, Set<string>>);
+
+  return new Set(Object.keys(typesByItem).filter(itemId => typesByItem[itemId].size > 1));
+}
+
+/**
+ * Shared, live copy of items and pending requests.
+ * The database broadcasts a signal whenever either table changes (the payload
+ * carries no row data, so row-level security still decides what each user
+ * sees) and the store refetches both lists through the regular API.
+ */
+class InventoryStore {
+  private snapshot: InventorySnapshot = initialSnapshot;
+  private listeners = new Set<() => void>();
+  private channel: RealtimeChannel | null = null;
+  private retainCount = 0;
+  private itemsRetainCount = 0;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshSequence = 0;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): InventorySnapshot => this.snapshot;
+
+  /**
+   * Keep the realtime channel open while at least one page needs the data.
+   * Pages that load their own items (e.g. one page at a time) pass
+   * withItems: false so the full item list is not fetched for them.
+   * Returns the release function, ready to be used as an effect cleanup.
+   */
+  retain({ withItems = true }: { withItems?: boolean } = {}): () => void {
+    this.retainCount += 1;
+    if (withItems) {
+      this.itemsRetainCount += 1;
+    }
+
+    if (this.retainCount === 1) {
+      this.connect();
+      this.refresh();
+    } else if (withItems && this.itemsRetainCount === 1) {
+      this.refresh();
+    }
+
+    return () => {
+      this.retainCount -= 1;
+      if (withItems) {
+        this.itemsRetainCount -= 1;
+      }
+      if (this.retainCount === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  async refresh(): Promise<void> {
+    const sequence = ++this.refreshSequence;
+
+    try {
+      const [items, pendingRequests] = await Promise.all([
+        this.itemsRetainCount > 0 ? itemService.getItems() : Promise.resolve([]),
+        pendingRequestService.getAllPendingRequests()
+      ]);
+
+      // A newer refresh has started meanwhile, its result wins
+      if (sequence !== this.refreshSequence) return;
+
+      this.setSnapshot({
+        items,
+        pendingRequests,
+        conflictingItemIds: getConflictingItemIds(pendingRequests),
+        revision: this.snapshot.revision + 1,
+        loading: false,
+        error: null,
+      });
+    } catch (error) {
+      if (sequence !== this.refreshSequence) return;
+
+      this.setSnapshot({
+        ...this.snapshot,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to load data',
+      });
+    }
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+
+  private connect() {
+    this.channel = supabase
+      .channel(CHANGES_TOPIC)
+      .on('broadcast', { event: 'change' }, () => this.scheduleRefresh())
+      .subscribe((status) => {
+        // Changes made while the connection was down were never broadcast to us
+        if (status === 'SUBSCRIBED') {
+          this.scheduleRefresh();
+        }
+      });
+  }
+
+  private disconnect() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+
+    // Drop the data so the next user to sign in never sees a stale copy
+    this.refreshSequence += 1;
+    this.setSnapshot(initialSnapshot);
+  }
+
+  private setSnapshot(snapshot: InventorySnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const inventoryStore = new InventoryStore();
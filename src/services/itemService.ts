@@ -1,21 +1,87 @@
 import { supabase } from '../lib/supabase';
-import type { Item } from '../lib/supabase';
+import { parseItemCode } from '../lib/itemLinks';
+import { toLocalDateString } from '../lib/dates';
+import type { CustomFieldFormValues } from '../lib/customFields';
+import type { DepreciationMethod, Item } from '../lib/supabase';
 
 export interface ItemFormData {
   material: string;
+  material_id?: string | null; // Catalog entry; the database copies its name into material
   description?: string;
   serial_number: string;
+  warehouse_id?: string | null;
+  location_id?: string | null; // The database sets warehouse_id from the location
+  purchase_date?: string | null;
+  supplier?: string | null;
+  purchase_cost?: number | null;
+  warranty_expiry?: string | null;
+  depreciation_method?: DepreciationMethod;
+  useful_life_months?: number | null;
+  salvage_value?: number;
+  custom_fields?: CustomFieldFormValues; // Keyed by field id of the material's category
+}
+
+// Book value of one costed item on the valuation date
+export interface ItemValuation {
+  item_id: string;
+  material: string;
+  serial_number: string;
+  category: string | null;
+  supplier: string | null;
+  purchase_date: string | null;
+  purchase_cost: number;
+  warranty_expiry: string | null;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number | null;
+  salvage_value: number;
+  book_value: number;
+}
+
+// 'all' means every item that is not archived
+export type ItemStatusFilter = 'all' | 'available' | 'used' | 'overdue' | 'maintenance' | 'archived';
+
+export type ItemSortColumn = 'material' | 'description' | 'serial_number' | 'status' | 'created_at' | 'updated_at' | 'due_date';
+
+export interface ItemQuery {
+  status: ItemStatusFilter;
+  warehouseId: string | null; // null means every warehouse
+  search: string;
+  sortBy: ItemSortColumn;
+  ascending: boolean;
+}
+
+export interface ItemPage {
+  items: Item[];
+  total: number; // items matching the query across all pages
+}
+
+const ITEM_SELECT = `
+  *,
+  last_used_by_user:last_used_by(id, username, role),
+  changed_by_user:changed_by(id, username, role),
+  catalog_material:materials!items_material_id_fkey(*, category:material_categories!materials_category_id_fkey(*)),
+  warehouse:warehouses!items_warehouse_id_fkey(*),
+  location:locations!items_location_id_fkey(*)
+`;
+
+// PostgREST never returns more rows than this in one response
+const MAX_ROWS_PER_REQUEST = 1000;
+
+/**
+ * Turn free text into an ilike pattern for a PostgREST filter. LIKE wildcards
+ * are escaped so they match literally, and the value is quoted so commas and
+ * parentheses cannot break the surrounding or() expression.
+ */
+function toIlikeFilterValue(text: string): string {
+  const pattern = `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+  return `"${pattern.replace(/["\\]/g, char => `\\${char}`)}"`;
 }
 
 class ItemService {
   async getItems(): Promise<Item[]> {
     const { data, error } = await supabase
       .from('items')
-      .select(`
-        *,
-        last_used_by_user:last_used_by(id, username, role),
-        changed_by_user:changed_by(id, username, role)
-      `)
+      .select(ITEM_SELECT)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -25,14 +91,73 @@ class ItemService {
     return data || [];
   }
 
+  private queryItems(query: ItemQuery, count?: 'exact') {
+    let request = supabase
+      .from('items')
+      .select(ITEM_SELECT, { count });
+
+    if (query.status === 'all') {
+      request = request.neq('status', 'archived');
+    } else if (query.status === 'overdue') {
+      request = request.eq('status', 'used').lt('due_date', toLocalDateString(new Date()));
+    } else {
+      request = request.eq('status', query.status);
+    }
+
+    if (query.warehouseId) {
+      request = request.eq('warehouse_id', query.warehouseId);
+    }
+
+    const search = query.search.trim();
+    if (search) {
+      const value = toIlikeFilterValue(search);
+      request = request.or(`material.ilike.${value},description.ilike.${value},serial_number.ilike.${value},custom_field_search.ilike.${value}`);
+    }
+
+    // The id tie-breaker keeps rows from jumping between pages when sort values are equal
+    return request
+      .order(query.sortBy, { ascending: query.ascending, nullsFirst: false })
+      .order('id', { ascending: true });
+  }
+
+  /**
+   * One page of items matching the query, filtered, searched and sorted by the database
+   */
+  async getItemPage(query: ItemQuery, pageIndex: number, pageSize: number): Promise<ItemPage> {
+    const from = pageIndex * pageSize;
+    const { data, error, count } = await this.queryItems(query, 'exact').range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch items: ${error.message}`);
+    }
+
+    return { items: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Every item matching the query, fetched in chunks (used for exports)
+   */
+  async getMatchingItems(query: ItemQuery): Promise<Item[]> {
+    const items: Item[] = [];
+
+    for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await this.queryItems(query).range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch items: ${error.message}`);
+      }
+
+      items.push(...(data || []));
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+
+    return items;
+  }
+
   async getItemById(id: string): Promise<Item | null> {
     const { data, error } = await supabase
       .from('items')
-      .select(`
-        *,
-        last_used_by_user:last_used_by(id, username, role),
-        changed_by_user:changed_by(id, username, role)
-      `)
+      .select(ITEM_SELECT)
       .eq('id', id)
       .single();
 
@@ -44,13 +169,42 @@ class ItemService {
     return data;
   }
 
+  async getItemBySerialNumber(serialNumber: string): Promise<Item | null> {
+    const { data, error } = await supabase
+      .from('items')
+      .select(ITEM_SELECT)
+      .eq('serial_number', serialNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch item: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find the item behind a scanned label, a typed item id or a serial number
+   */
+  async getItemByCode(code: string): Promise<Item | null> {
+    const parsed = parseItemCode(code);
+    if ('itemId' in parsed) {
+      return this.getItemById(parsed.itemId);
+    }
+    return parsed.serialNumber ? this.getItemBySerialNumber(parsed.serialNumber) : null;
+  }
+
   async createItem(itemData: ItemFormData, changedBy: string): Promise<Item> {
     const { data, error } = await supabase
       .from('items')
       .insert({
         material: itemData.material,
+        material_id: itemData.material_id || null,
         description: itemData.description || null,
         serial_number: itemData.serial_number,
+        warehouse_id: itemData.warehouse_id || null,
+        location_id: itemData.location_id || null,
+        custom_fields: itemData.custom_fields || {},
         status: 'available',
         changed_by: changedBy,
       })
@@ -67,6 +221,53 @@ class ItemService {
     return data;
   }
 
+  /**
+   * Import many items in one transaction, each with a 'created' history entry.
+   * Nothing is saved if any serial number already exists.
+   */
+  async importItems(items: ItemFormData[], createdBy: string): Promise<number> {
+    const { data, error } = await supabase.rpc('import_items', {
+      p_items: items.map(item => ({
+        material: item.material,
+        description: item.description || null,
+        serial_number: item.serial_number,
+      })),
+      p_created_by: createdBy,
+    });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('One or more serial numbers already exist');
+      }
+      throw new Error(`Failed to import items: ${error.message}`);
+    }
+
+    return (data as { created_count: number }).created_count;
+  }
+
+  /**
+   * Return which of the given serial numbers are already taken
+   */
+  async findExistingSerialNumbers(serialNumbers: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    const chunkSize = 100; // keeps the filter within URL length limits
+
+    for (let i = 0; i < serialNumbers.length; i += chunkSize) {
+      const { data, error } = await supabase
+        .from('items')
+        .select('serial_number')
+        .in('serial_number', serialNumbers.slice(i, i + chunkSize));
+
+      if (error) {
+        throw new Error(`Failed to check serial numbers: ${error.message}`);
+      }
+
+      data?.forEach(row => existing.add(row.serial_number));
+    }
+
+    return existing;
+  }
+
   async updateItem(id: string, itemData: Partial<ItemFormData>, changedBy: string): Promise<Item> {
     const { data, error } = await supabase
       .from('items')
@@ -86,6 +287,20 @@ class ItemService {
     return data;
   }
 
+  /**
+   * Book value of every costed item held on the given date (YYYY-MM-DD),
+   * ordered by category. Only values the items the current user can see.
+   */
+  async getValuation(asOf: string): Promise<ItemValuation[]> {
+    const { data, error } = await supabase.rpc('get_item_valuation', { p_as_of: asOf });
+
+    if (error) {
+      throw new Error(`Failed to fetch item valuation: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   async updateItemStatus(
     id: string, 
     status: Item['status'], 
@@ -138,11 +353,7 @@ class ItemService {
   async searchItems(query: string): Promise<Item[]> {
     const { data, error } = await supabase
       .from('items')
-      .select(`
-        *,
-        last_used_by_user:last_used_by(id, username, role),
-        changed_by_user:changed_by(id, username, role)
-      `)
+      .select(ITEM_SELECT)
       .neq('status', 'archived')
       .or(`material.ilike.%${query}%,serial_number.ilike.%${query}%`)
       .limit(10);
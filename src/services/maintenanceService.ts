@@ -0,0 +1,169 @@
+import { supabase } from '../lib/supabase';
+import type { Item, MaintenancePlan } from '../lib/supabase';
+import { historyService } from './historyService';
+import { itemService } from './itemService';
+
+export interface MaintenancePlanFormData {
+  name: string;
+  interval_days: number;
+  last_service_date: string | null;
+  // Exactly one of these is set
+  material_id: string | null;
+  item_id: string | null;
+}
+
+interface RecordServiceParams {
+  item_id: string;
+  plan_id: string | null;
+  service_date: string;
+  performed_by: string;
+  notes?: string;
+}
+
+// One plan applied to one item, with its due dates
+export interface ScheduledService {
+  plan_id: string;
+  plan_name: string;
+  interval_days: number;
+  item_id: string;
+  material: string;
+  serial_number: string;
+  status: Item['status'];
+  last_service_date: string; // YYYY-MM-DD
+  next_due_date: string; // YYYY-MM-DD
+}
+
+export interface RecordServiceResult {
+  service_record_id: string;
+  item_id: string;
+  previous_status: Item['status'];
+  new_status: Item['status'];
+}
+
+class MaintenanceService {
+  /**
+   * Plans for the item itself and for its catalog material
+   */
+  async getPlansForItem(item: Pick<Item, 'id' | 'material_id'>): Promise<MaintenancePlan[]> {
+    const filter = item.material_id
+      ? `item_id.eq.${item.id},material_id.eq.${item.material_id}`
+      : `item_id.eq.${item.id}`;
+
+    const { data, error } = await supabase
+      .from('maintenance_plans')
+      .select('*')
+      .or(filter)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch maintenance plans: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createPlan(planData: MaintenancePlanFormData, createdBy: string): Promise<MaintenancePlan> {
+    if (!planData.name.trim()) {
+      throw new Error('Plan name is required');
+    }
+
+    if (!Number.isInteger(planData.interval_days) || planData.interval_days <= 0) {
+      throw new Error('Interval must be a whole number of days greater than zero');
+    }
+
+    const { data, error } = await supabase
+      .from('maintenance_plans')
+      .insert({
+        name: planData.name.trim(),
+        interval_days: planData.interval_days,
+        last_service_date: planData.last_service_date || null,
+        material_id: planData.material_id,
+        item_id: planData.material_id ? null : planData.item_id,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create maintenance plan: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a plan. Its service records stay, no longer linked to a plan.
+   */
+  async deletePlan(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('maintenance_plans')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete maintenance plan: ${error.message}`);
+    }
+  }
+
+  /**
+   * Due dates of every plan per item, soonest first. Pass withinDays to only
+   * get services due by then, overdue ones included.
+   */
+  async getSchedule(options: { itemId?: string; withinDays?: number } = {}): Promise<ScheduledService[]> {
+    const { data, error } = await supabase.rpc('get_maintenance_schedule', {
+      p_item_id: options.itemId ?? null,
+      p_within_days: options.withinDays ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch maintenance schedule: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record a completed service. An item in maintenance becomes available again.
+   */
+  async recordService(params: RecordServiceParams): Promise<RecordServiceResult> {
+    const { data, error } = await supabase.rpc('record_service', {
+      p_item_id: params.item_id,
+      p_plan_id: params.plan_id,
+      p_service_date: params.service_date,
+      p_performed_by: params.performed_by,
+      p_notes: params.notes?.trim() || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record service: ${error.message}`);
+    }
+
+    return data as RecordServiceResult;
+  }
+
+  /**
+   * Take an available item out of circulation, e.g. to send it for calibration
+   */
+  async sendToMaintenance(item: Item, performedBy: string, reason: string): Promise<void> {
+    if (item.status !== 'available') {
+      throw new Error('Only available items can be sent to maintenance');
+    }
+
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+
+    await itemService.updateItemStatus(item.id, 'maintenance', performedBy);
+
+    await historyService.createEntry({
+      item_id: item.id,
+      action: 'sent_to_maintenance',
+      performed_by: performedBy,
+      details: `Sent to maintenance: ${reason.trim()}`,
+      previous_status: item.status,
+      new_status: 'maintenance'
+    });
+  }
+}
+
+export const maintenanceService = new MaintenanceService();
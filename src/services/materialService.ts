@@ -0,0 +1,182 @@
+import { supabase } from '../lib/supabase';
+import type { Material, MaterialCategory } from '../lib/supabase';
+
+export interface MaterialFormData {
+  name: string;
+  category_id: string | null;
+  unit: string;
+  manufacturer?: string;
+  model?: string;
+  stock_type: Material['stock_type'];
+  min_available: number | null;
+}
+
+// A free-text material of items that are not linked to the catalog yet
+export interface UnlinkedMaterial {
+  material: string;
+  item_count: number;
+}
+
+// A material whose available quantity is below its minimum
+export interface LowStockMaterial {
+  material_id: string;
+  name: string;
+  unit: string;
+  stock_type: Material['stock_type'];
+  min_available: number;
+  available: number;
+}
+
+const MATERIAL_SELECT = '*, category:material_categories!materials_category_id_fkey(*)';
+
+class MaterialService {
+  async getCategories(): Promise<MaterialCategory[]> {
+    const { data, error } = await supabase
+      .from('material_categories')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch categories: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createCategory(name: string): Promise<MaterialCategory> {
+    const { data, error } = await supabase
+      .from('material_categories')
+      .insert({ name: name.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A category with this name already exists');
+      }
+      throw new Error(`Failed to create category: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getMaterials(stockType?: Material['stock_type']): Promise<Material[]> {
+    let query = supabase
+      .from('materials')
+      .select(MATERIAL_SELECT);
+
+    if (stockType) {
+      query = query.eq('stock_type', stockType);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch materials: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createMaterial(materialData: MaterialFormData): Promise<Material> {
+    const { data, error } = await supabase
+      .from('materials')
+      .insert({
+        name: materialData.name.trim(),
+        category_id: materialData.category_id || null,
+        unit: materialData.unit.trim() || 'pcs',
+        manufacturer: materialData.manufacturer?.trim() || null,
+        model: materialData.model?.trim() || null,
+        stock_type: materialData.stock_type,
+        min_available: materialData.min_available,
+      })
+      .select(MATERIAL_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A material with this name already exists');
+      }
+      throw new Error(`Failed to create material: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a catalog entry. Renaming it renames every item linked to it.
+   */
+  async updateMaterial(id: string, materialData: MaterialFormData): Promise<Material> {
+    const { data, error } = await supabase
+      .from('materials')
+      .update({
+        name: materialData.name.trim(),
+        category_id: materialData.category_id || null,
+        unit: materialData.unit.trim() || 'pcs',
+        manufacturer: materialData.manufacturer?.trim() || null,
+        model: materialData.model?.trim() || null,
+        stock_type: materialData.stock_type,
+        min_available: materialData.min_available,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select(MATERIAL_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A material with this name already exists');
+      }
+      throw new Error(`Failed to update material: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Materials below their minimum, the emptiest first. Counts only the stock
+   * the current user can see.
+   */
+  async getLowStockMaterials(): Promise<LowStockMaterial[]> {
+    const { data, error } = await supabase.rpc('get_low_stock_materials');
+
+    if (error) {
+      throw new Error(`Failed to fetch low stock materials: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getUnlinkedMaterials(): Promise<UnlinkedMaterial[]> {
+    const { data, error } = await supabase.rpc('get_unlinked_materials');
+
+    if (error) {
+      throw new Error(`Failed to fetch unlinked materials: ${error.message}`);
+    }
+
+    return (data || []).map((row: { material: string; item_count: number | string }) => ({
+      material: row.material,
+      item_count: Number(row.item_count), // bigint arrives as a string
+    }));
+  }
+
+  /**
+   * Link every unlinked item whose material is one of the given names to a
+   * catalog entry. Returns how many items were linked.
+   */
+  async linkItems(materialId: string, names: string[], changedBy: string): Promise<number> {
+    const { data, error } = await supabase.rpc('link_items_to_material', {
+      p_material_id: materialId,
+      p_names: names,
+      p_changed_by: changedBy,
+    });
+
+    if (error) {
+      throw new Error(`Failed to link items: ${error.message}`);
+    }
+
+    return (data as { linked_count: number }).linked_count;
+  }
+}
+
+export const materialService = new MaterialService();
@@ -0,0 +1,59 @@
+import { supabase } from '../lib/supabase';
+import type { Notification } from '../lib/supabase';
+
+class NotificationService {
+  async getNotifications(userId: string, limit: number = 20): Promise<Notification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, user_id, type, title, message, item_id, read_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to count unread notifications: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  async markAsRead(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to mark notification as read: ${error.message}`);
+    }
+  }
+
+  async markAllAsRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -1,12 +1,34 @@
 import { supabase } from '../lib/supabase';
 import { itemService } from './itemService';
-import { historyService } from './historyService';
-import type { PendingRequest } from '../lib/supabase';
+import { toLocalDateString } from '../lib/dates';
+import type { Item, ItemCondition, PendingRequest, StockRequest } from '../lib/supabase';
 
 interface CreateRequestParams {
   item_id: string;
   requested_by: string;
   action_type: 'use' | 'return';
+  expected_return_date?: string;
+  return_condition?: ItemCondition;
+  return_notes?: string;
+}
+
+interface CreateBatchRequestParams {
+  item_ids: string[];
+  requested_by: string;
+  purpose: string;
+  expected_return_date: string;
+}
+
+export interface RequestDecisionResult {
+  request_id: string;
+  item_id: string | null; // null for stock requests
+  stock_level_id?: string | null;
+  type: PendingRequest['type'] | StockRequest['type'];
+  previous_status: Item['status'] | null;
+  new_status: Item['status'] | null;
+  due_date?: string | null;
+  new_quantity?: number; // Stock balance after an approved issue or receipt
+  rejected_count: number;
 }
 
 class PendingRequestService {
@@ -22,12 +44,28 @@ class PendingRequestService {
       throw new Error('You already have a pending request for this item');
     }
 
+    // Borrow requests must say when the item will come back
+    if (params.action_type === 'use') {
+      if (!params.expected_return_date) {
+        throw new Error('Expected return date is required');
+      }
+      if (params.expected_return_date < toLocalDateString(new Date())) {
+        throw new Error('Expected return date cannot be in the past');
+      }
+    }
+
     // Validate return requests
     if (params.action_type === 'return') {
       const validation = await itemService.validateReturnRequest(params.item_id, params.requested_by);
       if (!validation.valid) {
         throw new Error(validation.message || 'Cannot create return request');
       }
+      if (!params.return_condition) {
+        throw new Error('Report the condition of the item');
+      }
+      if (params.return_condition !== 'good' && !params.return_notes?.trim()) {
+        throw new Error('Describe what is wrong with the item');
+      }
     }
 
     const { data, error } = await supabase
@@ -36,6 +74,9 @@ class PendingRequestService {
         item_id: params.item_id,
         type: params.action_type,
         requested_by: params.requested_by,
+        expected_return_date: params.action_type === 'use' ? params.expected_return_date : null,
+        return_condition: params.action_type === 'return' ? params.return_condition : null,
+        return_notes: params.action_type === 'return' ? params.return_notes?.trim() || null : null,
       })
       .select()
       .single();
@@ -47,14 +88,47 @@ class PendingRequestService {
     return data;
   }
 
+  /**
+   * Request several available items at once. All requests are created in one
+   * transaction, so either every item is requested or none is.
+   */
+  async createBatchRequest(params: CreateBatchRequestParams): Promise<string> {
+    if (params.item_ids.length === 0) {
+      throw new Error('Select at least one item');
+    }
+
+    if (!params.purpose.trim()) {
+      throw new Error('Purpose is required');
+    }
+
+    if (!params.expected_return_date) {
+      throw new Error('Expected return date is required');
+    }
+
+    const { data, error } = await supabase.rpc('create_request_batch', {
+      p_item_ids: params.item_ids,
+      p_requested_by: params.requested_by,
+      p_purpose: params.purpose,
+      p_expected_return_date: params.expected_return_date,
+    });
+
+    if (error) {
+      throw new Error(`Failed to create request batch: ${error.message}`);
+    }
+
+    return data as string;
+  }
+
   async getAllPendingRequests(): Promise<PendingRequest[]> {
     const { data, error } = await supabase
       .from('pending_requests')
       .select(`
         *,
         item:items!pending_requests_item_id_fkey(*),
-        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role)
+        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role),
+        batch:request_batches!pending_requests_batch_id_fkey(*)
       `)
+      .not('item_id', 'is', null) // Stock requests are loaded by stockService
       .order('requested_at', { ascending: false });
 
     if (error) {
@@ -70,7 +144,8 @@ class PendingRequestService {
       .select(`
         *,
         item:items!pending_requests_item_id_fkey(*),
-        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role)
+        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role),
+        batch:request_batches!pending_requests_batch_id_fkey(*)
       `)
       .eq('item_id', itemId)
       .order('requested_at', { ascending: false });
@@ -99,9 +174,11 @@ class PendingRequestService {
       .select(`
         *,
         item:items!pending_requests_item_id_fkey(*),
-        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role)
+        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role),
+        batch:request_batches!pending_requests_batch_id_fkey(*)
       `)
       .eq('requested_by', userId)
+      .not('item_id', 'is', null)
       .order('requested_at', { ascending: false });
 
     if (error) {
@@ -113,142 +190,96 @@ class PendingRequestService {
 
   /**
    * Approve a request and automatically reject ALL other pending requests for the same item
-   * This ensures only one user gets the item and prevents double allocation
+   * This ensures only one user gets the item and prevents double allocation.
+   * Runs as a single database transaction that locks the item row.
+   * A returned item can be sent to maintenance instead of back to available.
    */
-  async approveRequest(requestId: string, approvedBy: string): Promise<void> {
-    // Get the request details first
-    const { data: request, error: requestError } = await supabase
-      .from('pending_requests')
-      .select(`
-        *,
-        item:items!pending_requests_item_id_fkey(*),
-        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role)
-      `)
-      .eq('id', requestId)
-      .single();
+  async approveRequest(requestId: string, approvedBy: string, toMaintenance: boolean = false): Promise<RequestDecisionResult> {
+    const { data, error } = await supabase.rpc('approve_pending_request', {
+      p_request_id: requestId,
+      p_approved_by: approvedBy,
+      p_to_maintenance: toMaintenance,
+    });
 
-    if (requestError || !request) {
-      throw new Error('Request not found');
-    }
-
-    if (!request.item) {
-      throw new Error('Item data not found in request');
+    if (error) {
+      throw new Error(`Failed to approve request: ${error.message}`);
     }
 
-    // Get ALL pending requests for the same item (regardless of action type)
-    // This ensures we handle conflicts between different types of requests
-    const allPendingRequests = await this.getPendingRequestsForItem(request.item_id);
-    
-    // Find other requests (excluding the one being approved)
-    const otherRequests = allPendingRequests.filter(r => r.id !== requestId);
+    return data as RequestDecisionResult;
+  }
 
-    // Determine new status based on request type
-    const newStatus = request.type === 'use' ? 'used' : 'available';
-    
-    // Prepare additional data for item update
-    const additionalData: {
-      last_used_by?: string | null;
-    } = {};
-
-    // Set last_used_by based on the request type
-    if (request.type === 'use') {
-      additionalData.last_used_by = request.requested_by;
-    } else if (request.type === 'return') {
-      additionalData.last_used_by = null;
+  /**
+   * Reject a specific request. The reason is shown to the requester.
+   */
+  async rejectRequest(requestId: string, rejectedBy: string, reason: string): Promise<RequestDecisionResult> {
+    if (!reason.trim()) {
+      throw new Error('A rejection reason is required');
     }
 
-    try {
-      // Start a transaction-like operation
-      // 1. Update item status first
-      await itemService.updateItemStatus(request.item.id, newStatus, approvedBy, additionalData);
-
-      // 2. Add history entry for the approved request
-      await historyService.createEntry({
-        item_id: request.item.id,
-        action: request.type === 'use' ? 'borrowed' : 'returned',
-        performed_by: approvedBy,
-        details: `Request approved - ${request.type === 'use' ? 'Item borrowed' : 'Item returned'} by ${request.requested_by_user?.username}`,
-        previous_status: request.item.status,
-        new_status: newStatus
-      });
-
-      // 3. Add history entries for ALL other rejected requests
-      for (const otherRequest of otherRequests) {
-        if (otherRequest.requested_by_user) {
-          const actionDescription = otherRequest.type === 'use' ? 'borrow' : 'return';
-          await historyService.createEntry({
-            item_id: request.item.id,
-            action: 'rejected',
-            performed_by: approvedBy,
-            details: `Request automatically rejected - ${otherRequest.requested_by_user.username}'s ${actionDescription} request was denied because ${request.requested_by_user?.username}'s ${request.type} request was approved`,
-            previous_status: request.item.status,
-            new_status: newStatus
-          });
-        }
-      }
+    const { data, error } = await supabase.rpc('reject_pending_request', {
+      p_request_id: requestId,
+      p_rejected_by: rejectedBy,
+      p_reason: reason.trim(),
+    });
 
-      // 4. Delete ALL pending requests for this item (including the approved one)
-      const { error: deleteError } = await supabase
-        .from('pending_requests')
-        .delete()
-        .eq('item_id', request.item_id);
+    if (error) {
+      throw new Error(`Failed to reject request: ${error.message}`);
+    }
 
-      if (deleteError) {
-        console.error('Failed to delete pending requests:', deleteError);
-        throw new Error(`Failed to delete pending requests: ${deleteError.message}`);
-      }
+    return data as RequestDecisionResult;
+  }
 
-      console.log(`Approved request ${requestId} and rejected ${otherRequests.length} other requests for item ${request.item.id}`);
+  /**
+   * Withdraw one of the caller's own pending requests
+   */
+  async cancelRequest(requestId: string, cancelledBy: string): Promise<RequestDecisionResult> {
+    const { data, error } = await supabase.rpc('cancel_pending_request', {
+      p_request_id: requestId,
+      p_cancelled_by: cancelledBy,
+    });
 
-    } catch (error) {
-      console.error('Error in approveRequest:', error);
-      throw error;
+    if (error) {
+      throw new Error(`Failed to cancel request: ${error.message}`);
     }
+
+    return data as RequestDecisionResult;
   }
 
   /**
-   * Reject a specific request
+   * Approve every request still pending in a batch, each item getting its own history entry
    */
-  async rejectRequest(requestId: string, rejectedBy: string): Promise<void> {
-    // Get the request details first
-    const { data: request, error: requestError } = await supabase
-      .from('pending_requests')
-      .select(`
-        *,
-        item:items!pending_requests_item_id_fkey(*),
-        requested_by_user:users!pending_requests_requested_by_fkey(id, username, role)
-      `)
-      .eq('id', requestId)
-      .single();
+  async approveBatch(batchId: string, approvedBy: string): Promise<RequestDecisionResult[]> {
+    const { data, error } = await supabase.rpc('approve_request_batch', {
+      p_batch_id: batchId,
+      p_approved_by: approvedBy,
+    });
 
-    if (requestError || !request) {
-      throw new Error('Request not found');
+    if (error) {
+      throw new Error(`Failed to approve request batch: ${error.message}`);
     }
 
-    if (!request.item) {
-      throw new Error('Item data not found in request');
+    return data as RequestDecisionResult[];
+  }
+
+  /**
+   * Reject every request still pending in a batch
+   */
+  async rejectBatch(batchId: string, rejectedBy: string, reason: string): Promise<RequestDecisionResult[]> {
+    if (!reason.trim()) {
+      throw new Error('A rejection reason is required');
     }
 
-    try {
-      // Add history entry for the rejected request
-      await historyService.createEntry({
-        item_id: request.item.id,
-        action: 'rejected',
-        performed_by: rejectedBy,
-        details: `Request manually rejected - ${request.requested_by_user?.username}'s ${request.type} request was denied by admin`,
-        previous_status: request.item.status,
-        new_status: request.item.status // Status remains the same for rejection
-      });
-
-      // Delete only the specific request
-      await this.deleteRequest(requestId);
-
-      console.log(`Rejected request ${requestId} for item ${request.item.id}`);
-
-    } catch (error) {
-      console.error('Error in rejectRequest:', error);
-      throw error;
+    const { data, error } = await supabase.rpc('reject_request_batch', {
+      p_batch_id: batchId,
+      p_rejected_by: rejectedBy,
+      p_reason: reason.trim(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to reject request batch: ${error.message}`);
     }
+
+    return data as RequestDecisionResult[];
   }
 
   /**
@@ -0,0 +1,206 @@
+import { supabase } from '../lib/supabase';
+import type { StockLevel, StockMovement, StockRequest } from '../lib/supabase';
+
+interface CreateStockRequestParams {
+  stock_level_id: string;
+  requested_by: string;
+  type: StockRequest['type'];
+  quantity: number;
+}
+
+const STOCK_LEVEL_SELECT = `
+  *,
+  material:materials!stock_levels_material_id_fkey(*, category:material_categories!materials_category_id_fkey(*)),
+  warehouse:warehouses!stock_levels_warehouse_id_fkey(*),
+  location:locations!stock_levels_location_id_fkey(*)
+`;
+
+const STOCK_REQUEST_SELECT = `
+  *,
+  requested_by_user:users!pending_requests_requested_by_fkey(id, username, role),
+  stock_level:stock_levels!pending_requests_stock_level_id_fkey(${STOCK_LEVEL_SELECT})
+`;
+
+function assertPositiveQuantity(quantity: number) {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Quantity must be a whole number greater than zero');
+  }
+}
+
+class StockService {
+  async getStockLevels(warehouseId?: string | null): Promise<StockLevel[]> {
+    let query = supabase
+      .from('stock_levels')
+      .select(STOCK_LEVEL_SELECT);
+
+    if (warehouseId) {
+      query = query.eq('warehouse_id', warehouseId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch stock levels: ${error.message}`);
+    }
+
+    return (data || []).sort((a, b) => (a.material?.name ?? '').localeCompare(b.material?.name ?? ''));
+  }
+
+  /**
+   * Start stocking a consumable at a place. New stock levels are empty, the
+   * first quantity arrives through a receipt or an adjustment.
+   */
+  async createStockLevel(materialId: string, warehouseId: string, locationId: string | null): Promise<StockLevel> {
+    const { data, error } = await supabase
+      .from('stock_levels')
+      .insert({
+        material_id: materialId,
+        warehouse_id: warehouseId,
+        location_id: locationId,
+        quantity: 0,
+      })
+      .select(STOCK_LEVEL_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This material is already stocked at that place');
+      }
+      throw new Error(`Failed to create stock level: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Correct a balance after a stock count. The database applies the change and
+   * refuses it if the balance would drop below zero.
+   */
+  async adjustStock(stockLevelId: string, quantityChange: number, performedBy: string, note: string): Promise<StockMovement> {
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      throw new Error('Adjustment must be a whole number other than zero');
+    }
+
+    if (!note.trim()) {
+      throw new Error('A note explaining the adjustment is required');
+    }
+
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .insert({
+        stock_level_id: stockLevelId,
+        type: 'adjust',
+        quantity_change: quantityChange,
+        performed_by: performedBy,
+        note: note.trim(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to adjust stock: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Ledger entries, newest first, for one stock level or for every visible one
+   */
+  async getMovements(stockLevelId?: string, limit: number = 200): Promise<StockMovement[]> {
+    let query = supabase
+      .from('stock_movements')
+      .select(`
+        *,
+        performed_by_user:users!stock_movements_performed_by_fkey(id, username, role),
+        requested_by_user:users!stock_movements_requested_by_fkey(id, username, role),
+        stock_level:stock_levels!stock_movements_stock_level_id_fkey(${STOCK_LEVEL_SELECT})
+      `);
+
+    if (stockLevelId) {
+      query = query.eq('stock_level_id', stockLevelId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch stock movements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Ask for stock to be issued or received. The request is approved or
+   * rejected like a borrow request; the balance only changes on approval.
+   */
+  async createRequest(params: CreateStockRequestParams): Promise<StockRequest> {
+    assertPositiveQuantity(params.quantity);
+
+    if (params.type === 'issue') {
+      const { data: level, error: levelError } = await supabase
+        .from('stock_levels')
+        .select('quantity')
+        .eq('id', params.stock_level_id)
+        .single();
+
+      if (levelError) {
+        throw new Error(`Failed to check stock level: ${levelError.message}`);
+      }
+
+      if (params.quantity > level.quantity) {
+        throw new Error(`Only ${level.quantity} on hand`);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('pending_requests')
+      .insert({
+        stock_level_id: params.stock_level_id,
+        type: params.type,
+        quantity: params.quantity,
+        requested_by: params.requested_by,
+      })
+      .select(STOCK_REQUEST_SELECT)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create request: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getPendingRequests(): Promise<StockRequest[]> {
+    const { data, error } = await supabase
+      .from('pending_requests')
+      .select(STOCK_REQUEST_SELECT)
+      .not('stock_level_id', 'is', null)
+      .order('requested_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch stock requests: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getRequestsByUser(userId: string): Promise<StockRequest[]> {
+    const { data, error } = await supabase
+      .from('pending_requests')
+      .select(STOCK_REQUEST_SELECT)
+      .not('stock_level_id', 'is', null)
+      .eq('requested_by', userId)
+      .order('requested_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch stock requests: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+export const stockService = new StockService();
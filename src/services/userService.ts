@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { User, UserPublicData } from '../lib/supabase';
+import type { UserPublicData } from '../lib/supabase';
 
 export interface CreateUserData {
   username: string;
@@ -8,16 +8,16 @@ export interface CreateUserData {
 }
 
 class UserService {
-  async createUser(userData: CreateUserData): Promise<User> {
+  async createUser(userData: CreateUserData): Promise<UserPublicData> {
     const { data, error } = await supabase
       .from('users')
       .insert({
         username: userData.username,
-        password: userData.password, // Note: In production, use proper password hashing
+        password: userData.password, // Hashed by the users_hash_password trigger
         role: userData.role,
         status: 'active', // New accounts are active by default
       })
-      .select()
+      .select('id, username, role, status, warehouse_id')
       .single();
 
     if (error) {
@@ -33,7 +33,7 @@ class UserService {
   async getAllUsers(): Promise<UserPublicData[]> {
     const { data, error } = await supabase
       .from('users')
-      .select('id, username, role, status')
+      .select('id, username, role, status, warehouse_id')
       .order('username', { ascending: true });
 
     if (error) {
@@ -46,7 +46,7 @@ class UserService {
   async getUserById(id: string): Promise<UserPublicData | null> {
     const { data, error } = await supabase
       .from('users')
-      .select('id, username, role, status')
+      .select('id, username, role, status, warehouse_id')
       .eq('id', id)
       .single();
 
@@ -59,11 +59,12 @@ class UserService {
   }
 
   async updateUser(id: string, userData: Partial<CreateUserData & { status?: 'active' | 'deactive' }>): Promise<UserPublicData> {
+    // A new password is hashed by the users_hash_password trigger before it is stored
     const { data, error } = await supabase
       .from('users')
       .update(userData)
       .eq('id', id)
-      .select('id, username, role, status')
+      .select('id, username, role, status, warehouse_id')
       .single();
 
     if (error) {
@@ -81,7 +82,7 @@ class UserService {
       .from('users')
       .update({ status: newStatus })
       .eq('id', id)
-      .select('id, username, role, status')
+      .select('id, username, role, status, warehouse_id')
       .single();
 
     if (error) {
@@ -91,6 +92,24 @@ class UserService {
     return data;
   }
 
+  /**
+   * Restrict a manager to one warehouse, or lift the restriction with null
+   */
+  async setUserWarehouse(id: string, warehouseId: string | null): Promise<UserPublicData> {
+    const { data, error } = await supabase
+      .from('users')
+      .update({ warehouse_id: warehouseId })
+      .eq('id', id)
+      .select('id, username, role, status, warehouse_id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update warehouse scope: ${error.message}`);
+    }
+
+    return data;
+  }
+
   async deleteUser(id: string): Promise<void> {
     const { error } = await supabase
       .from('users')
@@ -0,0 +1,151 @@
+import { supabase } from '../lib/supabase';
+import type { Location, Warehouse } from '../lib/supabase';
+
+export interface WarehouseFormData {
+  name: string;
+  address?: string;
+}
+
+export interface LocationFormData {
+  zone: string;
+  rack?: string;
+  bin?: string;
+}
+
+class WarehouseService {
+  async getWarehouses(): Promise<Warehouse[]> {
+    const { data, error } = await supabase
+      .from('warehouses')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch warehouses: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createWarehouse(warehouseData: WarehouseFormData): Promise<Warehouse> {
+    const { data, error } = await supabase
+      .from('warehouses')
+      .insert({
+        name: warehouseData.name.trim(),
+        address: warehouseData.address?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A warehouse with this name already exists');
+      }
+      throw new Error(`Failed to create warehouse: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateWarehouse(id: string, warehouseData: WarehouseFormData): Promise<Warehouse> {
+    const { data, error } = await supabase
+      .from('warehouses')
+      .update({
+        name: warehouseData.name.trim(),
+        address: warehouseData.address?.trim() || null,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A warehouse with this name already exists');
+      }
+      throw new Error(`Failed to update warehouse: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Locations of every warehouse, ordered the way they are laid out
+   */
+  async getLocations(): Promise<Location[]> {
+    const { data, error } = await supabase
+      .from('locations')
+      .select('*')
+      .order('zone', { ascending: true })
+      .order('rack', { ascending: true, nullsFirst: true })
+      .order('bin', { ascending: true, nullsFirst: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch locations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async createLocation(warehouseId: string, locationData: LocationFormData): Promise<Location> {
+    const { data, error } = await supabase
+      .from('locations')
+      .insert({
+        warehouse_id: warehouseId,
+        zone: locationData.zone.trim(),
+        rack: locationData.rack?.trim() || null,
+        bin: locationData.bin?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This location already exists in the warehouse');
+      }
+      throw new Error(`Failed to create location: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a location. Items stored there stay in the warehouse without a location.
+   */
+  async deleteLocation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('locations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete location: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move items to a warehouse, optionally into one of its locations. Each item
+   * that moves gets a 'transferred' history entry. Returns how many items moved.
+   */
+  async transferItems(
+    itemIds: string[],
+    warehouseId: string,
+    locationId: string | null,
+    changedBy: string,
+    note?: string
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('transfer_items', {
+      p_item_ids: itemIds,
+      p_warehouse_id: warehouseId,
+      p_location_id: locationId,
+      p_changed_by: changedBy,
+      p_note: note || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to transfer items: ${error.message}`);
+    }
+
+    return (data as { transferred_count: number }).transferred_count;
+  }
+}
+
+export const warehouseService = new WarehouseService();
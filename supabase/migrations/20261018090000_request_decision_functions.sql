@@ -0,0 +1,149 @@
+-- Approve and reject pending requests inside a single transaction.
+-- The item row is locked while its status is validated, so two approvers
+-- cannot hand the same item to different employees.
+
+CREATE OR REPLACE FUNCTION public.approve_pending_request(p_request_id uuid, p_approved_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+  v_new_status text;
+  v_other record;
+  v_rejected_count integer := 0;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Re-read the request under the item lock: a concurrent approval may have
+  -- already resolved it and deleted every request for this item.
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.type = 'use' AND v_item.status <> 'available' THEN
+    RAISE EXCEPTION 'Item is not available (current status: %)', v_item.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.type = 'return' AND (v_item.status <> 'used' OR v_item.last_used_by IS DISTINCT FROM v_request.requested_by) THEN
+    RAISE EXCEPTION 'Item is not currently borrowed by the requester' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+  v_new_status := CASE WHEN v_request.type = 'use' THEN 'used' ELSE 'available' END;
+
+  UPDATE items
+  SET status = v_new_status,
+      last_used_by = CASE WHEN v_request.type = 'use' THEN v_request.requested_by ELSE NULL END,
+      changed_by = p_approved_by,
+      updated_at = now()
+  WHERE id = v_item.id;
+
+  INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    CASE WHEN v_request.type = 'use' THEN 'borrowed' ELSE 'returned' END,
+    p_approved_by,
+    format('Request approved - %s by %s',
+      CASE WHEN v_request.type = 'use' THEN 'Item borrowed' ELSE 'Item returned' END,
+      v_requester),
+    v_item.status,
+    v_new_status
+  );
+
+  -- Every other request for this item is automatically rejected
+  FOR v_other IN
+    SELECT pr.id, pr.type, u.username
+    FROM pending_requests pr
+    JOIN users u ON u.id = pr.requested_by
+    WHERE pr.item_id = v_item.id AND pr.id <> p_request_id
+    FOR UPDATE OF pr
+  LOOP
+    INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+    VALUES (
+      v_item.id,
+      'rejected',
+      p_approved_by,
+      format('Request automatically rejected - %s''s %s request was denied because %s''s %s request was approved',
+        v_other.username,
+        CASE WHEN v_other.type = 'use' THEN 'borrow' ELSE 'return' END,
+        v_requester,
+        v_request.type),
+      v_item.status,
+      v_new_status
+    );
+    v_rejected_count := v_rejected_count + 1;
+  END LOOP;
+
+  DELETE FROM pending_requests WHERE item_id = v_item.id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_new_status,
+    'rejected_count', v_rejected_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_pending_request(p_request_id uuid, p_rejected_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+
+  -- Status remains the same for rejection
+  INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    'rejected',
+    p_rejected_by,
+    format('Request manually rejected - %s''s %s request was denied by admin', v_requester, v_request.type),
+    v_item.status,
+    v_item.status
+  );
+
+  DELETE FROM pending_requests WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_item.status,
+    'rejected_count', 1
+  );
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Store user passwords as bcrypt hashes and verify credentials in the database.
+-- Existing plaintext rows are upgraded the next time their owner logs in.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.is_password_hash(p_value text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_value ~ '^\$2[aby]\$[0-9]{2}\$';
+$$;
+
+-- Any password written by the client (create account, change password) is
+-- hashed before it reaches the table.
+CREATE OR REPLACE FUNCTION public.hash_user_password()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NEW.password IS NOT NULL AND NOT public.is_password_hash(NEW.password) THEN
+    NEW.password := crypt(NEW.password, gen_salt('bf'));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_hash_password ON public.users;
+CREATE TRIGGER users_hash_password
+  BEFORE INSERT OR UPDATE OF password ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.hash_user_password();
+
+-- Returns the matching user, or no row when the credentials are wrong.
+CREATE OR REPLACE FUNCTION public.verify_user_credentials(p_username text, p_password text)
+RETURNS TABLE (id uuid, username text, role text, status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users u WHERE u.username = p_username;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF public.is_password_hash(v_user.password) THEN
+    IF crypt(p_password, v_user.password) <> v_user.password THEN
+      RETURN;
+    END IF;
+  ELSE
+    -- Legacy plaintext row: accept it once and replace it with a hash
+    IF v_user.password <> p_password THEN
+      RETURN;
+    END IF;
+    UPDATE users SET password = crypt(p_password, gen_salt('bf')) WHERE users.id = v_user.id;
+  END IF;
+
+  RETURN QUERY SELECT v_user.id, v_user.username, v_user.role, v_user.status;
+END;
+$$;
+
+-- The browser never needs to read password hashes
+REVOKE SELECT ON public.users FROM anon, authenticated;
+GRANT SELECT (id, username, role, status) ON public.users TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_user_credentials(text, text) TO anon, authenticated;
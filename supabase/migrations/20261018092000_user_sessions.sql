@@ -0,0 +1,144 @@
+-- Server-issued session tokens. Login returns a random token that the client
+-- sends as the x-session-token header on every request; the database resolves
+-- the caller from that header instead of trusting ids stored in localStorage.
+
+CREATE TABLE public.user_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  CONSTRAINT user_sessions_pkey PRIMARY KEY (id),
+  CONSTRAINT user_sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX user_sessions_user_id_idx ON public.user_sessions (user_id);
+
+-- Only the SECURITY DEFINER functions below may touch sessions
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.user_sessions FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.session_token_hash(p_token text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(p_token, 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_session_token()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT nullif(current_setting('request.headers', true), '')::json ->> 'x-session-token';
+$$;
+
+-- Identity of the caller, or NULL when the token is missing, expired or the
+-- account has been deactivated. Used by row-level security policies.
+CREATE OR REPLACE FUNCTION public.current_app_user_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT s.user_id
+  FROM user_sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.token_hash = public.session_token_hash(public.request_session_token())
+    AND s.expires_at > now()
+    AND u.status = 'active';
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_app_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE id = public.current_app_user_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_user_session(p_username text, p_password text)
+RETURNS TABLE (token text, expires_at timestamp with time zone, id uuid, username text, role text, status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user record;
+  v_token text;
+  v_expires_at timestamp with time zone;
+BEGIN
+  SELECT * INTO v_user FROM public.verify_user_credentials(p_username, p_password);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Deactivated accounts get their row back (so the client can explain why)
+  -- but no token
+  IF v_user.status = 'active' THEN
+    v_token := encode(gen_random_bytes(32), 'hex');
+    v_expires_at := now() + interval '10 minutes';
+
+    DELETE FROM user_sessions WHERE user_id = v_user.id AND expires_at <= now();
+    INSERT INTO user_sessions (user_id, token_hash, expires_at)
+    VALUES (v_user.id, public.session_token_hash(v_token), v_expires_at);
+  END IF;
+
+  RETURN QUERY SELECT v_token, v_expires_at, v_user.id, v_user.username, v_user.role, v_user.status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_session_user()
+RETURNS TABLE (id uuid, username text, role text, status text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.username, u.role, u.status FROM users u WHERE u.id = public.current_app_user_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_session()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_expires_at timestamp with time zone;
+BEGIN
+  UPDATE user_sessions
+  SET expires_at = now() + interval '10 minutes'
+  WHERE token_hash = public.session_token_hash(public.request_session_token())
+    AND expires_at > now()
+  RETURNING expires_at INTO v_expires_at;
+
+  IF v_expires_at IS NULL THEN
+    RAISE EXCEPTION 'Session expired' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN v_expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_user_session(p_token text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  DELETE FROM user_sessions WHERE token_hash = public.session_token_hash(p_token);
+$$;
+
+-- Credentials are only checked through create_user_session now
+REVOKE EXECUTE ON FUNCTION public.verify_user_credentials(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_user_session(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_user() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_user_session() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.end_user_session(text) TO anon, authenticated;
@@ -0,0 +1,109 @@
+-- Row-level security matching the roles enforced by the UI:
+--   admin    - manages items and decides pending requests
+--   manager  - read-only on items and requests, manages user accounts
+--   employee - files borrow/return requests for themselves
+-- The caller is resolved from the session token (see current_app_user_id).
+-- Policies wrap the identity helpers in SELECT so they are evaluated once per
+-- statement instead of once per row.
+
+ALTER TABLE public.items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.histories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pending_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+
+-- items
+
+CREATE POLICY items_select ON public.items
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY items_admin_insert ON public.items
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'admin'
+    AND changed_by = (SELECT public.current_app_user_id())
+  );
+
+-- Also covers approve_pending_request, which runs with the caller's rights
+CREATE POLICY items_admin_update ON public.items
+  FOR UPDATE
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'admin'
+    AND changed_by = (SELECT public.current_app_user_id())
+  );
+
+-- histories (append-only)
+
+CREATE POLICY histories_select ON public.histories
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+    OR performed_by = (SELECT public.current_app_user_id())
+  );
+
+CREATE POLICY histories_insert ON public.histories
+  FOR INSERT
+  WITH CHECK (
+    performed_by = (SELECT public.current_app_user_id())
+    AND (
+      (SELECT public.current_app_user_role()) = 'admin'
+      OR (
+        (SELECT public.current_app_user_role()) = 'employee'
+        AND action IN ('requested_borrow', 'requested_return')
+      )
+    )
+  );
+
+-- pending_requests
+
+CREATE POLICY pending_requests_select ON public.pending_requests
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+-- Employees request for themselves; only the borrower can file a return
+CREATE POLICY pending_requests_employee_insert ON public.pending_requests
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'employee'
+    AND requested_by = (SELECT public.current_app_user_id())
+    AND EXISTS (
+      SELECT 1 FROM public.items i
+      WHERE i.id = pending_requests.item_id
+        AND (
+          (pending_requests.type = 'use' AND i.status = 'available')
+          OR (pending_requests.type = 'return' AND i.status = 'used' AND i.last_used_by = pending_requests.requested_by)
+        )
+    )
+  );
+
+-- Needed for the row locks taken by approve/reject_pending_request
+CREATE POLICY pending_requests_admin_update ON public.pending_requests
+  FOR UPDATE
+  USING ((SELECT public.current_app_user_role()) = 'admin');
+
+CREATE POLICY pending_requests_admin_delete ON public.pending_requests
+  FOR DELETE
+  USING ((SELECT public.current_app_user_role()) = 'admin');
+
+-- users (password column is already hidden by column grants)
+
+CREATE POLICY users_select ON public.users
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY users_manager_insert ON public.users
+  FOR INSERT
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'manager');
+
+CREATE POLICY users_manager_update ON public.users
+  FOR UPDATE
+  USING ((SELECT public.current_app_user_role()) = 'manager')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'manager');
+
+CREATE POLICY users_manager_delete ON public.users
+  FOR DELETE
+  USING ((SELECT public.current_app_user_role()) = 'manager');
@@ -0,0 +1,179 @@
+-- Borrow several items in one request batch that shares a purpose note and
+-- an expected return date. Each item still gets its own pending request and
+-- its own history entries. Admins and managers decide a whole batch at once.
+
+CREATE TABLE public.request_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  requested_by uuid NOT NULL,
+  purpose text NOT NULL,
+  expected_return_date date NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT request_batches_pkey PRIMARY KEY (id),
+  CONSTRAINT request_batches_requested_by_fkey FOREIGN KEY (requested_by) REFERENCES public.users(id)
+);
+
+ALTER TABLE public.pending_requests ADD COLUMN batch_id uuid;
+ALTER TABLE public.pending_requests
+  ADD CONSTRAINT pending_requests_batch_id_fkey FOREIGN KEY (batch_id) REFERENCES public.request_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX pending_requests_batch_id_idx ON public.pending_requests (batch_id);
+
+ALTER TABLE public.request_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY request_batches_select ON public.request_batches
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+CREATE POLICY request_batches_employee_insert ON public.request_batches
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'employee'
+    AND requested_by = (SELECT public.current_app_user_id())
+  );
+
+CREATE OR REPLACE FUNCTION public.create_request_batch(
+  p_item_ids uuid[],
+  p_requested_by uuid,
+  p_purpose text,
+  p_expected_return_date date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_item items%ROWTYPE;
+  v_item_count integer;
+  v_created integer := 0;
+BEGIN
+  SELECT count(DISTINCT id) INTO v_item_count FROM unnest(p_item_ids) AS id;
+  IF v_item_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one item' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF coalesce(trim(p_purpose), '') = '' THEN
+    RAISE EXCEPTION 'Purpose is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_expected_return_date IS NULL OR p_expected_return_date < current_date THEN
+    RAISE EXCEPTION 'Expected return date cannot be in the past' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO request_batches (requested_by, purpose, expected_return_date)
+  VALUES (p_requested_by, trim(p_purpose), p_expected_return_date)
+  RETURNING id INTO v_batch_id;
+
+  FOR v_item IN SELECT * FROM items WHERE id = ANY (p_item_ids) ORDER BY serial_number LOOP
+    IF v_item.status <> 'available' THEN
+      RAISE EXCEPTION 'Item % is not available', v_item.serial_number USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM pending_requests
+      WHERE item_id = v_item.id AND requested_by = p_requested_by AND type = 'use'
+    ) THEN
+      RAISE EXCEPTION 'You already have a pending request for item %', v_item.serial_number USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO pending_requests (item_id, type, requested_by, expected_return_date, batch_id)
+    VALUES (v_item.id, 'use', p_requested_by, p_expected_return_date, v_batch_id);
+
+    INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+    VALUES (
+      v_item.id,
+      'requested_borrow',
+      p_requested_by,
+      format('Requested to borrow item in a batch of %s (expected return: %s): %s',
+        v_item_count, to_char(p_expected_return_date, 'YYYY-MM-DD'), trim(p_purpose)),
+      v_item.status,
+      v_item.status
+    );
+
+    v_created := v_created + 1;
+  END LOOP;
+
+  IF v_created <> v_item_count THEN
+    RAISE EXCEPTION 'Some selected items no longer exist' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_batch_id;
+END;
+$$;
+
+-- Batch decisions run as the owner so managers can decide them too; this
+-- is the only check standing in for the request policies
+CREATE OR REPLACE FUNCTION public.assert_can_decide_request_batch(p_batch_id uuid, p_decided_by uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF (SELECT public.current_app_user_role()) IS DISTINCT FROM 'admin'
+    AND (SELECT public.current_app_user_role()) IS DISTINCT FROM 'manager'
+  THEN
+    RAISE EXCEPTION 'Only admins and managers can decide request batches'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decided_by IS DISTINCT FROM (SELECT public.current_app_user_id()) THEN
+    RAISE EXCEPTION 'Request batches can only be decided as yourself'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Approving a batch approves every request still pending in it, all or nothing
+CREATE OR REPLACE FUNCTION public.approve_request_batch(p_batch_id uuid, p_approved_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  PERFORM public.assert_can_decide_request_batch(p_batch_id, p_approved_by);
+
+  FOR v_request_id IN
+    SELECT id FROM pending_requests WHERE batch_id = p_batch_id ORDER BY requested_at, id
+  LOOP
+    v_results := v_results || jsonb_build_array(public.approve_pending_request(v_request_id, p_approved_by));
+  END LOOP;
+
+  IF jsonb_array_length(v_results) = 0 THEN
+    RAISE EXCEPTION 'Batch has no pending requests' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_request_batch(p_batch_id uuid, p_rejected_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  PERFORM public.assert_can_decide_request_batch(p_batch_id, p_rejected_by);
+
+  FOR v_request_id IN
+    SELECT id FROM pending_requests WHERE batch_id = p_batch_id ORDER BY requested_at, id
+  LOOP
+    v_results := v_results || jsonb_build_array(public.reject_pending_request(v_request_id, p_rejected_by));
+  END LOOP;
+
+  IF jsonb_array_length(v_results) = 0 THEN
+    RAISE EXCEPTION 'Batch has no pending requests' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_results;
+END;
+$$;
@@ -0,0 +1,210 @@
+-- Record whose request a decision concerns and why it was rejected, so the
+-- requester can read the outcome of their own requests.
+
+ALTER TABLE public.histories ADD COLUMN requested_by uuid;
+ALTER TABLE public.histories ADD COLUMN reason text;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_requested_by_fkey FOREIGN KEY (requested_by) REFERENCES public.users(id);
+
+CREATE INDEX histories_requested_by_idx ON public.histories (requested_by, timestamp DESC);
+
+DROP POLICY histories_select ON public.histories;
+
+CREATE POLICY histories_select ON public.histories
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+    OR performed_by = (SELECT public.current_app_user_id())
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+CREATE OR REPLACE FUNCTION public.approve_pending_request(p_request_id uuid, p_approved_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+  v_new_status text;
+  v_other record;
+  v_rejected_count integer := 0;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Re-read the request under the item lock: a concurrent approval may have
+  -- already resolved it and deleted every request for this item.
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.type = 'use' AND v_item.status <> 'available' THEN
+    RAISE EXCEPTION 'Item is not available (current status: %)', v_item.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.type = 'return' AND (v_item.status <> 'used' OR v_item.last_used_by IS DISTINCT FROM v_request.requested_by) THEN
+    RAISE EXCEPTION 'Item is not currently borrowed by the requester' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+  v_new_status := CASE WHEN v_request.type = 'use' THEN 'used' ELSE 'available' END;
+
+  UPDATE items
+  SET status = v_new_status,
+      last_used_by = CASE WHEN v_request.type = 'use' THEN v_request.requested_by ELSE NULL END,
+      due_date = CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+      changed_by = p_approved_by,
+      updated_at = now()
+  WHERE id = v_item.id;
+
+  INSERT INTO histories (item_id, action, performed_by, requested_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    CASE WHEN v_request.type = 'use' THEN 'borrowed' ELSE 'returned' END,
+    p_approved_by,
+    v_request.requested_by,
+    format('Request approved - %s by %s%s',
+      CASE WHEN v_request.type = 'use' THEN 'Item borrowed' ELSE 'Item returned' END,
+      v_requester,
+      CASE WHEN v_request.type = 'use' AND v_request.expected_return_date IS NOT NULL
+        THEN format(' (due %s)', to_char(v_request.expected_return_date, 'YYYY-MM-DD'))
+        ELSE '' END),
+    v_item.status,
+    v_new_status
+  );
+
+  -- Every other request for this item is automatically rejected
+  FOR v_other IN
+    SELECT pr.id, pr.type, pr.requested_by, u.username
+    FROM pending_requests pr
+    JOIN users u ON u.id = pr.requested_by
+    WHERE pr.item_id = v_item.id AND pr.id <> p_request_id
+    FOR UPDATE OF pr
+  LOOP
+    INSERT INTO histories (item_id, action, performed_by, requested_by, reason, details, previous_status, new_status)
+    VALUES (
+      v_item.id,
+      'rejected',
+      p_approved_by,
+      v_other.requested_by,
+      format('Another %s request for this item was approved first',
+        CASE WHEN v_request.type = 'use' THEN 'borrow' ELSE 'return' END),
+      format('Request automatically rejected - %s''s %s request was denied because %s''s %s request was approved',
+        v_other.username,
+        CASE WHEN v_other.type = 'use' THEN 'borrow' ELSE 'return' END,
+        v_requester,
+        v_request.type),
+      v_item.status,
+      v_new_status
+    );
+    v_rejected_count := v_rejected_count + 1;
+  END LOOP;
+
+  DELETE FROM pending_requests WHERE item_id = v_item.id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_new_status,
+    'due_date', CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+    'rejected_count', v_rejected_count
+  );
+END;
+$$;
+
+-- Rejecting now requires a reason, which replaces the two-argument versions
+DROP FUNCTION public.reject_request_batch(uuid, uuid);
+DROP FUNCTION public.reject_pending_request(uuid, uuid);
+
+CREATE FUNCTION public.reject_pending_request(p_request_id uuid, p_rejected_by uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+
+  -- Status remains the same for rejection
+  INSERT INTO histories (item_id, action, performed_by, requested_by, reason, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    'rejected',
+    p_rejected_by,
+    v_request.requested_by,
+    trim(p_reason),
+    format('Request manually rejected - %s''s %s request was denied: %s', v_requester, v_request.type, trim(p_reason)),
+    v_item.status,
+    v_item.status
+  );
+
+  DELETE FROM pending_requests WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_item.status,
+    'rejected_count', 1
+  );
+END;
+$$;
+
+CREATE FUNCTION public.reject_request_batch(p_batch_id uuid, p_rejected_by uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  PERFORM public.assert_can_decide_request_batch(p_batch_id, p_rejected_by);
+
+  FOR v_request_id IN
+    SELECT id FROM pending_requests WHERE batch_id = p_batch_id ORDER BY requested_at, id
+  LOOP
+    v_results := v_results || jsonb_build_array(public.reject_pending_request(v_request_id, p_rejected_by, p_reason));
+  END LOOP;
+
+  IF jsonb_array_length(v_results) = 0 THEN
+    RAISE EXCEPTION 'Batch has no pending requests' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_results;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- Let requesters withdraw their own pending requests. The withdrawal is
+-- recorded as a 'cancelled' history entry; cancel_pending_request is the only
+-- way to do it, so there is no delete policy for requesters.
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled'));
+
+DROP POLICY histories_insert ON public.histories;
+
+CREATE POLICY histories_insert ON public.histories
+  FOR INSERT
+  WITH CHECK (
+    performed_by = (SELECT public.current_app_user_id())
+    AND (
+      (SELECT public.current_app_user_role()) = 'admin'
+      OR (
+        (SELECT public.current_app_user_role()) = 'employee'
+        AND action IN ('requested_borrow', 'requested_return', 'cancelled')
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.cancel_pending_request(p_request_id uuid, p_cancelled_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+BEGIN
+  -- Runs as the owner, so the caller must be the requester; requesters
+  -- cannot delete their requests directly and always leave a history entry
+  IF p_cancelled_by IS DISTINCT FROM (SELECT public.current_app_user_id()) THEN
+    RAISE EXCEPTION 'Requests can only be cancelled by their requester'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Deleting first means a request an approver is deciding right now is
+  -- either cancelled here or already gone, never both
+  DELETE FROM pending_requests
+  WHERE id = p_request_id AND requested_by = p_cancelled_by
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id;
+
+  INSERT INTO histories (item_id, action, performed_by, requested_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    'cancelled',
+    p_cancelled_by,
+    p_cancelled_by,
+    format('%s request cancelled by requester',
+      CASE WHEN v_request.type = 'use' THEN 'Borrow' ELSE 'Return' END),
+    v_item.status,
+    v_item.status
+  );
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_item.status,
+    'rejected_count', 0
+  );
+END;
+$$;
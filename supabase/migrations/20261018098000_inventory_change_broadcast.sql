@@ -0,0 +1,30 @@
+-- Broadcast a signal on the 'inventory-changes' realtime topic whenever items
+-- or pending requests change, so open clients can refetch. The payload holds
+-- no row data: clients reload through the API, where row-level security
+-- still applies.
+
+CREATE OR REPLACE FUNCTION public.broadcast_inventory_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('table', TG_TABLE_NAME, 'operation', TG_OP),
+    'change',
+    'inventory-changes',
+    false
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- One signal per statement: approving a request touches several rows
+CREATE TRIGGER items_broadcast_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.items
+  FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_inventory_change();
+
+CREATE TRIGGER pending_requests_broadcast_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.pending_requests
+  FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_inventory_change();
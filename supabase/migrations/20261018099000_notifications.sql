@@ -0,0 +1,163 @@
+-- In-app notifications: approvers hear about new requests, requesters hear
+-- about decisions, and borrowers and approvers hear about overdue items.
+-- Rows are only ever written by the triggers and functions below.
+
+CREATE TABLE public.notifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  type text NOT NULL CHECK (type IN ('request_submitted', 'request_approved', 'request_rejected', 'item_overdue')),
+  title text NOT NULL,
+  message text NOT NULL,
+  item_id uuid,
+  dedupe_key text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT notifications_pkey PRIMARY KEY (id),
+  CONSTRAINT notifications_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT notifications_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON public.notifications (user_id) WHERE read_at IS NULL;
+CREATE UNIQUE INDEX notifications_dedupe_key_idx ON public.notifications (user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Clients may only read their own notifications and mark them as read
+REVOKE INSERT, UPDATE, DELETE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO anon, authenticated;
+
+CREATE POLICY notifications_select_own ON public.notifications
+  FOR SELECT
+  USING (user_id = (SELECT public.current_app_user_id()));
+
+CREATE POLICY notifications_update_own ON public.notifications
+  FOR UPDATE
+  USING (user_id = (SELECT public.current_app_user_id()))
+  WITH CHECK (user_id = (SELECT public.current_app_user_id()));
+
+-- Every new request notifies the active admins and managers
+CREATE OR REPLACE FUNCTION public.notify_request_submitted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requester text;
+  v_item items%ROWTYPE;
+BEGIN
+  SELECT username INTO v_requester FROM users WHERE id = NEW.requested_by;
+  SELECT * INTO v_item FROM items WHERE id = NEW.item_id;
+
+  INSERT INTO notifications (user_id, type, title, message, item_id)
+  SELECT
+    u.id,
+    'request_submitted',
+    CASE WHEN NEW.type = 'use' THEN 'New borrow request' ELSE 'New return request' END,
+    format('%s requested to %s %s (%s)',
+      v_requester,
+      CASE WHEN NEW.type = 'use' THEN 'borrow' ELSE 'return' END,
+      v_item.material,
+      v_item.serial_number),
+    NEW.item_id
+  FROM users u
+  WHERE u.role IN ('admin', 'manager') AND u.status = 'active';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER pending_requests_notify_submitted
+  AFTER INSERT ON public.pending_requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_request_submitted();
+
+-- Approvals, manual rejections and automatic rejections all write a history
+-- entry naming the requester, so one trigger covers every decision
+CREATE OR REPLACE FUNCTION public.notify_request_decided()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM items WHERE id = NEW.item_id;
+
+  INSERT INTO notifications (user_id, type, title, message, item_id)
+  VALUES (
+    NEW.requested_by,
+    CASE WHEN NEW.action = 'rejected' THEN 'request_rejected' ELSE 'request_approved' END,
+    CASE NEW.action
+      WHEN 'borrowed' THEN 'Borrow request approved'
+      WHEN 'returned' THEN 'Return request approved'
+      ELSE 'Request rejected'
+    END,
+    CASE WHEN NEW.action = 'rejected'
+      THEN format('Your request for %s (%s) was rejected: %s', v_item.material, v_item.serial_number, coalesce(NEW.reason, 'no reason given'))
+      ELSE format('Your request for %s (%s) was approved', v_item.material, v_item.serial_number)
+    END,
+    NEW.item_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER histories_notify_decided
+  AFTER INSERT ON public.histories
+  FOR EACH ROW
+  WHEN (NEW.requested_by IS NOT NULL AND NEW.action IN ('borrowed', 'returned', 'rejected'))
+  EXECUTE FUNCTION public.notify_request_decided();
+
+-- Notify the borrower and the approvers once per overdue loan
+CREATE OR REPLACE FUNCTION public.notify_overdue_items()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH overdue AS (
+    SELECT i.id, i.material, i.serial_number, i.due_date, i.last_used_by, b.username AS borrower
+    FROM items i
+    LEFT JOIN users b ON b.id = i.last_used_by
+    WHERE i.status = 'used' AND i.due_date < current_date
+  ),
+  recipients AS (
+    SELECT o.*, o.last_used_by AS user_id, true AS is_borrower
+    FROM overdue o
+    WHERE o.last_used_by IS NOT NULL
+    UNION ALL
+    SELECT o.*, u.id, false
+    FROM overdue o
+    CROSS JOIN users u
+    WHERE u.role IN ('admin', 'manager') AND u.status = 'active'
+  )
+  INSERT INTO notifications (user_id, type, title, message, item_id, dedupe_key)
+  SELECT
+    user_id,
+    'item_overdue',
+    'Item overdue',
+    CASE WHEN is_borrower
+      THEN format('%s (%s) was due back on %s', material, serial_number, to_char(due_date, 'YYYY-MM-DD'))
+      ELSE format('%s (%s) borrowed by %s was due back on %s', material, serial_number, coalesce(borrower, 'unknown'), to_char(due_date, 'YYYY-MM-DD'))
+    END,
+    id,
+    format('overdue:%s:%s', id, due_date)
+  FROM recipients
+  ON CONFLICT (user_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_overdue_items() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-overdue-items', '0 * * * *', 'SELECT public.notify_overdue_items()');
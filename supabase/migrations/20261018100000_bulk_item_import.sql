@@ -0,0 +1,32 @@
+-- Import many items at once. Every item gets its own 'created' history entry
+-- and the whole import rolls back if any row fails, e.g. on a duplicate
+-- serial number.
+
+CREATE OR REPLACE FUNCTION public.import_items(p_items jsonb, p_created_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH inserted AS (
+    INSERT INTO items (material, description, serial_number, status, changed_by)
+    SELECT
+      btrim(row->>'material'),
+      NULLIF(btrim(row->>'description'), ''),
+      btrim(row->>'serial_number'),
+      'available',
+      p_created_by
+    FROM jsonb_array_elements(p_items) AS row
+    RETURNING id
+  ), logged AS (
+    INSERT INTO histories (item_id, action, performed_by, details, new_status)
+    SELECT id, 'created', p_created_by, 'Item imported in bulk', 'available'
+    FROM inserted
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_count FROM logged;
+
+  RETURN jsonb_build_object('created_count', v_count);
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Indexes behind the paginated item list: trigram indexes serve the
+-- case-insensitive substring search (ilike '%text%') on the searchable
+-- columns, the status index serves the status filter with the default sort.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS items_material_trgm_idx
+  ON public.items USING gin (material extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS items_description_trgm_idx
+  ON public.items USING gin (description extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS items_serial_number_trgm_idx
+  ON public.items USING gin (serial_number extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS items_status_created_at_idx
+  ON public.items (status, created_at DESC);
@@ -0,0 +1,161 @@
+-- Material catalog: items reference a catalog entry instead of free text.
+-- items.material stays as the entry's name (kept in sync by triggers) so
+-- search, labels, exports and history keep reading a plain column.
+
+CREATE TABLE public.material_categories (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT material_categories_pkey PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX material_categories_name_key ON public.material_categories (lower(name));
+
+CREATE TABLE public.materials (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  category_id uuid,
+  unit text NOT NULL DEFAULT 'pcs',
+  manufacturer text,
+  model text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT materials_pkey PRIMARY KEY (id),
+  CONSTRAINT materials_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.material_categories(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX materials_name_key ON public.materials (lower(name));
+CREATE INDEX materials_category_id_idx ON public.materials (category_id);
+
+ALTER TABLE public.items ADD COLUMN material_id uuid;
+ALTER TABLE public.items
+  ADD CONSTRAINT items_material_id_fkey FOREIGN KEY (material_id) REFERENCES public.materials(id);
+CREATE INDEX items_material_id_idx ON public.items (material_id);
+
+-- RLS: everyone signed in reads the catalog, admins maintain it
+
+ALTER TABLE public.material_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.materials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY material_categories_select ON public.material_categories
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY material_categories_admin_write ON public.material_categories
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+CREATE POLICY materials_select ON public.materials
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY materials_admin_write ON public.materials
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+-- An item linked to the catalog always carries the entry's name. Items saved
+-- with only a name (imports, older clients) are linked when the name matches
+-- a catalog entry exactly, ignoring case.
+CREATE OR REPLACE FUNCTION public.sync_item_material()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_material materials%ROWTYPE;
+BEGIN
+  IF NEW.material_id IS NOT NULL THEN
+    SELECT * INTO v_material FROM materials WHERE id = NEW.material_id;
+  ELSE
+    SELECT * INTO v_material FROM materials WHERE lower(name) = lower(btrim(NEW.material));
+  END IF;
+
+  -- No match keeps the free text as entered
+  IF FOUND THEN
+    NEW.material_id := v_material.id;
+    NEW.material := v_material.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER items_sync_material
+  BEFORE INSERT OR UPDATE OF material, material_id ON public.items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_item_material();
+
+-- Renaming a catalog entry renames its items. Runs as the owner because the
+-- items update policy expects changed_by to be the caller.
+CREATE OR REPLACE FUNCTION public.propagate_material_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE items SET material = NEW.name WHERE material_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER materials_propagate_rename
+  AFTER UPDATE OF name ON public.materials
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.propagate_material_rename();
+
+-- Distinct free-text materials of items not linked to the catalog yet,
+-- the input of the clustering tool
+CREATE OR REPLACE FUNCTION public.get_unlinked_materials()
+RETURNS TABLE (material text, item_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT material, count(*) AS item_count
+  FROM items
+  WHERE material_id IS NULL
+  GROUP BY material
+  ORDER BY count(*) DESC, material;
+$$;
+
+-- Link every unlinked item whose material is one of p_names to a catalog
+-- entry, with an 'edited' history entry per item
+CREATE OR REPLACE FUNCTION public.link_items_to_material(p_material_id uuid, p_names text[], p_changed_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM materials WHERE id = p_material_id) THEN
+    RAISE EXCEPTION 'Catalog entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH targets AS (
+    SELECT id, material
+    FROM items
+    WHERE material_id IS NULL AND material = ANY (p_names)
+    FOR UPDATE
+  ), updated AS (
+    UPDATE items i
+    SET material_id = p_material_id,
+        changed_by = p_changed_by,
+        updated_at = now()
+    FROM targets t
+    WHERE i.id = t.id
+    RETURNING i.id, t.material AS previous_material, i.material, i.status
+  ), logged AS (
+    INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+    SELECT id, 'edited', p_changed_by,
+      format('Material linked to catalog entry "%s" (was "%s")', material, previous_material),
+      status, status
+    FROM updated
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_count FROM logged;
+
+  RETURN jsonb_build_object('linked_count', v_count);
+END;
+$$;
@@ -0,0 +1,276 @@
+-- Warehouses and storage locations (zone / rack / bin). An item may sit in a
+-- warehouse without a known bin, so items carry warehouse_id next to the
+-- optional location_id; a location always wins and sets the warehouse.
+-- Managers can be scoped to one warehouse through users.warehouse_id.
+
+CREATE TABLE public.warehouses (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  address text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT warehouses_pkey PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX warehouses_name_key ON public.warehouses (lower(name));
+
+CREATE TABLE public.locations (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  warehouse_id uuid NOT NULL,
+  zone text NOT NULL CHECK (btrim(zone) <> ''),
+  rack text,
+  bin text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT locations_pkey PRIMARY KEY (id),
+  CONSTRAINT locations_warehouse_id_fkey FOREIGN KEY (warehouse_id) REFERENCES public.warehouses(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX locations_position_key
+  ON public.locations (warehouse_id, lower(zone), lower(coalesce(rack, '')), lower(coalesce(bin, '')));
+
+ALTER TABLE public.items ADD COLUMN warehouse_id uuid;
+ALTER TABLE public.items ADD COLUMN location_id uuid;
+ALTER TABLE public.items
+  ADD CONSTRAINT items_warehouse_id_fkey FOREIGN KEY (warehouse_id) REFERENCES public.warehouses(id) ON DELETE SET NULL;
+ALTER TABLE public.items
+  ADD CONSTRAINT items_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id) ON DELETE SET NULL;
+CREATE INDEX items_warehouse_id_idx ON public.items (warehouse_id);
+CREATE INDEX items_location_id_idx ON public.items (location_id);
+
+ALTER TABLE public.users ADD COLUMN warehouse_id uuid;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_warehouse_id_fkey FOREIGN KEY (warehouse_id) REFERENCES public.warehouses(id) ON DELETE SET NULL;
+GRANT SELECT (warehouse_id) ON public.users TO anon, authenticated;
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled', 'transferred'));
+
+-- Warehouse a scoped manager is restricted to, NULL for everyone else
+CREATE OR REPLACE FUNCTION public.current_app_user_warehouse_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT warehouse_id FROM users WHERE id = public.current_app_user_id() AND role = 'manager';
+$$;
+
+-- RLS: everyone signed in reads warehouses and locations, admins maintain them
+
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY warehouses_select ON public.warehouses
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY warehouses_admin_write ON public.warehouses
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+CREATE POLICY locations_select ON public.locations
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY locations_admin_write ON public.locations
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+-- A scoped manager only sees the items of their warehouse, and the requests
+-- and history of those items (the EXISTS checks below go through items_select)
+
+DROP POLICY items_select ON public.items;
+CREATE POLICY items_select ON public.items
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_id()) IS NOT NULL
+    AND (
+      (SELECT public.current_app_user_warehouse_id()) IS NULL
+      OR warehouse_id = (SELECT public.current_app_user_warehouse_id())
+    )
+  );
+
+DROP POLICY histories_select ON public.histories;
+CREATE POLICY histories_select ON public.histories
+  FOR SELECT
+  USING (
+    (
+      (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+      AND (
+        (SELECT public.current_app_user_warehouse_id()) IS NULL
+        OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = histories.item_id)
+      )
+    )
+    OR performed_by = (SELECT public.current_app_user_id())
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+DROP POLICY pending_requests_select ON public.pending_requests;
+CREATE POLICY pending_requests_select ON public.pending_requests
+  FOR SELECT
+  USING (
+    (
+      (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+      AND (
+        (SELECT public.current_app_user_warehouse_id()) IS NULL
+        OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = pending_requests.item_id)
+      )
+    )
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+-- A scoped manager may only decide batches whose items are all in their
+-- warehouse
+CREATE OR REPLACE FUNCTION public.assert_can_decide_request_batch(p_batch_id uuid, p_decided_by uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF (SELECT public.current_app_user_role()) IS DISTINCT FROM 'admin'
+    AND (SELECT public.current_app_user_role()) IS DISTINCT FROM 'manager'
+  THEN
+    RAISE EXCEPTION 'Only admins and managers can decide request batches'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decided_by IS DISTINCT FROM (SELECT public.current_app_user_id()) THEN
+    RAISE EXCEPTION 'Request batches can only be decided as yourself'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF (SELECT public.current_app_user_role()) = 'manager'
+    AND (SELECT public.current_app_user_warehouse_id()) IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM pending_requests r
+      JOIN items i ON i.id = r.item_id
+      WHERE r.batch_id = p_batch_id
+        AND i.warehouse_id IS DISTINCT FROM (SELECT public.current_app_user_warehouse_id())
+    )
+  THEN
+    RAISE EXCEPTION 'This batch includes items outside your warehouse'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- A scoped manager could otherwise lift their own restriction
+CREATE OR REPLACE FUNCTION public.guard_user_warehouse_scope()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT public.current_app_user_warehouse_id()) IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.warehouse_id IS DISTINCT FROM OLD.warehouse_id)
+    AND NEW.warehouse_id IS DISTINCT FROM (SELECT public.current_app_user_warehouse_id())
+  THEN
+    RAISE EXCEPTION 'Only managers without a warehouse scope can change warehouse assignments'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER users_guard_warehouse_scope
+  BEFORE INSERT OR UPDATE OF warehouse_id ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_user_warehouse_scope();
+
+-- A location decides the warehouse of the item stored in it
+CREATE OR REPLACE FUNCTION public.sync_item_warehouse()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.location_id IS NOT NULL THEN
+    SELECT warehouse_id INTO NEW.warehouse_id FROM locations WHERE id = NEW.location_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER items_sync_warehouse
+  BEFORE INSERT OR UPDATE OF warehouse_id, location_id ON public.items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_item_warehouse();
+
+-- "Main Warehouse / A-3-12" style description of where an item sits
+CREATE OR REPLACE FUNCTION public.describe_item_place(p_warehouse_id uuid, p_location_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(
+    (SELECT w.name || coalesce(' / ' || concat_ws('-', l.zone, l.rack, l.bin), '')
+     FROM warehouses w
+     LEFT JOIN locations l ON l.id = p_location_id
+     WHERE w.id = p_warehouse_id),
+    'no warehouse'
+  );
+$$;
+
+-- Move items to a warehouse, optionally into one of its locations, with a
+-- 'transferred' history entry per item that actually moved
+CREATE OR REPLACE FUNCTION public.transfer_items(
+  p_item_ids uuid[],
+  p_warehouse_id uuid,
+  p_location_id uuid,
+  p_changed_by uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'Warehouse not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_location_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM locations WHERE id = p_location_id AND warehouse_id = p_warehouse_id)
+  THEN
+    RAISE EXCEPTION 'Location does not belong to the selected warehouse' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM items WHERE id = ANY (p_item_ids) AND status = 'archived') THEN
+    RAISE EXCEPTION 'Archived items cannot be transferred' USING ERRCODE = '22023';
+  END IF;
+
+  WITH targets AS (
+    SELECT id, public.describe_item_place(warehouse_id, location_id) AS previous_place
+    FROM items
+    WHERE id = ANY (p_item_ids)
+      AND (warehouse_id IS DISTINCT FROM p_warehouse_id OR location_id IS DISTINCT FROM p_location_id)
+    FOR UPDATE
+  ), updated AS (
+    UPDATE items i
+    SET warehouse_id = p_warehouse_id,
+        location_id = p_location_id,
+        changed_by = p_changed_by,
+        updated_at = now()
+    FROM targets t
+    WHERE i.id = t.id
+    RETURNING i.id, i.status, t.previous_place
+  ), logged AS (
+    INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+    SELECT id, 'transferred', p_changed_by,
+      format('Moved from %s to %s', previous_place, public.describe_item_place(p_warehouse_id, p_location_id))
+        || coalesce(': ' || nullif(btrim(p_note), ''), ''),
+      status, status
+    FROM updated
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_count FROM logged;
+
+  RETURN jsonb_build_object('transferred_count', v_count);
+END;
+$$;
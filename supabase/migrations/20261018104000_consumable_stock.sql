@@ -0,0 +1,694 @@
+-- Consumables stocked by quantity (cables, fuses, seals) next to the
+-- serialized items. A catalog material is either serialized or consumable;
+-- a consumable has one stock level per warehouse location, and every change
+-- to a stock level goes through the stock_movements ledger.
+-- Issue and receive requests share pending_requests with borrow and return
+-- requests, pointing at a stock level instead of an item.
+
+ALTER TABLE public.materials
+  ADD COLUMN stock_type text NOT NULL DEFAULT 'serialized' CHECK (stock_type IN ('serialized', 'consumable'));
+
+CREATE TABLE public.stock_levels (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  material_id uuid NOT NULL,
+  warehouse_id uuid NOT NULL,
+  location_id uuid,
+  quantity integer NOT NULL DEFAULT 0,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_levels_pkey PRIMARY KEY (id),
+  CONSTRAINT stock_levels_quantity_check CHECK (quantity >= 0),
+  CONSTRAINT stock_levels_material_id_fkey FOREIGN KEY (material_id) REFERENCES public.materials(id),
+  CONSTRAINT stock_levels_warehouse_id_fkey FOREIGN KEY (warehouse_id) REFERENCES public.warehouses(id),
+  CONSTRAINT stock_levels_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id)
+);
+
+CREATE UNIQUE INDEX stock_levels_place_key
+  ON public.stock_levels (material_id, warehouse_id, location_id) NULLS NOT DISTINCT;
+
+CREATE TABLE public.stock_movements (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  stock_level_id uuid NOT NULL,
+  type text NOT NULL CHECK (type IN ('receive', 'issue', 'adjust')),
+  quantity_change integer NOT NULL,
+  balance_after integer NOT NULL, -- set by apply_stock_movement
+  request_id uuid, -- the approved request, which is deleted once decided
+  requested_by uuid,
+  performed_by uuid NOT NULL,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_movements_pkey PRIMARY KEY (id),
+  CONSTRAINT stock_movements_quantity_change_check CHECK (
+    (type = 'receive' AND quantity_change > 0)
+    OR (type = 'issue' AND quantity_change < 0)
+    OR (type = 'adjust' AND quantity_change <> 0)
+  ),
+  CONSTRAINT stock_movements_stock_level_id_fkey FOREIGN KEY (stock_level_id) REFERENCES public.stock_levels(id),
+  CONSTRAINT stock_movements_requested_by_fkey FOREIGN KEY (requested_by) REFERENCES public.users(id),
+  CONSTRAINT stock_movements_performed_by_fkey FOREIGN KEY (performed_by) REFERENCES public.users(id)
+);
+
+CREATE INDEX stock_movements_stock_level_id_idx ON public.stock_movements (stock_level_id, created_at DESC);
+CREATE INDEX stock_movements_created_at_idx ON public.stock_movements (created_at DESC);
+
+-- Requests: borrow and return name an item, issue and receive name a stock
+-- level and a quantity
+
+ALTER TABLE public.pending_requests ALTER COLUMN item_id DROP NOT NULL;
+ALTER TABLE public.pending_requests ADD COLUMN stock_level_id uuid;
+ALTER TABLE public.pending_requests ADD COLUMN quantity integer;
+ALTER TABLE public.pending_requests
+  ADD CONSTRAINT pending_requests_stock_level_id_fkey FOREIGN KEY (stock_level_id) REFERENCES public.stock_levels(id);
+CREATE INDEX pending_requests_stock_level_id_idx ON public.pending_requests (stock_level_id);
+
+ALTER TABLE public.pending_requests DROP CONSTRAINT pending_requests_type_check;
+ALTER TABLE public.pending_requests
+  ADD CONSTRAINT pending_requests_type_check CHECK (type IN ('use', 'return', 'issue', 'receive'));
+ALTER TABLE public.pending_requests
+  ADD CONSTRAINT pending_requests_target_check CHECK (
+    (type IN ('use', 'return') AND item_id IS NOT NULL AND stock_level_id IS NULL AND quantity IS NULL)
+    OR (type IN ('issue', 'receive') AND item_id IS NULL AND stock_level_id IS NOT NULL AND quantity > 0)
+  );
+
+-- Decisions on stock requests are written to the history like any other,
+-- against the stock level instead of an item
+
+ALTER TABLE public.histories ALTER COLUMN item_id DROP NOT NULL;
+ALTER TABLE public.histories ADD COLUMN stock_level_id uuid;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_stock_level_id_fkey FOREIGN KEY (stock_level_id) REFERENCES public.stock_levels(id);
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_subject_check CHECK (item_id IS NOT NULL OR stock_level_id IS NOT NULL);
+CREATE INDEX histories_stock_level_id_idx ON public.histories (stock_level_id);
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled', 'transferred', 'issued', 'received'));
+
+-- A material's stock type decides which table may use it
+
+CREATE OR REPLACE FUNCTION public.check_material_stock_type()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expected text := CASE WHEN TG_TABLE_NAME = 'stock_levels' THEN 'consumable' ELSE 'serialized' END;
+BEGIN
+  IF NEW.material_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM materials WHERE id = NEW.material_id AND stock_type = v_expected)
+  THEN
+    RAISE EXCEPTION '% need a % material',
+      CASE WHEN TG_TABLE_NAME = 'stock_levels' THEN 'Stock levels' ELSE 'Serialized items' END,
+      v_expected
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER items_check_material_stock_type
+  BEFORE INSERT OR UPDATE OF material_id ON public.items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_material_stock_type();
+
+CREATE TRIGGER stock_levels_check_material_stock_type
+  BEFORE INSERT OR UPDATE OF material_id ON public.stock_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_material_stock_type();
+
+CREATE OR REPLACE FUNCTION public.guard_material_stock_type()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock_type IS DISTINCT FROM OLD.stock_type
+    AND (
+      EXISTS (SELECT 1 FROM items WHERE material_id = NEW.id)
+      OR EXISTS (SELECT 1 FROM stock_levels WHERE material_id = NEW.id)
+    )
+  THEN
+    RAISE EXCEPTION 'The stock type of a material in use cannot be changed' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER materials_guard_stock_type
+  BEFORE UPDATE OF stock_type ON public.materials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_material_stock_type();
+
+-- Same rule as for items: a location decides the warehouse
+CREATE TRIGGER stock_levels_sync_warehouse
+  BEFORE INSERT OR UPDATE OF warehouse_id, location_id ON public.stock_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_item_warehouse();
+
+-- The ledger drives the balance: a movement updates its stock level in the
+-- same transaction and records the resulting quantity. Clients cannot update
+-- stock levels themselves, and the quantity check stops any balance from
+-- going below zero even if this check were bypassed.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quantity integer;
+BEGIN
+  SELECT quantity INTO v_quantity FROM stock_levels WHERE id = NEW.stock_level_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock level not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_quantity + NEW.quantity_change < 0 THEN
+    RAISE EXCEPTION 'Not enough stock: % on hand, % requested', v_quantity, -NEW.quantity_change
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE stock_levels
+  SET quantity = quantity + NEW.quantity_change,
+      updated_at = now()
+  WHERE id = NEW.stock_level_id
+  RETURNING quantity INTO NEW.balance_after;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stock_movements_apply
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_stock_movement();
+
+-- "Cable 3x1.5 at Main Warehouse / A-3-12" style description of a stock level
+CREATE OR REPLACE FUNCTION public.describe_stock_level(p_stock_level_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.name || ' at ' || public.describe_item_place(s.warehouse_id, s.location_id)
+  FROM stock_levels s
+  JOIN materials m ON m.id = s.material_id
+  WHERE s.id = p_stock_level_id;
+$$;
+
+-- RLS: stock is read like items; admins open stock levels and record
+-- adjustments, the ledger is never edited
+
+ALTER TABLE public.stock_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY stock_levels_select ON public.stock_levels
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_id()) IS NOT NULL
+    AND (
+      (SELECT public.current_app_user_warehouse_id()) IS NULL
+      OR warehouse_id = (SELECT public.current_app_user_warehouse_id())
+    )
+  );
+
+CREATE POLICY stock_levels_admin_insert ON public.stock_levels
+  FOR INSERT
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin' AND quantity = 0);
+
+CREATE POLICY stock_movements_select ON public.stock_movements
+  FOR SELECT
+  USING (
+    (
+      (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+      AND EXISTS (SELECT 1 FROM public.stock_levels s WHERE s.id = stock_movements.stock_level_id)
+    )
+    OR performed_by = (SELECT public.current_app_user_id())
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+CREATE POLICY stock_movements_admin_insert ON public.stock_movements
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'admin'
+    AND performed_by = (SELECT public.current_app_user_id())
+  );
+
+-- Employees may also ask for stock to be issued to them or received into a
+-- stock level
+DROP POLICY pending_requests_employee_insert ON public.pending_requests;
+CREATE POLICY pending_requests_employee_insert ON public.pending_requests
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'employee'
+    AND requested_by = (SELECT public.current_app_user_id())
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.items i
+        WHERE i.id = pending_requests.item_id
+          AND (
+            (pending_requests.type = 'use' AND i.status = 'available')
+            OR (pending_requests.type = 'return' AND i.status = 'used' AND i.last_used_by = pending_requests.requested_by)
+          )
+      )
+      OR (
+        pending_requests.type IN ('issue', 'receive')
+        AND EXISTS (SELECT 1 FROM public.stock_levels s WHERE s.id = pending_requests.stock_level_id)
+      )
+    )
+  );
+
+-- Scoped managers see the stock requests and history of their warehouse too
+DROP POLICY pending_requests_select ON public.pending_requests;
+CREATE POLICY pending_requests_select ON public.pending_requests
+  FOR SELECT
+  USING (
+    (
+      (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+      AND (
+        (SELECT public.current_app_user_warehouse_id()) IS NULL
+        OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = pending_requests.item_id)
+        OR EXISTS (SELECT 1 FROM public.stock_levels s WHERE s.id = pending_requests.stock_level_id)
+      )
+    )
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+DROP POLICY histories_select ON public.histories;
+CREATE POLICY histories_select ON public.histories
+  FOR SELECT
+  USING (
+    (
+      (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+      AND (
+        (SELECT public.current_app_user_warehouse_id()) IS NULL
+        OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = histories.item_id)
+        OR EXISTS (SELECT 1 FROM public.stock_levels s WHERE s.id = histories.stock_level_id)
+      )
+    )
+    OR performed_by = (SELECT public.current_app_user_id())
+    OR requested_by = (SELECT public.current_app_user_id())
+  );
+
+-- Approving a stock request books it into the ledger. Unlike items, several
+-- stock requests for the same stock level can all be approved, so nothing
+-- else is rejected; an issue larger than the balance fails instead.
+CREATE OR REPLACE FUNCTION public.approve_stock_request(p_request_id uuid, p_approved_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_level stock_levels%ROWTYPE;
+  v_requester text;
+  v_unit text;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND OR v_request.stock_level_id IS NULL THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_level FROM stock_levels WHERE id = v_request.stock_level_id FOR UPDATE;
+
+  -- Re-read the request under the stock level lock, it may have been decided
+  -- or cancelled meanwhile
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+  SELECT unit INTO v_unit FROM materials WHERE id = v_level.material_id;
+
+  INSERT INTO stock_movements (stock_level_id, type, quantity_change, request_id, requested_by, performed_by)
+  VALUES (
+    v_level.id,
+    v_request.type,
+    CASE WHEN v_request.type = 'issue' THEN -v_request.quantity ELSE v_request.quantity END,
+    p_request_id,
+    v_request.requested_by,
+    p_approved_by
+  )
+  RETURNING balance_after INTO v_balance;
+
+  INSERT INTO histories (stock_level_id, action, performed_by, requested_by, details)
+  VALUES (
+    v_level.id,
+    CASE WHEN v_request.type = 'issue' THEN 'issued' ELSE 'received' END,
+    p_approved_by,
+    v_request.requested_by,
+    format('Request approved - %s %s %s %s %s (%s left)',
+      CASE WHEN v_request.type = 'issue' THEN 'Issued' ELSE 'Received' END,
+      v_request.quantity,
+      v_unit,
+      CASE WHEN v_request.type = 'issue' THEN 'to' ELSE 'from' END,
+      v_requester,
+      v_balance)
+  );
+
+  DELETE FROM pending_requests WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', NULL,
+    'stock_level_id', v_level.id,
+    'type', v_request.type,
+    'previous_status', NULL,
+    'new_status', NULL,
+    'new_quantity', v_balance,
+    'rejected_count', 0
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_pending_request(p_request_id uuid, p_approved_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+  v_new_status text;
+  v_other record;
+  v_rejected_count integer := 0;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.stock_level_id IS NOT NULL THEN
+    RETURN public.approve_stock_request(p_request_id, p_approved_by);
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Re-read the request under the item lock: a concurrent approval may have
+  -- already resolved it and deleted every request for this item.
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.type = 'use' AND v_item.status <> 'available' THEN
+    RAISE EXCEPTION 'Item is not available (current status: %)', v_item.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.type = 'return' AND (v_item.status <> 'used' OR v_item.last_used_by IS DISTINCT FROM v_request.requested_by) THEN
+    RAISE EXCEPTION 'Item is not currently borrowed by the requester' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+  v_new_status := CASE WHEN v_request.type = 'use' THEN 'used' ELSE 'available' END;
+
+  UPDATE items
+  SET status = v_new_status,
+      last_used_by = CASE WHEN v_request.type = 'use' THEN v_request.requested_by ELSE NULL END,
+      due_date = CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+      changed_by = p_approved_by,
+      updated_at = now()
+  WHERE id = v_item.id;
+
+  INSERT INTO histories (item_id, action, performed_by, requested_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    CASE WHEN v_request.type = 'use' THEN 'borrowed' ELSE 'returned' END,
+    p_approved_by,
+    v_request.requested_by,
+    format('Request approved - %s by %s%s',
+      CASE WHEN v_request.type = 'use' THEN 'Item borrowed' ELSE 'Item returned' END,
+      v_requester,
+      CASE WHEN v_request.type = 'use' AND v_request.expected_return_date IS NOT NULL
+        THEN format(' (due %s)', to_char(v_request.expected_return_date, 'YYYY-MM-DD'))
+        ELSE '' END),
+    v_item.status,
+    v_new_status
+  );
+
+  -- Every other request for this item is automatically rejected
+  FOR v_other IN
+    SELECT pr.id, pr.type, pr.requested_by, u.username
+    FROM pending_requests pr
+    JOIN users u ON u.id = pr.requested_by
+    WHERE pr.item_id = v_item.id AND pr.id <> p_request_id
+    FOR UPDATE OF pr
+  LOOP
+    INSERT INTO histories (item_id, action, performed_by, requested_by, reason, details, previous_status, new_status)
+    VALUES (
+      v_item.id,
+      'rejected',
+      p_approved_by,
+      v_other.requested_by,
+      format('Another %s request for this item was approved first',
+        CASE WHEN v_request.type = 'use' THEN 'borrow' ELSE 'return' END),
+      format('Request automatically rejected - %s''s %s request was denied because %s''s %s request was approved',
+        v_other.username,
+        CASE WHEN v_other.type = 'use' THEN 'borrow' ELSE 'return' END,
+        v_requester,
+        v_request.type),
+      v_item.status,
+      v_new_status
+    );
+    v_rejected_count := v_rejected_count + 1;
+  END LOOP;
+
+  DELETE FROM pending_requests WHERE item_id = v_item.id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_new_status,
+    'due_date', CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+    'rejected_count', v_rejected_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_pending_request(p_request_id uuid, p_rejected_by uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Stock requests lock their stock level, so v_item stays empty for them
+  IF v_request.stock_level_id IS NOT NULL THEN
+    PERFORM 1 FROM stock_levels WHERE id = v_request.stock_level_id FOR UPDATE;
+  ELSE
+    SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+
+  -- Status remains the same for rejection
+  INSERT INTO histories (item_id, stock_level_id, action, performed_by, requested_by, reason, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    v_request.stock_level_id,
+    'rejected',
+    p_rejected_by,
+    v_request.requested_by,
+    trim(p_reason),
+    format('Request manually rejected - %s''s %s request%s was denied: %s',
+      v_requester,
+      v_request.type,
+      CASE WHEN v_request.quantity IS NOT NULL THEN format(' for %s', v_request.quantity) ELSE '' END,
+      trim(p_reason)),
+    v_item.status,
+    v_item.status
+  );
+
+  DELETE FROM pending_requests WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'stock_level_id', v_request.stock_level_id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_item.status,
+    'rejected_count', 1
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_pending_request(p_request_id uuid, p_cancelled_by uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+BEGIN
+  -- Runs as the owner, so only the requester may cancel
+  IF p_cancelled_by IS DISTINCT FROM (SELECT public.current_app_user_id()) THEN
+    RAISE EXCEPTION 'Requests can only be cancelled by their requester'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Deleting first means a request an approver is deciding right now is
+  -- either cancelled here or already gone, never both
+  DELETE FROM pending_requests
+  WHERE id = p_request_id AND requested_by = p_cancelled_by
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id;
+
+  INSERT INTO histories (item_id, stock_level_id, action, performed_by, requested_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    v_request.stock_level_id,
+    'cancelled',
+    p_cancelled_by,
+    p_cancelled_by,
+    format('%s request cancelled by requester',
+      CASE v_request.type
+        WHEN 'use' THEN 'Borrow'
+        WHEN 'return' THEN 'Return'
+        WHEN 'issue' THEN 'Issue'
+        ELSE 'Receive'
+      END),
+    v_item.status,
+    v_item.status
+  );
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'stock_level_id', v_request.stock_level_id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_item.status,
+    'rejected_count', 0
+  );
+END;
+$$;
+
+-- Notifications name the stock level when a request has no item
+
+CREATE OR REPLACE FUNCTION public.notify_request_submitted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requester text;
+  v_item items%ROWTYPE;
+  v_subject text;
+BEGIN
+  SELECT username INTO v_requester FROM users WHERE id = NEW.requested_by;
+
+  IF NEW.stock_level_id IS NOT NULL THEN
+    v_subject := format('%s x %s', NEW.quantity, public.describe_stock_level(NEW.stock_level_id));
+  ELSE
+    SELECT * INTO v_item FROM items WHERE id = NEW.item_id;
+    v_subject := format('%s (%s)', v_item.material, v_item.serial_number);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, item_id)
+  SELECT
+    u.id,
+    'request_submitted',
+    CASE NEW.type
+      WHEN 'use' THEN 'New borrow request'
+      WHEN 'return' THEN 'New return request'
+      WHEN 'issue' THEN 'New stock issue request'
+      ELSE 'New stock receipt request'
+    END,
+    format('%s requested to %s %s',
+      v_requester,
+      CASE WHEN NEW.type = 'use' THEN 'borrow' ELSE NEW.type END,
+      v_subject),
+    NEW.item_id
+  FROM users u
+  WHERE u.role IN ('admin', 'manager') AND u.status = 'active';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_request_decided()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item items%ROWTYPE;
+  v_subject text;
+BEGIN
+  IF NEW.stock_level_id IS NOT NULL THEN
+    v_subject := public.describe_stock_level(NEW.stock_level_id);
+  ELSE
+    SELECT * INTO v_item FROM items WHERE id = NEW.item_id;
+    v_subject := format('%s (%s)', v_item.material, v_item.serial_number);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, item_id)
+  VALUES (
+    NEW.requested_by,
+    CASE WHEN NEW.action = 'rejected' THEN 'request_rejected' ELSE 'request_approved' END,
+    CASE NEW.action
+      WHEN 'borrowed' THEN 'Borrow request approved'
+      WHEN 'returned' THEN 'Return request approved'
+      WHEN 'issued' THEN 'Stock issue approved'
+      WHEN 'received' THEN 'Stock receipt approved'
+      ELSE 'Request rejected'
+    END,
+    CASE WHEN NEW.action = 'rejected'
+      THEN format('Your request for %s was rejected: %s', v_subject, coalesce(NEW.reason, 'no reason given'))
+      ELSE format('Your request for %s was approved', v_subject)
+    END,
+    NEW.item_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER histories_notify_decided ON public.histories;
+CREATE TRIGGER histories_notify_decided
+  AFTER INSERT ON public.histories
+  FOR EACH ROW
+  WHEN (NEW.requested_by IS NOT NULL AND NEW.action IN ('borrowed', 'returned', 'rejected', 'issued', 'received'))
+  EXECUTE FUNCTION public.notify_request_decided();
+
+-- Open stock pages refresh like the item list does
+CREATE TRIGGER stock_levels_broadcast_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_levels
+  FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_inventory_change();
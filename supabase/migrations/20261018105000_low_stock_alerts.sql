@@ -0,0 +1,110 @@
+-- Per-material minimum available quantity. Serialized materials count their
+-- available items, consumables the quantity on hand. Managers are notified
+-- when an approved borrow or issue takes a material below its minimum.
+
+ALTER TABLE public.materials
+  ADD COLUMN min_available integer CHECK (min_available > 0);
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('request_submitted', 'request_approved', 'request_rejected', 'item_overdue', 'low_stock'));
+
+-- How many of a material can be handed out right now
+CREATE OR REPLACE FUNCTION public.material_available_count(p_material_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE m.stock_type
+    WHEN 'consumable' THEN
+      (SELECT coalesce(sum(s.quantity), 0)::integer FROM stock_levels s WHERE s.material_id = m.id)
+    ELSE
+      (SELECT count(*)::integer FROM items i WHERE i.material_id = m.id AND i.status = 'available')
+    END
+  FROM materials m
+  WHERE m.id = p_material_id;
+$$;
+
+-- Materials below their minimum, the emptiest first. Runs with the caller's
+-- rights, so a scoped manager counts the stock of their own warehouse.
+CREATE OR REPLACE FUNCTION public.get_low_stock_materials()
+RETURNS TABLE (
+  material_id uuid,
+  name text,
+  unit text,
+  stock_type text,
+  min_available integer,
+  available integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.id, m.name, m.unit, m.stock_type, m.min_available, c.available
+  FROM materials m
+  CROSS JOIN LATERAL (SELECT public.material_available_count(m.id) AS available) c
+  WHERE m.min_available IS NOT NULL AND c.available < m.min_available
+  ORDER BY c.available::numeric / m.min_available, m.name;
+$$;
+
+-- Approvals that hand something out are recorded as a 'borrowed' history entry
+-- (one item) or an 'issue' movement (a quantity); only the approval that
+-- crosses the minimum notifies, later ones while still below stay quiet
+CREATE OR REPLACE FUNCTION public.notify_low_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_material materials%ROWTYPE;
+  v_taken integer;
+  v_available integer;
+BEGIN
+  IF TG_TABLE_NAME = 'stock_movements' THEN
+    SELECT m.* INTO v_material
+    FROM stock_levels s
+    JOIN materials m ON m.id = s.material_id
+    WHERE s.id = NEW.stock_level_id;
+    v_taken := -NEW.quantity_change;
+  ELSE
+    SELECT m.* INTO v_material
+    FROM items i
+    JOIN materials m ON m.id = i.material_id
+    WHERE i.id = NEW.item_id;
+    v_taken := 1;
+  END IF;
+
+  IF v_material.min_available IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_available := public.material_available_count(v_material.id);
+
+  IF v_available < v_material.min_available AND v_available + v_taken >= v_material.min_available THEN
+    INSERT INTO notifications (user_id, type, title, message)
+    SELECT
+      u.id,
+      'low_stock',
+      'Low stock',
+      format('%s is below its minimum: %s %s available, minimum %s',
+        v_material.name, v_available, v_material.unit, v_material.min_available)
+    FROM users u
+    WHERE u.role = 'manager' AND u.status = 'active';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER histories_notify_low_stock
+  AFTER INSERT ON public.histories
+  FOR EACH ROW
+  WHEN (NEW.action = 'borrowed')
+  EXECUTE FUNCTION public.notify_low_stock();
+
+CREATE TRIGGER stock_movements_notify_low_stock
+  AFTER INSERT ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.type = 'issue' AND NEW.request_id IS NOT NULL)
+  EXECUTE FUNCTION public.notify_low_stock();
@@ -0,0 +1,152 @@
+-- Borrowers report the condition an item comes back in. The report travels
+-- with the return request and is kept on the history entries, and approvers
+-- can send a damaged item to the new 'maintenance' status instead of back to
+-- 'available'. An admin puts it back into service with a 'serviced' entry.
+
+ALTER TABLE public.items DROP CONSTRAINT items_status_check;
+ALTER TABLE public.items
+  ADD CONSTRAINT items_status_check
+  CHECK (status IN ('available', 'used', 'pending_borrow', 'pending_return', 'archived', 'maintenance'));
+
+ALTER TABLE public.pending_requests
+  ADD COLUMN return_condition text CHECK (return_condition IN ('good', 'worn', 'damaged', 'missing_parts'));
+ALTER TABLE public.pending_requests ADD COLUMN return_notes text;
+ALTER TABLE public.pending_requests
+  ADD CONSTRAINT pending_requests_return_condition_type_check CHECK (return_condition IS NULL OR type = 'return');
+
+ALTER TABLE public.histories
+  ADD COLUMN condition text CHECK (condition IN ('good', 'worn', 'damaged', 'missing_parts'));
+ALTER TABLE public.histories ADD COLUMN condition_notes text;
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled', 'transferred', 'issued', 'received', 'serviced'));
+
+-- The new argument changes the signature, so the old function has to go.
+-- approve_request_batch keeps calling it with two arguments.
+DROP FUNCTION public.approve_pending_request(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.approve_pending_request(
+  p_request_id uuid,
+  p_approved_by uuid,
+  p_to_maintenance boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request pending_requests%ROWTYPE;
+  v_item items%ROWTYPE;
+  v_requester text;
+  v_new_status text;
+  v_other record;
+  v_rejected_count integer := 0;
+BEGIN
+  SELECT * INTO v_request FROM pending_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.stock_level_id IS NOT NULL THEN
+    RETURN public.approve_stock_request(p_request_id, p_approved_by);
+  END IF;
+
+  IF p_to_maintenance AND v_request.type <> 'return' THEN
+    RAISE EXCEPTION 'Only returned items can be sent to maintenance' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_item FROM items WHERE id = v_request.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item data not found in request' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Re-read the request under the item lock: a concurrent approval may have
+  -- already resolved it and deleted every request for this item.
+  PERFORM 1 FROM pending_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request has already been processed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.type = 'use' AND v_item.status <> 'available' THEN
+    RAISE EXCEPTION 'Item is not available (current status: %)', v_item.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.type = 'return' AND (v_item.status <> 'used' OR v_item.last_used_by IS DISTINCT FROM v_request.requested_by) THEN
+    RAISE EXCEPTION 'Item is not currently borrowed by the requester' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT username INTO v_requester FROM users WHERE id = v_request.requested_by;
+  v_new_status := CASE
+    WHEN v_request.type = 'use' THEN 'used'
+    WHEN p_to_maintenance THEN 'maintenance'
+    ELSE 'available'
+  END;
+
+  UPDATE items
+  SET status = v_new_status,
+      last_used_by = CASE WHEN v_request.type = 'use' THEN v_request.requested_by ELSE NULL END,
+      due_date = CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+      changed_by = p_approved_by,
+      updated_at = now()
+  WHERE id = v_item.id;
+
+  INSERT INTO histories (item_id, action, performed_by, requested_by, details, previous_status, new_status, condition, condition_notes)
+  VALUES (
+    v_item.id,
+    CASE WHEN v_request.type = 'use' THEN 'borrowed' ELSE 'returned' END,
+    p_approved_by,
+    v_request.requested_by,
+    format('Request approved - %s by %s%s%s',
+      CASE WHEN v_request.type = 'use' THEN 'Item borrowed' ELSE 'Item returned' END,
+      v_requester,
+      CASE WHEN v_request.type = 'use' AND v_request.expected_return_date IS NOT NULL
+        THEN format(' (due %s)', to_char(v_request.expected_return_date, 'YYYY-MM-DD'))
+        ELSE '' END,
+      CASE WHEN p_to_maintenance THEN ', sent to maintenance' ELSE '' END),
+    v_item.status,
+    v_new_status,
+    v_request.return_condition,
+    v_request.return_notes
+  );
+
+  -- Every other request for this item is automatically rejected
+  FOR v_other IN
+    SELECT pr.id, pr.type, pr.requested_by, u.username
+    FROM pending_requests pr
+    JOIN users u ON u.id = pr.requested_by
+    WHERE pr.item_id = v_item.id AND pr.id <> p_request_id
+    FOR UPDATE OF pr
+  LOOP
+    INSERT INTO histories (item_id, action, performed_by, requested_by, reason, details, previous_status, new_status)
+    VALUES (
+      v_item.id,
+      'rejected',
+      p_approved_by,
+      v_other.requested_by,
+      format('Another %s request for this item was approved first',
+        CASE WHEN v_request.type = 'use' THEN 'borrow' ELSE 'return' END),
+      format('Request automatically rejected - %s''s %s request was denied because %s''s %s request was approved',
+        v_other.username,
+        CASE WHEN v_other.type = 'use' THEN 'borrow' ELSE 'return' END,
+        v_requester,
+        v_request.type),
+      v_item.status,
+      v_new_status
+    );
+    v_rejected_count := v_rejected_count + 1;
+  END LOOP;
+
+  DELETE FROM pending_requests WHERE item_id = v_item.id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'item_id', v_item.id,
+    'type', v_request.type,
+    'previous_status', v_item.status,
+    'new_status', v_new_status,
+    'due_date', CASE WHEN v_request.type = 'use' THEN v_request.expected_return_date ELSE NULL END,
+    'rejected_count', v_rejected_count
+  );
+END;
+$$;
@@ -0,0 +1,188 @@
+-- Preventive maintenance and calibration. A plan repeats every interval_days
+-- and covers either one item or every item of a catalog material. Each
+-- completed service is a service record, and an item's next due date counts
+-- from its latest record for the plan, else from the plan's last_service_date,
+-- else from the day the item was added.
+-- Admins can also take an item out of circulation ('sent_to_maintenance');
+-- recording a service puts an item in maintenance back to 'available'.
+
+CREATE TABLE public.maintenance_plans (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''), -- e.g. 'Calibration'
+  material_id uuid,
+  item_id uuid,
+  interval_days integer NOT NULL CHECK (interval_days > 0),
+  last_service_date date,
+  created_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT maintenance_plans_pkey PRIMARY KEY (id),
+  CONSTRAINT maintenance_plans_target_check CHECK ((material_id IS NULL) <> (item_id IS NULL)),
+  CONSTRAINT maintenance_plans_material_id_fkey FOREIGN KEY (material_id) REFERENCES public.materials(id) ON DELETE CASCADE,
+  CONSTRAINT maintenance_plans_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE,
+  CONSTRAINT maintenance_plans_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.users(id)
+);
+
+CREATE INDEX maintenance_plans_material_id_idx ON public.maintenance_plans (material_id);
+CREATE INDEX maintenance_plans_item_id_idx ON public.maintenance_plans (item_id);
+
+CREATE TABLE public.service_records (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL,
+  plan_id uuid, -- NULL for a repair outside any plan
+  service_date date NOT NULL,
+  performed_by uuid NOT NULL,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT service_records_pkey PRIMARY KEY (id),
+  CONSTRAINT service_records_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id),
+  CONSTRAINT service_records_plan_id_fkey FOREIGN KEY (plan_id) REFERENCES public.maintenance_plans(id) ON DELETE SET NULL,
+  CONSTRAINT service_records_performed_by_fkey FOREIGN KEY (performed_by) REFERENCES public.users(id)
+);
+
+CREATE INDEX service_records_item_plan_idx ON public.service_records (item_id, plan_id, service_date DESC);
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled', 'transferred', 'issued', 'received', 'serviced', 'sent_to_maintenance'));
+
+-- RLS: plans are read by everyone signed in and maintained by admins; service
+-- records are read like the items they belong to and written by admins
+
+ALTER TABLE public.maintenance_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.service_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY maintenance_plans_select ON public.maintenance_plans
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY maintenance_plans_admin_write ON public.maintenance_plans
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+CREATE POLICY service_records_select ON public.service_records
+  FOR SELECT
+  USING (
+    (SELECT public.current_app_user_role()) IN ('admin', 'manager')
+    AND EXISTS (SELECT 1 FROM public.items i WHERE i.id = service_records.item_id)
+  );
+
+CREATE POLICY service_records_admin_insert ON public.service_records
+  FOR INSERT
+  WITH CHECK (
+    (SELECT public.current_app_user_role()) = 'admin'
+    AND performed_by = (SELECT public.current_app_user_id())
+  );
+
+-- Every plan that applies to each non-archived item with its due dates,
+-- soonest first. Runs with the caller's rights, so a scoped manager only
+-- sees the items of their warehouse.
+CREATE OR REPLACE FUNCTION public.get_maintenance_schedule(
+  p_item_id uuid DEFAULT NULL,
+  p_within_days integer DEFAULT NULL
+)
+RETURNS TABLE (
+  plan_id uuid,
+  plan_name text,
+  interval_days integer,
+  item_id uuid,
+  material text,
+  serial_number text,
+  status text,
+  last_service_date date,
+  next_due_date date
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.plan_id, s.plan_name, s.interval_days, s.item_id, s.material, s.serial_number, s.status,
+    s.last_service_date, s.last_service_date + s.interval_days AS next_due_date
+  FROM (
+    SELECT p.id AS plan_id, p.name AS plan_name, p.interval_days, i.id AS item_id, i.material, i.serial_number, i.status,
+      coalesce(
+        (SELECT max(r.service_date) FROM service_records r WHERE r.item_id = i.id AND r.plan_id = p.id),
+        p.last_service_date,
+        i.created_at::date
+      ) AS last_service_date
+    FROM maintenance_plans p
+    JOIN items i ON i.id = p.item_id OR i.material_id = p.material_id
+    WHERE i.status <> 'archived'
+      AND (p_item_id IS NULL OR i.id = p_item_id)
+  ) s
+  WHERE p_within_days IS NULL OR s.last_service_date + s.interval_days <= current_date + p_within_days
+  ORDER BY next_due_date, s.material, s.serial_number;
+$$;
+
+-- Record a completed service. An item in maintenance comes back as available.
+CREATE OR REPLACE FUNCTION public.record_service(
+  p_item_id uuid,
+  p_plan_id uuid,
+  p_service_date date,
+  p_performed_by uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item items%ROWTYPE;
+  v_plan_name text;
+  v_new_status text;
+  v_record_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_item.status IN ('archived', 'used') THEN
+    RAISE EXCEPTION 'Cannot record a service for an item that is %', v_item.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_service_date > current_date THEN
+    RAISE EXCEPTION 'Service date cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_plan_id IS NOT NULL THEN
+    SELECT name INTO v_plan_name
+    FROM maintenance_plans
+    WHERE id = p_plan_id AND (item_id = v_item.id OR material_id = v_item.material_id);
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Maintenance plan does not apply to this item' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO service_records (item_id, plan_id, service_date, performed_by, notes)
+  VALUES (v_item.id, p_plan_id, p_service_date, p_performed_by, nullif(btrim(p_notes), ''))
+  RETURNING id INTO v_record_id;
+
+  v_new_status := CASE WHEN v_item.status = 'maintenance' THEN 'available' ELSE v_item.status END;
+
+  IF v_new_status <> v_item.status THEN
+    UPDATE items
+    SET status = v_new_status,
+        changed_by = p_performed_by,
+        updated_at = now()
+    WHERE id = v_item.id;
+  END IF;
+
+  INSERT INTO histories (item_id, action, performed_by, details, previous_status, new_status)
+  VALUES (
+    v_item.id,
+    'serviced',
+    p_performed_by,
+    format('%s completed on %s', coalesce(v_plan_name, 'Service'), to_char(p_service_date, 'YYYY-MM-DD'))
+      || coalesce(': ' || nullif(btrim(p_notes), ''), ''),
+    v_item.status,
+    v_new_status
+  );
+
+  RETURN jsonb_build_object(
+    'service_record_id', v_record_id,
+    'item_id', v_item.id,
+    'previous_status', v_item.status,
+    'new_status', v_new_status
+  );
+END;
+$$;
@@ -0,0 +1,70 @@
+-- Purchase, warranty and depreciation data on items, and the book value of
+-- every costed item as of a given date for the valuation report.
+-- Straight-line writes the cost down to the salvage value evenly over the
+-- useful life. Declining balance takes twice the straight-line rate off the
+-- remaining value each year, never going below salvage, and reaches salvage
+-- at the end of the useful life.
+
+ALTER TABLE public.items
+  ADD COLUMN purchase_date date,
+  ADD COLUMN supplier text,
+  ADD COLUMN purchase_cost numeric(12,2) CHECK (purchase_cost >= 0),
+  ADD COLUMN warranty_expiry date,
+  ADD COLUMN depreciation_method text NOT NULL DEFAULT 'none'
+    CHECK (depreciation_method IN ('none', 'straight_line', 'declining_balance')),
+  ADD COLUMN useful_life_months integer CHECK (useful_life_months > 0),
+  ADD COLUMN salvage_value numeric(12,2) NOT NULL DEFAULT 0 CHECK (salvage_value >= 0);
+
+ALTER TABLE public.items
+  ADD CONSTRAINT items_depreciation_check CHECK (
+    depreciation_method = 'none'
+    OR (purchase_date IS NOT NULL AND purchase_cost IS NOT NULL AND useful_life_months IS NOT NULL)
+  ),
+  ADD CONSTRAINT items_salvage_value_cost_check CHECK (purchase_cost IS NULL OR salvage_value <= purchase_cost);
+
+-- Book value of every item with a purchase cost that was held on p_as_of:
+-- bought (or added, without a purchase date) by then and not yet archived.
+-- Runs with the caller's rights, so a scoped manager only values the items of
+-- their warehouse.
+CREATE OR REPLACE FUNCTION public.get_item_valuation(p_as_of date DEFAULT current_date)
+RETURNS TABLE (
+  item_id uuid,
+  material text,
+  serial_number text,
+  category text,
+  supplier text,
+  purchase_date date,
+  purchase_cost numeric,
+  warranty_expiry date,
+  depreciation_method text,
+  useful_life_months integer,
+  salvage_value numeric,
+  book_value numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT v.item_id, v.material, v.serial_number, v.category, v.supplier, v.purchase_date, v.purchase_cost,
+    v.warranty_expiry, v.depreciation_method, v.useful_life_months, v.salvage_value,
+    round(CASE
+      WHEN v.depreciation_method = 'none' THEN v.purchase_cost
+      WHEN v.elapsed_years >= v.life_years THEN v.salvage_value
+      WHEN v.depreciation_method = 'straight_line' THEN
+        v.purchase_cost - (v.purchase_cost - v.salvage_value) * v.elapsed_years / v.life_years
+      ELSE
+        greatest(v.salvage_value, v.purchase_cost * power(greatest(1 - 2 / v.life_years, 0), v.elapsed_years))
+    END, 2) AS book_value
+  FROM (
+    SELECT i.id AS item_id, i.material, i.serial_number, c.name AS category, i.supplier, i.purchase_date,
+      i.purchase_cost, i.warranty_expiry, i.depreciation_method, i.useful_life_months, i.salvage_value,
+      greatest(p_as_of - i.purchase_date, 0) / 365.25 AS elapsed_years,
+      i.useful_life_months / 12.0 AS life_years
+    FROM items i
+    LEFT JOIN materials m ON m.id = i.material_id
+    LEFT JOIN material_categories c ON c.id = m.category_id
+    WHERE i.purchase_cost IS NOT NULL
+      AND coalesce(i.purchase_date, i.created_at::date) <= p_as_of
+      AND (i.archived_at IS NULL OR i.archived_at::date > p_as_of)
+  ) v
+  ORDER BY v.category NULLS LAST, v.material, v.serial_number;
+$$;
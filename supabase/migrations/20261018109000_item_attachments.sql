@@ -0,0 +1,158 @@
+-- Photos and documents attached to items, e.g. a nameplate photo, a
+-- calibration certificate or pictures taken with a return condition report.
+-- Files live in the private item-attachments storage bucket under
+-- <item id>/<file>; images are downscaled by the client and get a separate
+-- thumbnail object. A trigger logs every upload and deletion in histories.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'item-attachments',
+  'item-attachments',
+  false,
+  10485760, -- 10 MB
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.item_attachments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL,
+  context text NOT NULL DEFAULT 'item' CHECK (context IN ('item', 'return_report')),
+  pending_request_id uuid, -- The return request a report photo belongs to, until it is decided
+  storage_path text NOT NULL UNIQUE,
+  thumbnail_path text UNIQUE,
+  file_name text NOT NULL CHECK (btrim(file_name) <> ''),
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes > 0),
+  uploaded_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT item_attachments_pkey PRIMARY KEY (id),
+  CONSTRAINT item_attachments_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE,
+  CONSTRAINT item_attachments_pending_request_id_fkey FOREIGN KEY (pending_request_id) REFERENCES public.pending_requests(id) ON DELETE SET NULL,
+  CONSTRAINT item_attachments_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES public.users(id)
+);
+
+CREATE INDEX item_attachments_item_id_idx ON public.item_attachments (item_id, created_at DESC);
+CREATE INDEX item_attachments_pending_request_id_idx ON public.item_attachments (pending_request_id);
+
+ALTER TABLE public.histories DROP CONSTRAINT histories_action_check;
+ALTER TABLE public.histories
+  ADD CONSTRAINT histories_action_check
+  CHECK (action IN ('created', 'edited', 'borrowed', 'returned', 'archived', 'rejected', 'requested_borrow', 'requested_return', 'cancelled', 'transferred', 'issued', 'received', 'serviced', 'sent_to_maintenance', 'attachment_added', 'attachment_removed'));
+
+-- RLS: attachments are seen by everyone signed in, like the items. Admins
+-- attach to any item; an employee only attaches photos to their own pending
+-- return request. Only admins delete.
+
+ALTER TABLE public.item_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY item_attachments_select ON public.item_attachments
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY item_attachments_insert ON public.item_attachments
+  FOR INSERT
+  WITH CHECK (
+    uploaded_by = (SELECT public.current_app_user_id())
+    AND (
+      (SELECT public.current_app_user_role()) = 'admin'
+      OR (
+        (SELECT public.current_app_user_role()) = 'employee'
+        AND context = 'return_report'
+        AND EXISTS (
+          SELECT 1 FROM public.pending_requests r
+          WHERE r.id = item_attachments.pending_request_id
+            AND r.item_id = item_attachments.item_id
+            AND r.type = 'return'
+            AND r.requested_by = item_attachments.uploaded_by
+        )
+      )
+    )
+  );
+
+CREATE POLICY item_attachments_admin_delete ON public.item_attachments
+  FOR DELETE
+  USING ((SELECT public.current_app_user_role()) = 'admin');
+
+-- Storage requests carry the same x-session-token header, so the objects use
+-- the same rules: employees may only upload under an item they have a
+-- pending return request for
+CREATE POLICY item_attachments_objects_select ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'item-attachments' AND (SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY item_attachments_objects_insert ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'item-attachments'
+    AND (
+      (SELECT public.current_app_user_role()) = 'admin'
+      OR (
+        (SELECT public.current_app_user_role()) = 'employee'
+        AND EXISTS (
+          SELECT 1 FROM public.pending_requests r
+          WHERE r.item_id::text = (storage.foldername(name))[1]
+            AND r.type = 'return'
+            AND r.requested_by = (SELECT public.current_app_user_id())
+        )
+      )
+    )
+  );
+
+-- Employees may remove the files of a return report upload that failed before
+-- its attachment row was saved, even if the request was decided meanwhile
+CREATE POLICY item_attachments_objects_delete ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'item-attachments'
+    AND (
+      (SELECT public.current_app_user_role()) = 'admin'
+      OR (
+        (SELECT public.current_app_user_role()) = 'employee'
+        AND EXISTS (
+          SELECT 1 FROM public.histories h
+          WHERE h.item_id::text = (storage.foldername(name))[1]
+            AND h.action = 'requested_return'
+            AND h.performed_by = (SELECT public.current_app_user_id())
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.item_attachments a
+          WHERE a.storage_path = objects.name OR a.thumbnail_path = objects.name
+        )
+      )
+    )
+  );
+
+-- Log uploads against the uploader and deletions against whoever deleted
+CREATE OR REPLACE FUNCTION public.log_item_attachment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO histories (item_id, action, performed_by, details)
+    VALUES (
+      NEW.item_id,
+      'attachment_added',
+      NEW.uploaded_by,
+      format('Attached %s%s', NEW.file_name, CASE WHEN NEW.context = 'return_report' THEN ' to the return report' ELSE '' END)
+    );
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO histories (item_id, action, performed_by, details)
+  VALUES (
+    OLD.item_id,
+    'attachment_removed',
+    coalesce(public.current_app_user_id(), OLD.uploaded_by),
+    format('Removed attachment %s', OLD.file_name)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER item_attachments_log_change
+  AFTER INSERT OR DELETE ON public.item_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.log_item_attachment_change();
@@ -0,0 +1,89 @@
+-- Admin-defined fields per material category, e.g. phase and accuracy class
+-- for meters. Items keep their values in custom_fields, keyed by field id:
+-- numbers as JSON numbers, text, dates (YYYY-MM-DD) and enum options as
+-- strings. The database checks that every value fits its field; whether a
+-- field must be filled in is left to the item forms, so bulk imports and
+-- fields added later do not block existing items.
+
+CREATE TABLE public.category_fields (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  category_id uuid NOT NULL,
+  label text NOT NULL CHECK (btrim(label) <> ''),
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'enum')),
+  options text[], -- The choices of an enum field
+  required boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT category_fields_pkey PRIMARY KEY (id),
+  CONSTRAINT category_fields_label_key UNIQUE (category_id, label),
+  CONSTRAINT category_fields_options_check CHECK ((field_type = 'enum') = (coalesce(cardinality(options), 0) > 0)),
+  CONSTRAINT category_fields_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.material_categories(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.items
+  ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(custom_fields) = 'object');
+
+-- The values alone, for the item list search
+ALTER TABLE public.items
+  ADD COLUMN custom_field_search text GENERATED ALWAYS AS (jsonb_path_query_array(custom_fields, '$.*')::text) STORED;
+
+CREATE INDEX IF NOT EXISTS items_custom_field_search_trgm_idx
+  ON public.items USING gin (custom_field_search extensions.gin_trgm_ops);
+
+ALTER TABLE public.category_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY category_fields_select ON public.category_fields
+  FOR SELECT
+  USING ((SELECT public.current_app_user_id()) IS NOT NULL);
+
+CREATE POLICY category_fields_admin_write ON public.category_fields
+  FOR ALL
+  USING ((SELECT public.current_app_user_role()) = 'admin')
+  WITH CHECK ((SELECT public.current_app_user_role()) = 'admin');
+
+-- Keep only the values of the fields of the item's category and reject any
+-- that do not fit their field
+CREATE OR REPLACE FUNCTION public.validate_item_custom_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_field category_fields%ROWTYPE;
+  v_value jsonb;
+  v_clean jsonb := '{}'::jsonb;
+BEGIN
+  FOR v_field IN
+    SELECT f.*
+    FROM category_fields f
+    JOIN materials m ON m.category_id = f.category_id
+    WHERE m.id = NEW.material_id
+  LOOP
+    v_value := NEW.custom_fields -> v_field.id::text;
+    CONTINUE WHEN v_value IS NULL OR v_value = 'null'::jsonb;
+
+    IF v_field.field_type = 'number' THEN
+      IF jsonb_typeof(v_value) <> 'number' THEN
+        RAISE EXCEPTION '% must be a number', v_field.label USING ERRCODE = '22023';
+      END IF;
+    ELSIF jsonb_typeof(v_value) <> 'string' OR btrim(v_value #>> '{}') = '' THEN
+      RAISE EXCEPTION '% must be text', v_field.label USING ERRCODE = '22023';
+    ELSIF v_field.field_type = 'date' THEN
+      IF v_value #>> '{}' !~ '^\d{4}-\d{2}-\d{2}$' THEN
+        RAISE EXCEPTION '% must be a date (YYYY-MM-DD)', v_field.label USING ERRCODE = '22023';
+      END IF;
+      PERFORM (v_value #>> '{}')::date; -- Rejects impossible dates such as 2026-02-30
+    ELSIF v_field.field_type = 'enum' AND NOT (v_value #>> '{}') = ANY (v_field.options) THEN
+      RAISE EXCEPTION '% must be one of: %', v_field.label, array_to_string(v_field.options, ', ') USING ERRCODE = '22023';
+    END IF;
+
+    v_clean := v_clean || jsonb_build_object(v_field.id::text, v_value);
+  END LOOP;
+
+  NEW.custom_fields := v_clean;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER items_validate_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields, material_id ON public.items
+  FOR EACH ROW EXECUTE FUNCTION public.validate_item_custom_fields();
@@ -0,0 +1,39 @@
+-- Filtered history for the audit log. Returns history rows, so the page can
+-- still embed users, items and stock levels and let the database sort, page
+-- and count them. Runs with the caller's rights, so the histories policies
+-- decide which entries a manager sees.
+
+CREATE INDEX IF NOT EXISTS histories_timestamp_idx ON public.histories (timestamp DESC);
+
+-- p_to is exclusive; p_material matches the item's material or the stock
+-- level's catalog material, ignoring case
+CREATE OR REPLACE FUNCTION public.search_history(
+  p_action text DEFAULT NULL,
+  p_performed_by uuid DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_material text DEFAULT NULL,
+  p_previous_status text DEFAULT NULL,
+  p_new_status text DEFAULT NULL
+)
+RETURNS SETOF public.histories
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT h.*
+  FROM histories h
+  LEFT JOIN items i ON i.id = h.item_id
+  LEFT JOIN stock_levels s ON s.id = h.stock_level_id
+  LEFT JOIN materials m ON m.id = s.material_id
+  WHERE (p_action IS NULL OR h.action = p_action)
+    AND (p_performed_by IS NULL OR h.performed_by = p_performed_by)
+    AND (p_from IS NULL OR h.timestamp >= p_from)
+    AND (p_to IS NULL OR h.timestamp < p_to)
+    AND (p_previous_status IS NULL OR h.previous_status = p_previous_status)
+    AND (p_new_status IS NULL OR h.new_status = p_new_status)
+    AND (
+      nullif(btrim(p_material), '') IS NULL
+      -- LIKE wildcards typed into the filter match literally
+      OR coalesce(i.material, m.name) ILIKE '%' || regexp_replace(btrim(p_material), '([\\%_])', '\\\1', 'g') || '%'
+    );
+$$;